@@ -8,6 +8,7 @@ const outDir = join(__dirname, 'dist');
 const distPopupDir = join(__dirname, 'dist-popup');
 
 const watch = process.argv.includes('--watch');
+const LINKEDIN_HOST_PERMISSIONS = ['*://www.linkedin.com/*'];
 
 /** Bump patch version (e.g. 1.0.0 → 1.0.1) in package.json. Returns new version. */
 function bumpVersion() {
@@ -35,11 +36,37 @@ function syncVersion() {
   }
 }
 
+/**
+ * Sync host_permissions in manifest.json from the provider registry (src/lib/providers.ts), so adding
+ * a provider adapter is enough to grant the extension access to its API host.
+ */
+async function syncHostPermissions() {
+  const bundled = await esbuild.build({
+    entryPoints: [join(__dirname, 'src/lib/providers.ts')],
+    bundle: true,
+    write: false,
+    format: 'esm',
+    platform: 'neutral',
+    logLevel: 'silent',
+  });
+  const code = bundled.outputFiles[0].text;
+  const { PROVIDER_ADAPTERS } = await import(`data:text/javascript;base64,${Buffer.from(code).toString('base64')}`);
+  const hosts = [...new Set([...LINKEDIN_HOST_PERMISSIONS, ...PROVIDER_ADAPTERS.flatMap((a) => a.hostPermissions)])];
+  const manifestPath = join(__dirname, 'manifest.json');
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+  if (JSON.stringify(manifest.host_permissions) !== JSON.stringify(hosts)) {
+    manifest.host_permissions = hosts;
+    writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+    console.log(`Synced manifest host_permissions (${hosts.length} hosts)`);
+  }
+}
+
 async function build(bump = false) {
   if (!existsSync(outDir)) mkdirSync(outDir, { recursive: true });
 
   if (bump) bumpVersion();
   syncVersion();
+  await syncHostPermissions();
 
   await esbuild.build({
     entryPoints: [
@@ -96,6 +123,7 @@ async function build(bump = false) {
 }
 
 if (watch) {
+  await syncHostPermissions();
   const ctx = await esbuild.context({
     entryPoints: [
       'src/content/content.ts',
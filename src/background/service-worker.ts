@@ -5,9 +5,48 @@ import {
   saveJobEvaluation,
   getVisitedCompaniesMap,
   recordVisitedCompanyVisit,
+  getEvalQueueTask,
+  getEvalQueueTasks,
+  putEvalQueueTask,
+  addUsageLogEntry,
+  getUsageLog,
+  getActivePromptTemplate,
+  getAllFeedback,
+  saveResumeSummary,
+  type EvalQueueRecord,
+  type EvalTaskStatus,
 } from '../lib/db';
-import { evaluateJob, PROVIDER_MODELS } from '../lib/llm';
-import type { JobData, EvaluationResult, ApiProvider } from '../lib/types';
+import {
+  evaluateJob,
+  extractPartialResult,
+  ProviderError,
+  triageJob,
+  type EvaluateOptions,
+  type ProviderErrorKind,
+} from '../lib/llm';
+import { buildTriagePrompt, buildUserPrompt, TRIAGE_PROMPT_TEMPLATE } from '../lib/prompts';
+import { activeCriteria } from '../lib/rubric';
+import { applyPrefilter, buildPrefilterResult } from '../lib/prefilter';
+import { applyCompensationCheck } from '../lib/compensation';
+import { applyLocationCheck } from '../lib/location';
+import { getProviderAdapter, PROVIDER_MODELS, resolveRateLimit } from '../lib/providers';
+import { estimateTokens, ProviderRateLimiter } from '../lib/ratelimit';
+import { computeRetryDelayMs } from '../lib/retry';
+import { formatUsd, getMonthStart, isFreeModel } from '../lib/usage';
+import { aggregateEvaluations } from '../lib/ensemble';
+import { applyCalibration, selectFeedbackExamples } from '../lib/feedback';
+import { getStructuredResume } from '../lib/resumeparse';
+import { condenseResume, RESUME_SUMMARY_VERSION, toCondensedResume } from '../lib/resumesummary';
+import { DEFAULT_ENSEMBLE_SETTINGS, DEFAULT_RETRY_POLICY, DEFAULT_TRIAGE_SETTINGS } from '../lib/types';
+import type {
+  JobData,
+  EvaluationResult,
+  ApiProvider,
+  PromptTemplateVersion,
+  ResumeRecord,
+  SettingsRecord,
+  TriageOutcome,
+} from '../lib/types';
 
 // Open side panel when user clicks the extension icon (no popup = stays open when clicking elsewhere)
 chrome.action.onClicked.addListener((tab) => {
@@ -17,84 +56,610 @@ chrome.action.onClicked.addListener((tab) => {
 });
 
 const MAX_CONCURRENT_EVALS = 10;
-interface EvalTask {
-  job: JobData;
-  resumeIds: string[] | undefined;
-  cacheKey: string;
-  senderTabId: number | undefined;
-  tabUrl: string | undefined;
-}
+/** Minimum gap between EVALUATION_PROGRESS messages for one task while the response streams. */
+const PROGRESS_THROTTLE_MS = 250;
+/** Minimum gap between EVALUATION_WAITING messages for a task held back by its provider's budget. */
+const WAITING_NOTIFY_INTERVAL_MS = 15_000;
+/** Local providers whose models have small context windows; they get condensed resumes. */
+const CONDENSED_RESUME_PROVIDERS = new Set<ApiProvider>(['ollama']);
+/**
+ * Wakes the worker while work is queued or running: timers die with the worker, the alarm does not.
+ * Chrome does not fire alarms sooner than 30s.
+ */
+const QUEUE_ALARM = 'eval-queue';
+const QUEUE_ALARM_MIN_DELAY_MS = 30_000;
+type EvalTask = EvalQueueRecord;
 let inFlightCount = 0;
 const pendingQueue: EvalTask[] = [];
+const rateLimiter = new ProviderRateLimiter();
+let pumpTimer: ReturnType<typeof setTimeout> | null = null;
+/** Abort handles for running tasks, by cache key, so the panel can cancel them. */
+const inFlightControllers = new Map<string, AbortController>();
+/** Last time the panel was told a task (by cache key) is waiting for budget. */
+const waitNotifiedAt = new Map<string, number>();
+let persistChain: Promise<void> = Promise.resolve();
+
+/**
+ * Record a task's state in IndexedDB. Writes are chained so they land in call order, and a write is
+ * dropped when a newer request for the same job has replaced the task in the store.
+ */
+function persistTask(task: EvalTask, status: EvalTaskStatus, error?: string): Promise<void> {
+  task.status = status;
+  task.updatedAt = Date.now();
+  task.error = error;
+  const record = { ...task };
+  persistChain = persistChain
+    .then(async () => {
+      const stored = await getEvalQueueTask(record.cacheKey);
+      if (stored && stored.enqueuedAt > record.enqueuedAt) return;
+      await putEvalQueueTask(record);
+    })
+    .catch((e) => console.warn('[job-eval] Could not persist queue task', (e as Error).message));
+  return persistChain;
+}
+
+/**
+ * Reload tasks a previous worker instance left behind. 'running' ones were cut off mid-request when the
+ * worker was stopped, so they go back in the queue (same attempt count) and run again.
+ */
+async function restoreQueue(): Promise<void> {
+  const records = await getEvalQueueTasks();
+  for (const task of records) {
+    if (task.status !== 'queued' && task.status !== 'running') continue;
+    if (pendingQueue.some((t) => t.cacheKey === task.cacheKey)) continue;
+    if (task.status === 'running') persistTask(task, 'queued');
+    pendingQueue.push(task);
+  }
+  pendingQueue.sort(compareQueueOrder);
+}
+
+/** Prioritized tasks first (most recently prioritized leading), then FIFO. */
+function compareQueueOrder(a: EvalTask, b: EvalTask): number {
+  return (b.prioritizedAt ?? 0) - (a.prioritizedAt ?? 0) || a.enqueuedAt - b.enqueuedAt;
+}
+
+const queueReady: Promise<void> = restoreQueue()
+  .catch((e) => console.warn('[job-eval] Could not restore evaluation queue', (e as Error).message))
+  .then(() => pumpQueue());
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name !== QUEUE_ALARM) return;
+  // Worker startup already restores and pumps; this covers an alarm firing while the worker is alive
+  queueReady.then(() => pumpQueue());
+});
+
+/**
+ * Start queued tasks in FIFO order, up to the concurrency cap, skipping tasks that wait for a retry or
+ * whose provider is out of request/token budget (later tasks for that provider wait too, to keep order).
+ * Re-arms a timer for the earliest moment something could start.
+ */
+function pumpQueue(): void {
+  const now = Date.now();
+  let nextWakeMs = Infinity;
+  const blockedWaitMs = new Map<ApiProvider, number>();
+  let i = 0;
+  while (i < pendingQueue.length && inFlightCount < MAX_CONCURRENT_EVALS) {
+    const task = pendingQueue[i];
+    if (task.notBefore > now) {
+      nextWakeMs = Math.min(nextWakeMs, task.notBefore - now);
+      i++;
+      continue;
+    }
+    const waitMs =
+      blockedWaitMs.get(task.provider) ??
+      rateLimiter.reserve(task.provider, task.estimatedTokens, task.rateLimit, now);
+    if (waitMs > 0) {
+      blockedWaitMs.set(task.provider, waitMs);
+      nextWakeMs = Math.min(nextWakeMs, waitMs);
+      notifyWaiting(task, now + waitMs, now);
+      i++;
+      continue;
+    }
+    pendingQueue.splice(i, 1);
+    waitNotifiedAt.delete(task.cacheKey);
+    runEvalTask(task);
+  }
+  if (pumpTimer) clearTimeout(pumpTimer);
+  pumpTimer = Number.isFinite(nextWakeMs)
+    ? setTimeout(() => {
+        pumpTimer = null;
+        pumpQueue();
+      }, nextWakeMs)
+    : null;
+  if (pendingQueue.length > 0 || inFlightCount > 0) {
+    const delayMs = Number.isFinite(nextWakeMs) ? Math.max(nextWakeMs, QUEUE_ALARM_MIN_DELAY_MS) : QUEUE_ALARM_MIN_DELAY_MS;
+    chrome.alarms.create(QUEUE_ALARM, { when: now + delayMs }).catch(() => {});
+  } else {
+    chrome.alarms.clear(QUEUE_ALARM).catch(() => {});
+  }
+}
+
+/** Tell the panel a task is held back by its provider's rate budget (throttled per task). */
+function notifyWaiting(task: EvalTask, earliestStartAt: number, now: number): void {
+  const notifiedAt = waitNotifiedAt.get(task.cacheKey);
+  if (notifiedAt != null && now - notifiedAt < WAITING_NOTIFY_INTERVAL_MS) return;
+  waitNotifiedAt.set(task.cacheKey, now);
+  chrome.runtime.sendMessage({
+    type: 'EVALUATION_WAITING',
+    cacheKey: task.cacheKey,
+    jobId: task.job.id,
+    provider: task.provider,
+    earliestStartAt,
+  }).catch(() => {});
+}
+
+function estimatePromptTokens(
+  job: JobData,
+  settings: SettingsRecord,
+  resumes: ResumeRecord[],
+  prompt: PromptTemplateVersion
+): number {
+  const { system, user } = prompt.template;
+  const userPrompt = buildUserPrompt(
+    job,
+    settings.profileIntent,
+    settings.skillsTechStack,
+    settings.negativeFilters,
+    resumes,
+    user,
+    activeCriteria(settings.rubric),
+    settings.compensation,
+    settings.locationProfile
+  );
+  return estimateTokens(system) + estimateTokens(userPrompt);
+}
+
+function estimateTriageTokens(job: JobData, settings: SettingsRecord): number {
+  const userPrompt = buildTriagePrompt(
+    job,
+    settings.profileIntent,
+    settings.skillsTechStack,
+    settings.negativeFilters,
+    settings.compensation,
+    settings.locationProfile
+  );
+  return estimateTokens(TRIAGE_PROMPT_TEMPLATE.system) + estimateTokens(userPrompt);
+}
+
+function notifyCancelled(task: EvalTask): void {
+  chrome.runtime.sendMessage({
+    type: 'EVALUATION_COMPLETE',
+    cacheKey: task.cacheKey,
+    jobId: task.job.id,
+    senderTabId: task.senderTabId,
+    error: 'Evaluation cancelled.',
+    cancelled: true,
+  }).catch(() => {});
+}
+
+/**
+ * Drop a queued task, or abort a running one (its run reports the cancellation when the fetch unwinds).
+ * Returns false when nothing with this cache key is queued or running.
+ */
+function cancelTask(cacheKey: string): boolean {
+  const queuedIdx = pendingQueue.findIndex((t) => t.cacheKey === cacheKey);
+  if (queuedIdx !== -1) {
+    const [task] = pendingQueue.splice(queuedIdx, 1);
+    waitNotifiedAt.delete(cacheKey);
+    persistTask(task, 'cancelled');
+    notifyCancelled(task);
+    return true;
+  }
+  const controller = inFlightControllers.get(cacheKey);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+}
+
+/** Move a queued task to the front; it still honors its retry time and the provider's budget. */
+function prioritizeTask(cacheKey: string): boolean {
+  const task = pendingQueue.find((t) => t.cacheKey === cacheKey);
+  if (!task) return false;
+  task.prioritizedAt = Date.now();
+  pendingQueue.sort(compareQueueOrder);
+  persistTask(task, task.status);
+  return true;
+}
+
+/** Put a throttled task back in the queue and tell the panel when it will run again. */
+function scheduleRetry(task: EvalTask, delayMs: number, maxAttempts: number, reason: string): void {
+  const retryAt = Date.now() + delayMs;
+  // The caller's finally block pumps the queue, which arms a timer for `retryAt`
+  const next: EvalTask = { ...task, attempt: task.attempt + 1, notBefore: retryAt };
+  pendingQueue.push(next);
+  pendingQueue.sort(compareQueueOrder);
+  persistTask(next, 'queued', reason);
+  chrome.runtime.sendMessage({
+    type: 'EVALUATION_RETRY_SCHEDULED',
+    cacheKey: task.cacheKey,
+    jobId: task.job.id,
+    attempt: task.attempt + 2,
+    maxAttempts,
+    retryAt,
+    reason,
+  }).catch(() => {});
+}
 
 function isJobListPage(url: string | undefined): boolean {
   if (!url) return false;
   return /^https:\/\/www\.linkedin\.com\/jobs\/search\//.test(url) || /^https:\/\/www\.linkedin\.com\/jobs\/collections\//.test(url);
 }
 
-function runEvalTask(task: EvalTask): void {
-  inFlightCount++;
-  (async () => {
-    let result: EvaluationResult | null = null;
-    let error: string | undefined;
-    let raw: string | undefined;
+/** Failures that move on to the next provider in the fallback chain; anything else fails the task. */
+const FALLBACK_ERROR_KINDS = new Set<ProviderErrorKind>(['rate_limit', 'timeout', 'auth']);
+
+function getEffectiveModel(settings: SettingsRecord, provider: ApiProvider): string {
+  if (provider === 'ollama') {
+    return (
+      (settings.ollamaModel || settings.providerModels?.ollama || PROVIDER_MODELS.ollama).trim() ||
+      PROVIDER_MODELS.ollama
+    );
+  }
+  return settings.providerModels?.[provider]?.trim() || PROVIDER_MODELS[provider];
+}
+
+/** Provider and model for the triage pass; blank settings fall back to the main provider and its model. */
+function getTriageModel(settings: SettingsRecord): { provider: ApiProvider; model: string } {
+  const triage = settings.triage ?? DEFAULT_TRIAGE_SETTINGS;
+  const provider = triage.provider ?? settings.apiProvider;
+  return { provider, model: triage.model.trim() || getEffectiveModel(settings, provider) };
+}
+
+/** A fallback provider is only worth trying when it has the credentials/endpoint it needs. */
+function isProviderConfigured(settings: SettingsRecord, provider: ApiProvider): boolean {
+  if (getProviderAdapter(provider).requiresApiKey && !settings.apiKeys?.[provider]?.trim()) return false;
+  if (provider === 'custom' && !settings.customEndpoint?.baseUrl.trim()) return false;
+  return true;
+}
+
+/** Primary provider first (always, so its own errors surface), then configured fallbacks. */
+function getProviderChain(settings: SettingsRecord): ApiProvider[] {
+  const fallbacks = (settings.fallbackProviders ?? []).filter(
+    (p) => p !== settings.apiProvider && isProviderConfigured(settings, p)
+  );
+  return [settings.apiProvider, ...new Set(fallbacks)];
+}
+
+/** Selected resumes; small-context local models get each one's condensed summary instead of the full text. */
+function selectResumes(all: ResumeRecord[], resumeIds: string[] | undefined, provider: ApiProvider): ResumeRecord[] {
+  if (!resumeIds || resumeIds.length === 0) return [];
+  const idSet = new Set(resumeIds);
+  const selected = all.filter((r) => idSet.has(r.id));
+  return CONDENSED_RESUME_PROVIDERS.has(provider) ? selected.map(toCondensedResume) : selected;
+}
+
+/** All resumes, storing a summary for any added before summaries existed or built by an older condenser. */
+async function loadResumes(): Promise<ResumeRecord[]> {
+  const all = await getAllResumes();
+  return Promise.all(
+    all.map(async (r) => {
+      if (r.summary?.version === RESUME_SUMMARY_VERSION) return r;
+      const summary = condenseResume(r.text, undefined, getStructuredResume(r));
+      await saveResumeSummary(r.id, summary).catch(() => {});
+      return { ...r, summary };
+    })
+  );
+}
+
+/** Refuse a paid model call once this month's estimated spend reaches the user's budget; checked before every call. */
+async function assertWithinBudget(settings: SettingsRecord, provider: ApiProvider, model: string): Promise<void> {
+  const budget = settings.monthlyBudgetUsd;
+  if (budget == null || isFreeModel(provider, model)) return;
+  const entries = await getUsageLog(getMonthStart());
+  const spent = entries.reduce((sum, e) => sum + (e.costUsd ?? 0), 0);
+  if (spent >= budget) {
+    throw new Error(
+      `Monthly budget of ${formatUsd(budget)} reached (${formatUsd(spent)} spent). Raise or clear it in Settings to continue.`
+    );
+  }
+}
+
+/** Show the score on the job card when the evaluation was started from a job list page. */
+async function sendScoreToTab(task: EvalTask, score: number): Promise<void> {
+  if (task.senderTabId == null || !isJobListPage(task.tabUrl)) return;
+  try {
+    await chrome.tabs.sendMessage(task.senderTabId, { type: 'SET_JOB_SCORES', scores: { [task.job.id]: score } });
+  } catch {
+    /* tab closed or context invalid */
+  }
+}
+
+/** Log the tokens and cost of each model call behind a result (one per sample in self-consistency mode). */
+async function recordUsage(cacheKey: string, result: EvaluationResult): Promise<void> {
+  const calls = result.ensemble?.samples ?? [{ provider: result.provider, model: result.model ?? '', usage: result.usage }];
+  for (const { provider, model, usage } of calls) {
+    if (!usage || !provider) continue;
+    await addUsageLogEntry({
+      at: Date.now(),
+      cacheKey,
+      provider,
+      model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      costUsd: usage.costUsd,
+      estimated: usage.estimated,
+    }).catch((e) => console.warn('[job-eval] Could not record usage', (e as Error).message));
+  }
+}
+
+/**
+ * Queue the full evaluation of a job that passed triage, on the main provider with the selected resumes.
+ * It replaces the triage task (same cache key, newer enqueue time) and carries the triage outcome along.
+ */
+async function enqueueDeepEvaluation(
+  task: EvalTask,
+  settings: SettingsRecord,
+  allResumes: ResumeRecord[],
+  prompt: PromptTemplateVersion,
+  triage: TriageOutcome
+): Promise<void> {
+  const provider = settings.apiProvider;
+  const now = Date.now();
+  const next: EvalTask = {
+    ...task,
+    stage: 'deep',
+    triage,
+    attempt: 0,
+    notBefore: 0,
+    enqueuedAt: now,
+    provider,
+    rateLimit: resolveRateLimit(provider, settings.rateLimits),
+    estimatedTokens: estimatePromptTokens(task.job, settings, selectResumes(allResumes, task.resumeIds, provider), prompt),
+  };
+  pendingQueue.push(next);
+  pendingQueue.sort(compareQueueOrder);
+  await persistTask(next, 'queued');
+  chrome.runtime.sendMessage({
+    type: 'EVALUATION_TRIAGED',
+    cacheKey: task.cacheKey,
+    jobId: task.job.id,
+    triage,
+  }).catch(() => {});
+}
+
+/** Record a pre-filter rejection as a finished task; it never enters the queue or touches a rate budget. */
+async function completePrefiltered(task: EvalTask, result: EvaluationResult): Promise<void> {
+  await saveJobEvaluation(task.cacheKey, result);
+  await persistTask(task, 'done');
+  await sendScoreToTab(task, result.score);
+  chrome.runtime.sendMessage({
+    type: 'EVALUATION_COMPLETE',
+    cacheKey: task.cacheKey,
+    jobId: task.job.id,
+    senderTabId: task.senderTabId,
+    result,
+  }).catch(() => {});
+}
+
+/** Walk the primary provider, then the configured fallbacks, until one produces a result. */
+async function evaluateWithFallbacks(
+  task: EvalTask,
+  settings: SettingsRecord,
+  allResumes: ResumeRecord[],
+  prompt: PromptTemplateVersion,
+  options: EvaluateOptions
+): Promise<EvaluationResult> {
+  const chain = getProviderChain(settings);
+  for (let i = 0; ; i++) {
+    const provider = chain[i];
+    const isLast = i === chain.length - 1;
+    const resumes = selectResumes(allResumes, task.resumeIds, provider);
+    const model = getEffectiveModel(settings, provider);
     try {
-      const settings = await getSettings();
-      let resumes = await getAllResumes();
-      if (settings.apiProvider === 'ollama') {
-        resumes = [];
-      } else if (task.resumeIds && task.resumeIds.length > 0) {
-        const idSet = new Set(task.resumeIds);
-        resumes = resumes.filter((r) => idSet.has(r.id));
-      } else {
-        resumes = [];
+      await assertWithinBudget(settings, provider, model);
+    } catch (e) {
+      if (isLast) throw e;
+      console.warn(`[job-eval] ${provider}: ${(e as Error).message} Falling back to ${chain[i + 1]}.`);
+      continue;
+    }
+    // The queue charged the primary's budget; a fallback is only used if it has budget right now
+    if (i > 0) {
+      const tokens = estimatePromptTokens(task.job, settings, resumes, prompt);
+      const waitMs = rateLimiter.reserve(provider, tokens, resolveRateLimit(provider, settings.rateLimits));
+      if (waitMs > 0 && !isLast) {
+        console.warn(`[job-eval] ${provider} is out of rate budget for ${Math.ceil(waitMs / 1000)}s, skipping`);
+        continue;
+      }
+      if (waitMs > 0) {
+        throw new ProviderError(`Rate limited. ${provider} budget is exhausted.`, provider, 'rate_limit', {
+          retryAfterMs: waitMs,
+        });
       }
-      const provider = settings.apiProvider as ApiProvider;
-      const effectiveModel =
-        provider === 'ollama'
-          ? (settings.ollamaModel || settings.providerModels?.ollama || PROVIDER_MODELS.ollama).trim() ||
-            PROVIDER_MODELS.ollama
-          : (settings.providerModels?.[provider]?.trim() || PROVIDER_MODELS[provider]);
-      result = await evaluateJob(
+    }
+    try {
+      return await evaluateJob(
         task.job,
         resumes,
         settings.profileIntent,
         settings.skillsTechStack,
         settings.negativeFilters,
         provider,
-        settings.apiKeys?.[settings.apiProvider] ?? '',
-        effectiveModel
+        settings.apiKeys?.[provider] ?? '',
+        model,
+        options
       );
-      await saveJobEvaluation(task.cacheKey, result);
-      if (task.senderTabId != null && isJobListPage(task.tabUrl)) {
-        try {
-          await chrome.tabs.sendMessage(task.senderTabId, {
-            type: 'SET_JOB_SCORES',
-            scores: { [task.job.id]: result!.score },
+    } catch (e) {
+      if (isLast || !(e instanceof ProviderError) || !FALLBACK_ERROR_KINDS.has(e.kind)) throw e;
+      if (options.signal?.aborted) throw e;
+      console.warn(`[job-eval] ${provider} failed (${e.kind}), falling back to ${chain[i + 1]}: ${e.message}`);
+    }
+  }
+}
+
+/**
+ * Self-consistency mode: start samples 2..N next to the main one. They rotate through the configured
+ * members (or repeat the main provider and model), without fallbacks or streaming. Like a fallback, a
+ * sample only runs if its provider has rate budget right now and, for a paid model, the monthly budget is not
+ * spent; the ones that cannot run fail and are left out of the aggregate.
+ */
+function startExtraSamples(
+  task: EvalTask,
+  settings: SettingsRecord,
+  allResumes: ResumeRecord[],
+  prompt: PromptTemplateVersion,
+  options: EvaluateOptions
+): Promise<EvaluationResult>[] {
+  const { samples, members } = settings.ensemble ?? DEFAULT_ENSEMBLE_SETTINGS;
+  const runs: Promise<EvaluationResult>[] = [];
+  for (let i = 1; i < samples; i++) {
+    const member = members.length > 0 ? members[(i - 1) % members.length] : { provider: settings.apiProvider, model: '' };
+    const { provider } = member;
+    if (!isProviderConfigured(settings, provider)) continue;
+    const model = member.model.trim() || getEffectiveModel(settings, provider);
+    const resumes = selectResumes(allResumes, task.resumeIds, provider);
+    runs.push(
+      assertWithinBudget(settings, provider, model).then(() => {
+        const tokens = estimatePromptTokens(task.job, settings, resumes, prompt);
+        const waitMs = rateLimiter.reserve(provider, tokens, resolveRateLimit(provider, settings.rateLimits));
+        if (waitMs > 0) {
+          throw new ProviderError(`Rate limited. ${provider} budget is exhausted.`, provider, 'rate_limit', {
+            retryAfterMs: waitMs,
           });
-        } catch {
-          /* tab closed or context invalid */
         }
+        return evaluateJob(
+          task.job,
+          resumes,
+          settings.profileIntent,
+          settings.skillsTechStack,
+          settings.negativeFilters,
+          provider,
+          settings.apiKeys?.[provider] ?? '',
+          model,
+          options
+        );
+      }).catch((e: Error) => {
+        console.warn(`[job-eval] Sample ${i + 1} on ${provider} did not run to completion: ${e.message}`);
+        throw e;
+      })
+    );
+  }
+  return runs;
+}
+
+function runEvalTask(task: EvalTask): void {
+  inFlightCount++;
+  const controller = new AbortController();
+  inFlightControllers.set(task.cacheKey, controller);
+  persistTask(task, 'running');
+  chrome.runtime.sendMessage({ type: 'EVALUATION_STARTED', cacheKey: task.cacheKey, jobId: task.job.id }).catch(() => {});
+  (async () => {
+    let result: EvaluationResult | null = null;
+    let error: string | undefined;
+    let raw: string | undefined;
+    let retryPolicy = DEFAULT_RETRY_POLICY;
+    let retryScheduled = false;
+    let cancelled = false;
+    /** A triage task that passed and handed the job on to a queued full evaluation. */
+    let advanced = false;
+    try {
+      const settings = await getSettings();
+      retryPolicy = settings.retryPolicy ?? DEFAULT_RETRY_POLICY;
+      const allResumes = await loadResumes();
+      const prompt = await getActivePromptTemplate();
+      let lastProgressAt = 0;
+      const onPartialText = (text: string) => {
+        const now = Date.now();
+        if (now - lastProgressAt < PROGRESS_THROTTLE_MS) return;
+        lastProgressAt = now;
+        chrome.runtime.sendMessage({
+          type: 'EVALUATION_PROGRESS',
+          cacheKey: task.cacheKey,
+          jobId: task.job.id,
+          partial: extractPartialResult(text),
+        }).catch(() => {});
+      };
+      if (task.stage === 'triage') {
+        // One small-model call, no fallbacks: a failed triage is retried like any other task
+        const { provider, model } = getTriageModel(settings);
+        await assertWithinBudget(settings, provider, model);
+        result = await triageJob(
+          task.job,
+          settings.profileIntent,
+          settings.skillsTechStack,
+          settings.negativeFilters,
+          provider,
+          settings.apiKeys?.[provider] ?? '',
+          model,
+          (settings.triage ?? DEFAULT_TRIAGE_SETTINGS).threshold,
+          {
+            customEndpoint: settings.customEndpoint,
+            signal: controller.signal,
+            compensation: settings.compensation,
+            fxRates: settings.fxRates,
+            locationProfile: settings.locationProfile,
+          }
+        );
+      } else {
+        const feedback = await getAllFeedback().catch(() => []);
+        const options: EvaluateOptions = {
+          customEndpoint: settings.customEndpoint,
+          signal: controller.signal,
+          prompt,
+          rubric: settings.rubric,
+          compensation: settings.compensation,
+          fxRates: settings.fxRates,
+          locationProfile: settings.locationProfile,
+          feedbackExamples: selectFeedbackExamples(feedback, task.cacheKey),
+          contextWindows: settings.contextWindows,
+        };
+        const extraSamples = settings.ensemble?.enabled ? startExtraSamples(task, settings, allResumes, prompt, options) : [];
+        const main = evaluateWithFallbacks(task, settings, allResumes, prompt, { ...options, onPartialText });
+        if (extraSamples.length === 0) {
+          result = await main;
+        } else {
+          const settled = await Promise.allSettled([main, ...extraSamples]);
+          const samples = settled.flatMap((s) => (s.status === 'fulfilled' ? [s.value] : []));
+          // Failed samples are left out; the task only fails (or retries) when none succeeded
+          if (samples.length === 0) throw (settled[0] as PromiseRejectedResult).reason;
+          result = aggregateEvaluations(samples);
+        }
+        result = applyCalibration(result, settings.calibration);
+      }
+      if (!result) throw new Error('Evaluation failed.');
+      if (task.triage) result = { ...result, triage: task.triage };
+      await recordUsage(task.cacheKey, result);
+      if (task.stage === 'triage' && result.triage?.passed) {
+        await enqueueDeepEvaluation(task, settings, allResumes, prompt, result.triage);
+        advanced = true;
+      } else {
+        await saveJobEvaluation(task.cacheKey, result);
+        await sendScoreToTab(task, result.score);
       }
     } catch (e) {
       const err = e as Error;
-      error = err.message || 'Evaluation failed.';
-      raw = err.message;
+      const attemptsMade = task.attempt + 1;
+      cancelled = controller.signal.aborted;
+      const delayMs =
+        !cancelled && err instanceof ProviderError && err.isRetryable && attemptsMade < retryPolicy.maxAttempts
+          ? computeRetryDelayMs(attemptsMade, retryPolicy, err.retryAfterMs)
+          : null;
+      if (cancelled) {
+        persistTask(task, 'cancelled');
+        notifyCancelled(task);
+      } else if (delayMs != null) {
+        retryScheduled = true;
+        scheduleRetry(task, delayMs, retryPolicy.maxAttempts, err.message);
+      } else {
+        error = err.message || 'Evaluation failed.';
+        raw = err.message;
+      }
     } finally {
-      chrome.runtime.sendMessage({
-        type: 'EVALUATION_COMPLETE',
-        cacheKey: task.cacheKey,
-        jobId: task.job.id,
-        senderTabId: task.senderTabId,
-        result: result ?? undefined,
-        error,
-        raw,
-      }).catch(() => {});
-      inFlightCount--;
-      if (pendingQueue.length > 0 && inFlightCount < MAX_CONCURRENT_EVALS) {
-        const next = pendingQueue.shift()!;
-        runEvalTask(next);
+      if (inFlightControllers.get(task.cacheKey) === controller) inFlightControllers.delete(task.cacheKey);
+      // An advanced triage task is superseded by its queued full evaluation; the panel hears when that finishes
+      if (!retryScheduled && !cancelled && !advanced) {
+        persistTask(task, error ? 'failed' : 'done', error);
+        chrome.runtime.sendMessage({
+          type: 'EVALUATION_COMPLETE',
+          cacheKey: task.cacheKey,
+          jobId: task.job.id,
+          senderTabId: task.senderTabId,
+          result: result ?? undefined,
+          error,
+          raw,
+        }).catch(() => {});
       }
+      inFlightCount--;
+      pumpQueue();
     }
   })();
 }
@@ -111,6 +676,8 @@ chrome.runtime.onMessage.addListener(
       url?: string;
       jobIds?: string[];
       company?: string;
+      /** Bulk list run: triage first when two-stage mode is on. */
+      twoStage?: boolean;
     },
     sender: chrome.runtime.MessageSender,
     sendResponse: (
@@ -119,6 +686,37 @@ chrome.runtime.onMessage.addListener(
         | EvaluationResult
     ) => void
   ) => {
+    if (msg.type === 'RESUME_EVALUATION_QUEUE') {
+      // Sent by the panel; receiving it starts a stopped worker, which restores the persisted queue
+      queueReady.then(() => {
+        pumpQueue();
+        sendResponse({ ok: true });
+      });
+      return true;
+    }
+    if (msg.type === 'CANCEL_EVALUATION' && msg.cacheKey) {
+      const cacheKey = msg.cacheKey;
+      queueReady.then(() => sendResponse({ ok: cancelTask(cacheKey) }));
+      return true;
+    }
+    if (msg.type === 'CANCEL_ALL') {
+      queueReady.then(() => {
+        const cacheKeys = [...pendingQueue.map((t) => t.cacheKey), ...inFlightControllers.keys()];
+        for (const cacheKey of cacheKeys) cancelTask(cacheKey);
+        pumpQueue();
+        sendResponse({ ok: true });
+      });
+      return true;
+    }
+    if (msg.type === 'PRIORITIZE_EVALUATION' && msg.cacheKey) {
+      const cacheKey = msg.cacheKey;
+      queueReady.then(() => {
+        const ok = prioritizeTask(cacheKey);
+        pumpQueue();
+        sendResponse({ ok });
+      });
+      return true;
+    }
     if (msg.type === 'JOB_PAGE_CHANGED' && sender.tab?.id != null && msg.url) {
       sendResponse({});
       return false;
@@ -152,19 +750,53 @@ chrome.runtime.onMessage.addListener(
       sendResponse({ error: 'Missing job data.' });
       return false;
     }
-    const cacheKey = msg.cacheKey ?? msg.job.id;
-    const task: EvalTask = {
-      job: msg.job,
-      resumeIds: msg.resumeIds,
-      cacheKey,
-      senderTabId: msg.senderTabId,
-      tabUrl: msg.tabUrl,
-    };
-    if (inFlightCount < MAX_CONCURRENT_EVALS) {
-      runEvalTask(task);
-    } else {
+    const job = msg.job;
+    const cacheKey = msg.cacheKey ?? job.id;
+    (async () => {
+      await queueReady;
+      const settings = await getSettings();
+      const stage = msg.twoStage && settings.triage?.enabled ? 'triage' : undefined;
+      const provider = stage ? getTriageModel(settings).provider : settings.apiProvider;
+      const resumes = selectResumes(await loadResumes(), msg.resumeIds, provider);
+      const prompt = await getActivePromptTemplate();
+      const task: EvalTask = {
+        job,
+        resumeIds: msg.resumeIds,
+        cacheKey,
+        senderTabId: msg.senderTabId,
+        tabUrl: msg.tabUrl,
+        status: 'queued',
+        attempt: 0,
+        notBefore: 0,
+        enqueuedAt: Date.now(),
+        updatedAt: Date.now(),
+        provider,
+        rateLimit: resolveRateLimit(provider, settings.rateLimits),
+        estimatedTokens: stage ? estimateTriageTokens(job, settings) : estimatePromptTokens(job, settings, resumes, prompt),
+        ...(stage ? { stage } : {}),
+      };
+      // A new request for the same job replaces any retry still waiting in the queue
+      const waitingIdx = pendingQueue.findIndex((t) => t.cacheKey === cacheKey);
+      if (waitingIdx !== -1) pendingQueue.splice(waitingIdx, 1);
+      const rejection = applyPrefilter(job, settings.prefilterRules);
+      if (rejection) {
+        const result = buildPrefilterResult(job, rejection);
+        const checked = applyCompensationCheck(result, settings.compensation, settings.fxRates);
+        await completePrefiltered(task, applyLocationCheck(checked, job, settings.locationProfile));
+        return;
+      }
       pendingQueue.push(task);
-    }
+      await persistTask(task, 'queued');
+      pumpQueue();
+    })().catch((e) => {
+      chrome.runtime.sendMessage({
+        type: 'EVALUATION_COMPLETE',
+        cacheKey,
+        jobId: job.id,
+        senderTabId: msg.senderTabId,
+        error: (e as Error).message || 'Could not queue evaluation.',
+      }).catch(() => {});
+    });
     sendResponse({ pending: true });
     return false;
   }
@@ -3,7 +3,8 @@
  * LinkedIn's DOM changes over time; if extraction fails, selectors may need updating.
  */
 
-import type { JobData } from '../lib/types';
+import type { JobData, JobFacts } from '../lib/types';
+import { factsFromInsightTexts, factsFromJsonLd, factsFromPage } from '../lib/jobfacts';
 
 // Block and log any request to chrome-extension://invalid (debug: find source of ERR_FAILED)
 (function () {
@@ -95,7 +96,7 @@ function getMetaContent(name: string): string {
   return el?.getAttribute('content')?.trim() ?? '';
 }
 
-function parseJsonLdJob(): Partial<JobData> | null {
+function parseJsonLdJob(): (Partial<JobData> & { facts: JobFacts }) | null {
   const scripts = Array.from(document.querySelectorAll('script[type="application/ld+json"]'));
   for (const script of scripts) {
     try {
@@ -122,6 +123,7 @@ function parseJsonLdJob(): Partial<JobData> | null {
             description: posting.description?.replace(/\s+/g, ' ').trim() ?? '',
             location: locationParts.join(', '),
             id: posting.identifier?.value ?? '',
+            facts: factsFromJsonLd(node as Record<string, unknown>),
           };
         }
       }
@@ -132,6 +134,26 @@ function parseJsonLdJob(): Partial<JobData> | null {
   return null;
 }
 
+/** Text of the top card's insight chips (salary, workplace type, employment type, experience level). */
+function getInsightTexts(): string[] {
+  const selectors = [
+    '.job-details-jobs-unified-top-card__job-insight',     // /jobs/view (2024+ layout)
+    '.job-details-preferences-and-skills__pill',           // "Remote", "Full-time" pills (2025 layout)
+    '.job-details-fit-level-preferences button',           // preference buttons under the title
+    '.jobs-unified-top-card__job-insight',                 // legacy /jobs/view
+    '.jobs-details-top-card__job-insight',                 // collections/search top card
+  ];
+  const texts: string[] = [];
+  for (const sel of selectors) {
+    document.querySelectorAll(sel).forEach((el) => {
+      // Chips hold visually hidden duplicates ("Matches your job preferences…"); innerText skips them
+      const text = ((el as HTMLElement).innerText ?? el.textContent ?? '').trim();
+      if (text && text.length < 200) texts.push(text);
+    });
+  }
+  return texts;
+}
+
 /**
  * Heuristic fallback: find the largest visible text block likely containing a job description.
  * This keeps extraction resilient when LinkedIn changes class names.
@@ -400,12 +422,18 @@ export function extractJobData(): JobData | null {
   (window as any).__jobEvalDebug = _dbg;
   // #endregion
   if (!title && !description) return null;
+  const facts = factsFromPage(
+    { title: title || '', description: description || '', location: location || '' },
+    jsonLd?.facts ?? {},
+    factsFromInsightTexts(getInsightTexts())
+  );
   return {
     id: jobId || `${title}-${location}`.trim() || 'unknown',
     title: title || 'Unknown title',
     description: description || '',
     location: location || '',
     ...(company ? { company: company.trim() } : {}),
+    ...(Object.keys(facts).length > 0 ? { facts } : {}),
   };
 }
 
@@ -696,6 +724,35 @@ function selectJobById(jobId: string): boolean {
   return true;
 }
 
+/** LinkedIn's public posting endpoint: one job's top card and description as an HTML fragment. */
+const JOB_POSTING_URL = 'https://www.linkedin.com/jobs-guest/jobs/api/jobPosting/';
+
+/**
+ * Job data for a left-pane card without opening it (used when triaging a whole list). Null when the
+ * posting could not be fetched or has neither title nor description.
+ */
+async function fetchJobDetails(jobId: string): Promise<JobData | null> {
+  const res = await fetch(JOB_POSTING_URL + encodeURIComponent(jobId), { credentials: 'include' });
+  if (!res.ok) return null;
+  const doc = new DOMParser().parseFromString(await res.text(), 'text/html');
+  const title = getText(doc.querySelector('.top-card-layout__title, .topcard__title'));
+  const company = getText(doc.querySelector('.topcard__org-name-link, .topcard__flavor'));
+  const location = getText(doc.querySelector('.topcard__flavor--bullet'));
+  const description = getDescriptionText(doc.querySelector('.show-more-less-html__markup, .description__text'));
+  if (!title && !description) return null;
+  // "Seniority level: Mid-Senior level", "Employment type: Full-time", …; the values read like insight chips
+  const criteria = Array.from(doc.querySelectorAll('.description__job-criteria-text')).map(getText);
+  const facts = factsFromPage({ title, description, location }, factsFromInsightTexts(criteria));
+  return {
+    id: jobId,
+    title: title || 'Unknown title',
+    description,
+    location,
+    ...(company ? { company } : {}),
+    ...(Object.keys(facts).length > 0 ? { facts } : {}),
+  };
+}
+
 const JOB_EVAL_CARD_CLASS = 'job-eval-card-anchor';
 const JOB_EVAL_EVALUATING_CLASS = 'job-eval-evaluating';
 const JOB_EVAL_RATE_LIMITED_CLASS = 'job-eval-rate-limited';
@@ -1171,6 +1228,12 @@ if (isExtensionContextValid()) {
         }
         return false;
       }
+      if (msg.type === 'GET_JOB_DETAILS' && msg.jobId) {
+        fetchJobDetails(msg.jobId)
+          .then((job) => sendResponse(job ? { ok: true, job } : { ok: false, error: 'Could not load the job posting.' }))
+          .catch((e) => sendResponse({ ok: false, error: (e as Error).message }));
+        return true;
+      }
       if (msg.type === 'SELECT_JOB' && msg.jobId) {
         try {
           const ok = selectJobById(msg.jobId);
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { applyCompensationCheck } from './compensation';
+import { parseSalaryText } from './jobfacts';
+import type { CompensationExpectation, EvaluationResult } from './types';
+
+const RESULT: EvaluationResult = {
+  score: 78,
+  verdict: 'worth',
+  hardRejectionReason: null,
+  matchBullets: [],
+  riskBullets: [],
+  bestResumeLabel: null,
+  explanation: '',
+};
+
+const INR_MINIMUM: CompensationExpectation = { currency: 'INR', period: 'year', minimum: 4_000_000, target: null };
+
+describe('parseSalaryText', () => {
+  it('reads Indian digit grouping', () => {
+    expect(parseSalaryText('CTC: ₹25,00,000 – ₹35,00,000')).toEqual({
+      min: 2_500_000,
+      max: 3_500_000,
+      currency: 'INR',
+      period: null,
+    });
+  });
+
+  it('reads lakh and crore amounts, with LPA as a yearly figure', () => {
+    expect(parseSalaryText('₹25-35 LPA')).toEqual({ min: 2_500_000, max: 3_500_000, currency: 'INR', period: 'year' });
+    expect(parseSalaryText('₹18 lakh per annum')).toMatchObject({ min: 1_800_000, period: 'year' });
+    expect(parseSalaryText('up to ₹1.2 crore')).toMatchObject({ max: 12_000_000, currency: 'INR' });
+  });
+
+  it('still reads western grouping and k suffixes', () => {
+    expect(parseSalaryText('$120K/yr - $150K/yr')).toEqual({ min: 120_000, max: 150_000, currency: 'USD', period: 'year' });
+    expect(parseSalaryText('€60.000 – €80.000 a year')).toMatchObject({ min: 60_000, max: 80_000, currency: 'EUR' });
+  });
+});
+
+describe('applyCompensationCheck', () => {
+  it('only warns below the minimum when the pay period was assumed', () => {
+    const salary = parseSalaryText('₹25,00,000 – ₹35,00,000');
+    const checked = applyCompensationCheck({ ...RESULT, facts: { salary } }, INR_MINIMUM, undefined);
+    expect(checked.compensation).toMatchObject({ annualMax: 3_500_000, periodAssumed: true, status: 'below_minimum' });
+    expect(checked).toMatchObject({ verdict: 'worth', score: 78, hardRejectionReason: null });
+    expect(checked.riskBullets[0]).toContain('(pay period assumed)');
+  });
+
+  it('hard-rejects below the minimum when the posting states the period', () => {
+    const salary = parseSalaryText('₹25-35 LPA');
+    const checked = applyCompensationCheck({ ...RESULT, facts: { salary } }, INR_MINIMUM, undefined);
+    expect(checked).toMatchObject({ verdict: 'not_worth', hardRejectionReason: 'Pay is below your minimum' });
+    expect(checked.score).toBeLessThan(40);
+  });
+});
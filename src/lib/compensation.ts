@@ -0,0 +1,134 @@
+/**
+ * Compensation check: a posting's salary range, annualized and converted into the user's currency with
+ * their local rate table, compared with their minimum and target pay. Below-minimum is a hard rejection when
+ * the posting states its pay period, and only a warning when the period had to be guessed.
+ */
+
+import type {
+  CompensationCheck,
+  CompensationExpectation,
+  EvaluationResult,
+  SalaryPeriod,
+  SalaryRange,
+} from './types';
+import { DEFAULT_FX_RATES } from './types';
+import { formatMoney } from './jobfacts';
+import { HARD_REJECTION_MAX_SCORE } from './rubric';
+
+/** Full-time working units per year used to annualize pay. */
+const UNITS_PER_YEAR: Record<SalaryPeriod, number> = { hour: 2080, day: 260, week: 52, month: 12, year: 1 };
+
+/** Guess the pay period of an amount posted without one ("€5,500" is monthly, "$45" hourly). */
+function inferPeriod(amount: number): SalaryPeriod {
+  if (amount < 200) return 'hour';
+  if (amount < 1500) return 'day';
+  if (amount < 20000) return 'month';
+  return 'year';
+}
+
+/** Convert between currencies through the rate table (value of one unit in USD); null when a rate is missing. */
+export function convertCurrency(
+  amount: number,
+  from: string,
+  to: string,
+  rates: Record<string, number> = DEFAULT_FX_RATES
+): number | null {
+  if (from === to) return amount;
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) return null;
+  return (amount * fromRate) / toRate;
+}
+
+/** Annual figure for an expectation, in its own currency. */
+export function annualExpectation(amount: number, expectation: CompensationExpectation): number {
+  return amount * UNITS_PER_YEAR[expectation.period];
+}
+
+/**
+ * The salary range annualized in `currency`, or null when it has no amount, no currency, or a currency
+ * missing from the rate table.
+ */
+export function normalizeSalary(
+  salary: SalaryRange,
+  currency: string,
+  rates: Record<string, number>
+): { annualMin: number; annualMax: number; periodAssumed: boolean } | null {
+  const low = salary.min ?? salary.max;
+  const high = salary.max ?? salary.min;
+  if (low == null || high == null || !salary.currency) return null;
+  const period = salary.period ?? inferPeriod(high);
+  const annualMin = convertCurrency(low * UNITS_PER_YEAR[period], salary.currency, currency, rates);
+  const annualMax = convertCurrency(high * UNITS_PER_YEAR[period], salary.currency, currency, rates);
+  if (annualMin == null || annualMax == null) return null;
+  return { annualMin: Math.round(annualMin), annualMax: Math.round(annualMax), periodAssumed: salary.period == null };
+}
+
+/** Compare a posting's salary with the user's expectations; null when the salary cannot be normalized. */
+export function checkCompensation(
+  salary: SalaryRange | null | undefined,
+  expectation: CompensationExpectation | null | undefined,
+  rates: Record<string, number> = DEFAULT_FX_RATES
+): CompensationCheck | null {
+  if (!salary) return null;
+  const currency = expectation?.currency ?? 'USD';
+  const normalized = normalizeSalary(salary, currency, rates);
+  if (!normalized) return null;
+  let status: CompensationCheck['status'] = 'no_expectation';
+  if (expectation?.minimum != null && normalized.annualMax < annualExpectation(expectation.minimum, expectation)) {
+    status = 'below_minimum';
+  } else if (expectation?.target != null) {
+    status = normalized.annualMax < annualExpectation(expectation.target, expectation) ? 'below_target' : 'meets_target';
+  } else if (expectation?.minimum != null) {
+    status = 'meets_target';
+  }
+  return { ...normalized, currency, status };
+}
+
+/** "€55k–65k / yr" for a check's annual range. */
+export function formatAnnualRange(check: CompensationCheck): string {
+  const min = formatMoney(check.annualMin, check.currency);
+  const max = formatMoney(check.annualMax, check.currency);
+  return `${min === max ? min : `${min}–${max.replace(/^[^\d]+/, '')}`} / yr`;
+}
+
+/**
+ * Attach the compensation check to a result. Below minimum forces a hard rejection (verdict not_worth,
+ * score capped) unless the pay period was assumed, since a wrong guess would reject a job on a misreading;
+ * both below-minimum and below-target put the gap first in the risk bullets.
+ */
+export function applyCompensationCheck(
+  result: EvaluationResult,
+  expectation: CompensationExpectation | null | undefined,
+  rates: Record<string, number> | undefined
+): EvaluationResult {
+  const check = checkCompensation(result.facts?.salary, expectation, rates);
+  if (!check) return result;
+  const next: EvaluationResult = { ...result, compensation: check };
+  const assumed = check.periodAssumed ? ' (pay period assumed)' : '';
+  if (check.status === 'below_minimum' && expectation?.minimum != null) {
+    const minimum = annualExpectation(expectation.minimum, expectation);
+    const gap = `Pays up to ${formatMoney(check.annualMax, check.currency)}/yr${assumed}, ${formatMoney(minimum - check.annualMax, check.currency)} below your ${formatMoney(minimum, check.currency)} minimum`;
+    if (!check.periodAssumed) {
+      next.verdict = 'not_worth';
+      next.score = Math.min(next.score, HARD_REJECTION_MAX_SCORE);
+      next.hardRejectionReason = next.hardRejectionReason ?? 'Pay is below your minimum';
+    }
+    next.riskBullets = [gap, ...next.riskBullets];
+  } else if (check.status === 'below_target' && expectation?.target != null) {
+    const target = annualExpectation(expectation.target, expectation);
+    const gap = `Pays up to ${formatMoney(check.annualMax, check.currency)}/yr${assumed}, ${formatMoney(target - check.annualMax, check.currency)} below your ${formatMoney(target, check.currency)} target`;
+    next.riskBullets = [gap, ...next.riskBullets];
+  }
+  return next;
+}
+
+/** The `{{compensation}}` prompt variable. */
+export function formatExpectationForPrompt(expectation: CompensationExpectation | null | undefined): string {
+  if (!expectation || (expectation.minimum == null && expectation.target == null)) return '';
+  const per = expectation.period === 'hour' ? 'hour' : 'year';
+  const lines: string[] = [];
+  if (expectation.minimum != null) lines.push(`Minimum: ${expectation.minimum} ${expectation.currency} per ${per}`);
+  if (expectation.target != null) lines.push(`Target: ${expectation.target} ${expectation.currency} per ${per}`);
+  return lines.join('\n');
+}
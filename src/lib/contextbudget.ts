@@ -0,0 +1,189 @@
+/**
+ * Fitting the prompt into the model's context window. Window sizes come from a per-model table the user can
+ * override. When the prompt and the reply would not fit, the description's boilerplate goes first, then
+ * resumes are condensed, then the description is cut and resumes are left out.
+ */
+
+import type { ApiProvider, JobData, PromptTrim, ResumeRecord } from './types';
+import { MAX_OUTPUT_TOKENS } from './providers';
+import { estimateTokens } from './ratelimit';
+import { toCondensedResume } from './resumesummary';
+
+/** Context window per model; the first entry whose model prefixes the configured one wins. */
+const MODEL_CONTEXT_TOKENS: Array<{ provider: ApiProvider; model: string; tokens: number }> = [
+  { provider: 'openai', model: 'gpt-4o', tokens: 128_000 },
+  { provider: 'openai', model: 'gpt-4.1', tokens: 1_047_576 },
+  { provider: 'openai', model: 'gpt-5', tokens: 400_000 },
+  { provider: 'anthropic', model: 'claude', tokens: 200_000 },
+  { provider: 'groq', model: 'openai/gpt-oss', tokens: 131_072 },
+  { provider: 'groq', model: 'llama-3.1', tokens: 131_072 },
+  { provider: 'groq', model: 'llama-3.3', tokens: 131_072 },
+  { provider: 'google', model: 'gemini', tokens: 1_048_576 },
+  { provider: 'openrouter', model: 'tngtech/deepseek-r1t2-chimera', tokens: 163_840 },
+  { provider: 'openrouter', model: 'openai/gpt-4o', tokens: 128_000 },
+  { provider: 'openrouter', model: 'anthropic/claude', tokens: 200_000 },
+  { provider: 'openrouter', model: 'google/gemini', tokens: 1_048_576 },
+];
+
+/**
+ * For models not in the table. Ollama serves a 4096-token window unless the model's `num_ctx` is raised,
+ * whatever the model itself supports.
+ */
+const PROVIDER_CONTEXT_TOKENS: Record<ApiProvider, number> = {
+  ollama: 4096,
+  groq: 131_072,
+  google: 1_048_576,
+  openai: 128_000,
+  anthropic: 200_000,
+  openrouter: 32_768,
+  custom: 8192,
+};
+
+/** Share of the window left free, since token counts are estimates. */
+const SAFETY_MARGIN = 0.1;
+/** The description is not cut shorter than this. */
+const MIN_DESCRIPTION_CHARS = 1500;
+const CUT_MARKER = ' … [cut to fit]';
+
+/** Key of a model in the `contextWindows` setting. */
+export function contextWindowKey(provider: ApiProvider, model: string): string {
+  return `${provider}:${model}`;
+}
+
+/** Context window from the built-in table, ignoring user overrides. */
+export function getDefaultContextWindow(provider: ApiProvider, model: string): number {
+  const entry = MODEL_CONTEXT_TOKENS.find((c) => c.provider === provider && model.startsWith(c.model));
+  return entry?.tokens ?? PROVIDER_CONTEXT_TOKENS[provider];
+}
+
+export function getContextWindow(provider: ApiProvider, model: string, overrides?: Record<string, number>): number {
+  const override = overrides?.[contextWindowKey(provider, model)];
+  return override && override > 0 ? override : getDefaultContextWindow(provider, model);
+}
+
+type BoilerplateKind = 'legal' | 'benefits' | 'company';
+
+/** Trimmed first to last: least useful to the evaluation first. */
+const BOILERPLATE: Array<{ kind: BoilerplateKind; label: string }> = [
+  { kind: 'legal', label: 'equal-opportunity and legal statements' },
+  { kind: 'benefits', label: 'benefits section' },
+  { kind: 'company', label: 'company description' },
+];
+
+/** Sentences of equal-opportunity, accommodation, privacy and agency boilerplate. */
+const LEGAL_SENTENCE =
+  /equal (?:employment )?opportunit|without regard to|regardless of (?:race|gender|age|sex|religion|background)|reasonable accommodation|protected (?:veteran|characteristic|class|status)|e-verify|affirmative action|(?:celebrate|value|embrace|committed to) diversity|diverse and inclusive|applicant privacy|privacy (?:notice|policy)|recruitment agenc|unsolicited (?:resumes|cvs|applications)/i;
+
+const BENEFITS_HEADING =
+  "What we offer|What's in it for you|What you(?:'ll| will) get|Our benefits|Benefits(?: (?:and|&) perks)?|Perks(?: (?:and|&) benefits)?|Why (?:join us|work (?:with|for) us)";
+const COMPANY_HEADING = 'About us|About the company|Who we are|Our (?:story|mission|culture)|Company description';
+/** Headings that end a benefits or company section. */
+const OTHER_HEADING =
+  "About the (?:job|role|team|position|opportunity)|About you|The role|Your role|(?:Key )?Responsibilities|What you(?:'ll| will) (?:do|bring)|What we(?:'re| are) looking for|Who you are|(?:Minimum |Preferred |Basic )?Qualifications|Requirements|Must[- ]haves?|Nice[- ]to[- ]haves?|Tech stack|Your profile|How to apply|(?:Interview|Hiring) process|Salary|Compensation";
+
+/**
+ * A heading in whitespace-collapsed text: at the start or after a sentence end, colon or bullet, or followed
+ * by a colon. Case-sensitive so "benefits" in prose is not taken for one.
+ */
+function headingPattern(headings: string): RegExp {
+  return new RegExp(`(?:(?<=^|[.!?:;•·*|]\\s*)(?:${headings})\\b|\\b(?:${headings})\\s*:)`, 'g');
+}
+
+const HEADINGS: Array<{ kind: BoilerplateKind | null; pattern: RegExp }> = [
+  { kind: 'benefits', pattern: headingPattern(BENEFITS_HEADING) },
+  { kind: 'company', pattern: headingPattern(COMPANY_HEADING) },
+  { kind: null, pattern: headingPattern(OTHER_HEADING) },
+];
+
+/** The description without one kind of boilerplate (unchanged when there is none). */
+function stripBoilerplate(description: string, kind: BoilerplateKind): string {
+  if (kind === 'legal') {
+    const sentences = description.match(/[^.!?]+(?:[.!?]+|$)/g) ?? [];
+    const kept = sentences.filter((s) => !LEGAL_SENTENCE.test(s));
+    return kept.length === sentences.length ? description : kept.join('').trim();
+  }
+  const headings = HEADINGS.flatMap(({ kind, pattern }) =>
+    [...description.matchAll(pattern)].map((m) => ({ kind, at: m.index ?? 0 }))
+  ).sort((a, b) => a.at - b.at);
+  let out = '';
+  let from = 0;
+  headings.forEach((h, i) => {
+    if (h.kind !== kind || h.at < from) return;
+    out += description.slice(from, h.at);
+    from = headings.find((next, j) => j > i && next.at > h.at && next.kind !== kind)?.at ?? description.length;
+  });
+  out += description.slice(from);
+  return out === description ? description : out.replace(/\s{2,}/g, ' ').trim();
+}
+
+export interface PromptFit {
+  job: JobData;
+  resumes: ResumeRecord[];
+  /** Null when the prompt fit as it was. */
+  trim: PromptTrim | null;
+}
+
+/**
+ * Shorten the job and resumes until the system prompt, `render(job, resumes)` and the reply fit in
+ * `contextTokens`. In order: description boilerplate (legal statements, benefits, company blurb), resumes
+ * condensed largest first, the description cut from the end down to a minimum, resumes left out from the
+ * last. When even that does not fit, the smallest prompt reached is returned and the provider decides.
+ */
+export function fitPromptToContext(
+  job: JobData,
+  resumes: ResumeRecord[],
+  systemPrompt: string,
+  contextTokens: number,
+  render: (job: JobData, resumes: ResumeRecord[]) => string
+): PromptFit {
+  const budget = Math.floor(contextTokens * (1 - SAFETY_MARGIN)) - MAX_OUTPUT_TOKENS;
+  const systemTokens = estimateTokens(systemPrompt);
+  const measure = (j: JobData, r: ResumeRecord[]) => systemTokens + estimateTokens(render(j, r));
+  const fullTokens = measure(job, resumes);
+  if (fullTokens <= budget) return { job, resumes, trim: null };
+
+  let current = { job, resumes };
+  let tokens = fullTokens;
+  const steps: string[] = [];
+  const attempt = (next: { job: JobData; resumes: ResumeRecord[] }, step: string): boolean => {
+    current = next;
+    tokens = measure(next.job, next.resumes);
+    steps.push(step);
+    return tokens <= budget;
+  };
+  const done = (): PromptFit => ({
+    ...current,
+    trim: { contextTokens, fullTokens, promptTokens: tokens, steps },
+  });
+  const withDescription = (description: string) => ({ ...current, job: { ...current.job, description } });
+
+  for (const { kind, label } of BOILERPLATE) {
+    const description = stripBoilerplate(current.job.description, kind);
+    if (description === current.job.description) continue;
+    if (attempt(withDescription(description), `removed the ${label} from the job description`)) return done();
+  }
+
+  for (const resume of [...current.resumes].sort((a, b) => b.text.length - a.text.length)) {
+    const condensed = toCondensedResume(resume);
+    if (condensed.text.length >= resume.text.length) continue;
+    const next = { ...current, resumes: current.resumes.map((r) => (r.id === resume.id ? condensed : r)) };
+    if (attempt(next, `condensed resume "${resume.label}" to a summary`)) return done();
+  }
+
+  const description = current.job.description;
+  if (description.length > MIN_DESCRIPTION_CHARS) {
+    // Overflow in characters at the 4-per-token estimate, plus room for the marker
+    const keep = Math.max(MIN_DESCRIPTION_CHARS, description.length - (tokens - budget) * 4 - CUT_MARKER.length);
+    if (keep < description.length) {
+      const cut = description.slice(0, keep).replace(/\s+\S*$/, '') + CUT_MARKER;
+      const kept = Math.round((cut.length / description.length) * 100);
+      if (attempt(withDescription(cut), `cut the job description to its first ${kept}%`)) return done();
+    }
+  }
+
+  while (current.resumes.length > 1) {
+    const left = current.resumes[current.resumes.length - 1];
+    if (attempt({ ...current, resumes: current.resumes.slice(0, -1) }, `left out resume "${left.label}"`)) break;
+  }
+  return done();
+}
@@ -1,13 +1,48 @@
-import type { ResumeRecord, SettingsRecord, ApiProvider, EvaluationResult } from './types';
-import { DEFAULT_SETTINGS } from './types';
+import type {
+  ResumeRecord,
+  SettingsRecord,
+  ApiProvider,
+  EvaluationResult,
+  JobData,
+  ProviderRateLimit,
+  TokenUsage,
+  PromptTemplate,
+  PromptTemplateVersion,
+  JobFacts,
+  TriageOutcome,
+  TriageSettings,
+  EnsembleSettings,
+  FeedbackRecord,
+  ScoreCalibration,
+  ResumeSummary,
+  ResumeVersion,
+} from './types';
+import { DEFAULT_SETTINGS, DEFAULT_RETRY_POLICY, DEFAULT_TRIAGE_SETTINGS, DEFAULT_ENSEMBLE_SETTINGS } from './types';
+import { isApiProvider } from './providers';
+import { DEFAULT_PROMPT_TEMPLATE } from './prompts';
+import { normalizeRubric } from './rubric';
+import { MAX_ENSEMBLE_SAMPLES } from './ensemble';
+import { condenseResume } from './resumesummary';
+import { linesFromText, parseResume } from './resumeparse';
 
 const DB_NAME = 'linkedin-job-eval-db';
-const DB_VERSION = 2;
+const DB_VERSION = 7;
 const RESUMES_STORE = 'resumes';
 const SETTINGS_STORE = 'settings';
 const JOB_EVALS_STORE = 'job_evaluations';
 const MAX_RESUMES = 5;
+const RESUME_VERSIONS_STORE = 'resume_versions';
+/** Earlier versions kept per resume; the oldest are dropped beyond this. */
+const MAX_RESUME_VERSIONS = 20;
 const MAX_JOB_EVALS = 1000;
+const EVAL_QUEUE_STORE = 'eval_queue';
+/** Finished (done/failed/cancelled) queue entries kept for the panel; queued and running ones are never trimmed. */
+const MAX_FINISHED_QUEUE_TASKS = 200;
+const USAGE_LOG_STORE = 'usage_log';
+/** Usage entries older than this are dropped (covers a year of monthly comparisons). */
+const USAGE_LOG_MAX_AGE_DAYS = 400;
+const PROMPT_TEMPLATES_STORE = 'prompt_templates';
+const FEEDBACK_STORE = 'feedback';
 const VISITED_COMPANIES_SETTINGS_KEY = 'visitedCompanies';
 const VISITED_COMPANIES_MAX = 500;
 const VISITED_STORAGE_MAX_AGE_DAYS = 7;
@@ -20,6 +55,21 @@ const SETTINGS_KEYS = [
   'apiKeys',
   'ollamaModel',
   'providerModels',
+  'customEndpoint',
+  'fallbackProviders',
+  'retryPolicy',
+  'rateLimits',
+  'monthlyBudgetUsd',
+  'activePromptVersion',
+  'rubric',
+  'prefilterRules',
+  'compensation',
+  'fxRates',
+  'locationProfile',
+  'triage',
+  'ensemble',
+  'calibration',
+  'contextWindows',
 ] as const;
 
 function openDB(): Promise<IDBDatabase> {
@@ -40,6 +90,26 @@ function openDB(): Promise<IDBDatabase> {
         const evals = db.createObjectStore(JOB_EVALS_STORE, { keyPath: 'jobId' });
         evals.createIndex('evaluatedAt', 'evaluatedAt', { unique: false });
       }
+      if (!db.objectStoreNames.contains(EVAL_QUEUE_STORE)) {
+        const queue = db.createObjectStore(EVAL_QUEUE_STORE, { keyPath: 'cacheKey' });
+        queue.createIndex('status', 'status', { unique: false });
+        queue.createIndex('updatedAt', 'updatedAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(USAGE_LOG_STORE)) {
+        const usage = db.createObjectStore(USAGE_LOG_STORE, { keyPath: 'id', autoIncrement: true });
+        usage.createIndex('at', 'at', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(PROMPT_TEMPLATES_STORE)) {
+        db.createObjectStore(PROMPT_TEMPLATES_STORE, { keyPath: 'version' });
+      }
+      if (!db.objectStoreNames.contains(FEEDBACK_STORE)) {
+        const feedback = db.createObjectStore(FEEDBACK_STORE, { keyPath: 'cacheKey' });
+        feedback.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(RESUME_VERSIONS_STORE)) {
+        const versions = db.createObjectStore(RESUME_VERSIONS_STORE, { keyPath: ['resumeId', 'version'] });
+        versions.createIndex('resumeId', 'resumeId', { unique: false });
+      }
     };
   });
 }
@@ -60,12 +130,22 @@ export async function getAllResumes(): Promise<ResumeRecord[]> {
   });
 }
 
-export async function addResume(record: Omit<ResumeRecord, 'createdAt'>): Promise<void> {
+/** Store a new resume together with its condensed summary. */
+export async function addResume(
+  record: Omit<ResumeRecord, 'createdAt' | 'summary' | 'version' | 'updatedAt'>
+): Promise<void> {
   const resumes = await getAllResumes();
   if (resumes.length >= MAX_RESUMES) {
-    throw new Error(`Maximum ${MAX_RESUMES} resumes allowed. Remove one first.`);
+    throw new Error(`Maximum ${MAX_RESUMES} resumes allowed. Remove or replace one first.`);
   }
-  const withTime = { ...record, createdAt: Date.now() };
+  const now = Date.now();
+  const withTime: ResumeRecord = {
+    ...record,
+    summary: condenseResume(record.text, undefined, record.structured),
+    createdAt: now,
+    version: 1,
+    updatedAt: now,
+  };
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const t = db.transaction(RESUMES_STORE, 'readwrite');
@@ -81,15 +161,109 @@ export async function addResume(record: Omit<ResumeRecord, 'createdAt'>): Promis
   });
 }
 
-export async function deleteResume(id: string): Promise<void> {
+/** Replace the stored summary of a resume (rebuilt for records added before summaries or by an older condenser). */
+export async function saveResumeSummary(id: string, summary: ResumeSummary): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const t = db.transaction(RESUMES_STORE, 'readwrite');
-    const req = t.objectStore(RESUMES_STORE).delete(id);
+    const store = t.objectStore(RESUMES_STORE);
+    const req = store.get(id);
     req.onsuccess = () => {
+      const record = req.result as ResumeRecord | undefined;
+      if (record) store.put({ ...record, summary });
+    };
+    t.oncomplete = () => {
       db.close();
       resolve();
     };
+    t.onerror = () => {
+      db.close();
+      reject(t.error);
+    };
+  });
+}
+
+export type ResumeChanges = Partial<Pick<ResumeRecord, 'label' | 'text' | 'structured'>>;
+
+/**
+ * Apply `changes` to a resume as its next version, keeping the current one in its history. New text without a
+ * new structure is parsed again unless the structure was edited by hand. Resolves to the stored record (unchanged
+ * when nothing differs).
+ */
+export async function updateResume(id: string, changes: ResumeChanges): Promise<ResumeRecord> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction([RESUMES_STORE, RESUME_VERSIONS_STORE], 'readwrite');
+    const store = t.objectStore(RESUMES_STORE);
+    const versions = t.objectStore(RESUME_VERSIONS_STORE);
+    let result: ResumeRecord | null = null;
+    const req = store.get(id);
+    req.onsuccess = () => {
+      const record = req.result as ResumeRecord | undefined;
+      if (!record) return;
+      const label = changes.label?.trim() || record.label;
+      const text = changes.text ?? record.text;
+      const textChanged = text !== record.text;
+      const structured =
+        changes.structured ??
+        (textChanged && record.structured?.version !== undefined ? parseResume(linesFromText(text)) : record.structured);
+      const changed =
+        label !== record.label ||
+        textChanged ||
+        JSON.stringify(structured ?? null) !== JSON.stringify(record.structured ?? null);
+      if (!changed) {
+        result = record;
+        return;
+      }
+      const version = record.version ?? 1;
+      const previous: ResumeVersion = {
+        resumeId: id,
+        version,
+        savedAt: record.updatedAt ?? record.createdAt,
+        label: record.label,
+        text: record.text,
+        ...(record.structured ? { structured: record.structured } : {}),
+      };
+      versions.put(previous);
+      result = {
+        ...record,
+        label,
+        text,
+        structured,
+        summary: condenseResume(text, undefined, structured),
+        version: version + 1,
+        updatedAt: Date.now(),
+      };
+      store.put(result);
+      // Keys sort by version within the resume, so the first ones are the oldest
+      const keysReq = versions.index('resumeId').getAllKeys(id);
+      keysReq.onsuccess = () => {
+        const keys = keysReq.result;
+        for (const key of keys.slice(0, Math.max(0, keys.length - MAX_RESUME_VERSIONS))) versions.delete(key);
+      };
+    };
+    t.oncomplete = () => {
+      db.close();
+      if (result) resolve(result);
+      else reject(new Error('Resume not found.'));
+    };
+    t.onerror = () => {
+      db.close();
+      reject(t.error);
+    };
+  });
+}
+
+/** Earlier versions of a resume, newest first. */
+export async function getResumeVersions(id: string): Promise<ResumeVersion[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(RESUME_VERSIONS_STORE, 'readonly');
+    const req = t.objectStore(RESUME_VERSIONS_STORE).index('resumeId').getAll(id);
+    req.onsuccess = () => {
+      db.close();
+      resolve((req.result as ResumeVersion[]).sort((a, b) => b.version - a.version));
+    };
     req.onerror = () => {
       db.close();
       reject(req.error);
@@ -97,6 +271,37 @@ export async function deleteResume(id: string): Promise<void> {
   });
 }
 
+/** Bring back an earlier version as the resume's next version; history is never rewritten. */
+export async function restoreResumeVersion(version: ResumeVersion): Promise<ResumeRecord> {
+  return updateResume(version.resumeId, {
+    label: version.label,
+    text: version.text,
+    ...(version.structured ? { structured: version.structured } : {}),
+  });
+}
+
+/** Remove a resume and its version history. */
+export async function deleteResume(id: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction([RESUMES_STORE, RESUME_VERSIONS_STORE], 'readwrite');
+    t.objectStore(RESUMES_STORE).delete(id);
+    const versions = t.objectStore(RESUME_VERSIONS_STORE);
+    const keysReq = versions.index('resumeId').getAllKeys(id);
+    keysReq.onsuccess = () => {
+      for (const key of keysReq.result) versions.delete(key);
+    };
+    t.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    t.onerror = () => {
+      db.close();
+      reject(t.error);
+    };
+  });
+}
+
 async function getSetting<K extends (typeof SETTINGS_KEYS)[number]>(
   key: K
 ): Promise<SettingsRecord[K]> {
@@ -164,6 +369,21 @@ export async function getSettings(): Promise<SettingsRecord> {
     apiKeys,
     ollamaModel,
     providerModels,
+    customEndpoint,
+    fallbackProviders,
+    retryPolicy,
+    rateLimits,
+    monthlyBudgetUsd,
+    activePromptVersion,
+    rubric,
+    prefilterRules,
+    compensation,
+    fxRates,
+    locationProfile,
+    triage,
+    ensemble,
+    calibration,
+    contextWindows,
     legacyApiKey,
   ] = await Promise.all([
     getSetting('profileIntent'),
@@ -173,6 +393,21 @@ export async function getSettings(): Promise<SettingsRecord> {
     getSetting('apiKeys'),
     getSetting('ollamaModel'),
     getSetting('providerModels').catch(() => undefined),
+    getSetting('customEndpoint').catch(() => undefined),
+    getSetting('fallbackProviders').catch(() => undefined),
+    getSetting('retryPolicy').catch(() => undefined),
+    getSetting('rateLimits').catch(() => undefined),
+    getSetting('monthlyBudgetUsd').catch(() => undefined),
+    getSetting('activePromptVersion').catch(() => undefined),
+    getSetting('rubric').catch(() => undefined),
+    getSetting('prefilterRules').catch(() => undefined),
+    getSetting('compensation').catch(() => undefined),
+    getSetting('fxRates').catch(() => undefined),
+    getSetting('locationProfile').catch(() => undefined),
+    getSetting('triage').catch(() => undefined),
+    getSetting('ensemble').catch(() => undefined),
+    getSetting('calibration').catch(() => undefined),
+    getSetting('contextWindows').catch(() => undefined),
     getLegacyApiKey(),
   ]);
   // Migrate legacy single apiKey (v1) to per-provider apiKeys map (v2)
@@ -196,6 +431,73 @@ export async function getSettings(): Promise<SettingsRecord> {
     apiKeys: normalizedApiKeys,
     ollamaModel,
     providerModels: normalizedProviderModels,
+    customEndpoint: {
+      baseUrl: customEndpoint?.baseUrl ?? '',
+      headers: customEndpoint?.headers && typeof customEndpoint.headers === 'object' ? customEndpoint.headers : {},
+    },
+    // Drop providers that no longer exist and the primary itself
+    fallbackProviders: Array.isArray(fallbackProviders)
+      ? fallbackProviders.filter((p) => isApiProvider(p) && p !== apiProvider)
+      : [],
+    retryPolicy: { ...DEFAULT_RETRY_POLICY, ...(retryPolicy && typeof retryPolicy === 'object' ? retryPolicy : {}) },
+    rateLimits: rateLimits && typeof rateLimits === 'object' ? rateLimits : {},
+    monthlyBudgetUsd: typeof monthlyBudgetUsd === 'number' && monthlyBudgetUsd > 0 ? monthlyBudgetUsd : null,
+    activePromptVersion: typeof activePromptVersion === 'number' ? activePromptVersion : 0,
+    rubric: rubric === undefined ? DEFAULT_SETTINGS.rubric : normalizeRubric(rubric),
+    prefilterRules: Array.isArray(prefilterRules) ? prefilterRules : [],
+    compensation: compensation && typeof compensation === 'object' ? compensation : null,
+    fxRates: fxRates && typeof fxRates === 'object' ? fxRates : DEFAULT_SETTINGS.fxRates,
+    locationProfile: locationProfile && typeof locationProfile === 'object' ? locationProfile : null,
+    triage: normalizeTriageSettings(triage),
+    ensemble: normalizeEnsembleSettings(ensemble),
+    calibration: isScoreCalibration(calibration) ? calibration : null,
+    contextWindows: normalizeContextWindows(contextWindows),
+  };
+}
+
+/** Keep only positive whole-token sizes. */
+function normalizeContextWindows(contextWindows: Record<string, number> | undefined): Record<string, number> {
+  if (!contextWindows || typeof contextWindows !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(contextWindows)
+      .filter(([, tokens]) => typeof tokens === 'number' && tokens > 0)
+      .map(([key, tokens]) => [key, Math.round(tokens)])
+  );
+}
+
+function isScoreCalibration(value: ScoreCalibration | null | undefined): value is ScoreCalibration {
+  return (
+    value != null &&
+    Array.isArray(value.points) &&
+    value.points.length >= 2 &&
+    value.points.every((p) => Array.isArray(p) && p.length === 2 && p.every((n) => typeof n === 'number'))
+  );
+}
+
+function normalizeEnsembleSettings(ensemble: EnsembleSettings | undefined): EnsembleSettings {
+  if (!ensemble || typeof ensemble !== 'object') return DEFAULT_ENSEMBLE_SETTINGS;
+  const samples = Math.round(Number(ensemble.samples));
+  return {
+    enabled: ensemble.enabled === true,
+    samples: samples >= 2 ? Math.min(samples, MAX_ENSEMBLE_SAMPLES) : DEFAULT_ENSEMBLE_SETTINGS.samples,
+    members: Array.isArray(ensemble.members)
+      ? ensemble.members
+          .filter((m) => m && isApiProvider(m.provider))
+          .map((m) => ({ provider: m.provider, model: typeof m.model === 'string' ? m.model : '' }))
+      : [],
+  };
+}
+
+function normalizeTriageSettings(triage: TriageSettings | undefined): TriageSettings {
+  if (!triage || typeof triage !== 'object') return DEFAULT_TRIAGE_SETTINGS;
+  return {
+    enabled: triage.enabled === true,
+    provider: triage.provider && isApiProvider(triage.provider) ? triage.provider : null,
+    model: typeof triage.model === 'string' ? triage.model : '',
+    threshold:
+      typeof triage.threshold === 'number' && triage.threshold >= 0 && triage.threshold <= 100
+        ? triage.threshold
+        : DEFAULT_TRIAGE_SETTINGS.threshold,
   };
 }
 
@@ -214,6 +516,14 @@ export interface JobEvaluationRecord {
   evaluatedAt: number;
   /** Full result when available (explanation, bullets, verdict); older cache may have only score. */
   result?: EvaluationResult;
+  /** Tokens and estimated cost of the call that produced `result` (absent for manual or older entries). */
+  usage?: TokenUsage;
+  /** Prompt template version behind `result` (0 = built-in prompt; absent for manual or older entries). */
+  promptVersion?: number;
+  /** Structured posting facts (salary, workplace, seniority, …) known when the job was evaluated. */
+  facts?: JobFacts;
+  /** Quick first pass of a two-stage run; `result` is the full evaluation when it passed, else the triage. */
+  triage?: TriageOutcome;
 }
 
 export async function getJobEvaluation(jobId: string): Promise<JobEvaluationRecord | null> {
@@ -301,6 +611,10 @@ export async function saveJobEvaluation(jobId: string, result: EvaluationResult)
       score,
       evaluatedAt: Date.now(),
       result,
+      usage: result.usage,
+      promptVersion: result.promptVersion,
+      facts: result.facts,
+      triage: result.triage,
     });
     req.onsuccess = async () => {
       try {
@@ -319,6 +633,313 @@ export async function saveJobEvaluation(jobId: string, result: EvaluationResult)
   });
 }
 
+/** The built-in prompt, presented as version 0. */
+export const BUILT_IN_PROMPT_VERSION: PromptTemplateVersion = {
+  version: 0,
+  createdAt: 0,
+  note: 'Built-in prompt',
+  template: DEFAULT_PROMPT_TEMPLATE,
+};
+
+/** Saved prompt template versions, newest first (the built-in version 0 is not included). */
+export async function getPromptTemplateVersions(): Promise<PromptTemplateVersion[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(PROMPT_TEMPLATES_STORE, 'readonly');
+    const req = t.objectStore(PROMPT_TEMPLATES_STORE).getAll();
+    req.onsuccess = () => {
+      db.close();
+      resolve((req.result as PromptTemplateVersion[]).sort((a, b) => b.version - a.version));
+    };
+    req.onerror = () => {
+      db.close();
+      reject(req.error);
+    };
+  });
+}
+
+/** Store `template` as the next version number. Versions are never overwritten. */
+export async function savePromptTemplateVersion(template: PromptTemplate, note?: string): Promise<PromptTemplateVersion> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(PROMPT_TEMPLATES_STORE, 'readwrite');
+    const store = t.objectStore(PROMPT_TEMPLATES_STORE);
+    let saved: PromptTemplateVersion | null = null;
+    const cursorReq = store.openCursor(null, 'prev');
+    cursorReq.onsuccess = () => {
+      const latest = cursorReq.result?.value as PromptTemplateVersion | undefined;
+      saved = {
+        version: (latest?.version ?? 0) + 1,
+        createdAt: Date.now(),
+        ...(note?.trim() ? { note: note.trim() } : {}),
+        template,
+      };
+      store.add(saved);
+    };
+    t.oncomplete = () => {
+      db.close();
+      resolve(saved!);
+    };
+    t.onerror = () => {
+      db.close();
+      reject(t.error);
+    };
+  });
+}
+
+/** The version selected in settings, or the built-in prompt when none is selected or it no longer exists. */
+export async function getActivePromptTemplate(): Promise<PromptTemplateVersion> {
+  const version = await getSetting('activePromptVersion').catch(() => 0);
+  if (!version) return BUILT_IN_PROMPT_VERSION;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(PROMPT_TEMPLATES_STORE, 'readonly');
+    const req = t.objectStore(PROMPT_TEMPLATES_STORE).get(version);
+    req.onsuccess = () => {
+      db.close();
+      resolve((req.result as PromptTemplateVersion | undefined) ?? BUILT_IN_PROMPT_VERSION);
+    };
+    req.onerror = () => {
+      db.close();
+      reject(req.error);
+    };
+  });
+}
+
+/** Store or replace the user's feedback on a job. */
+export async function saveFeedback(record: FeedbackRecord): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(FEEDBACK_STORE, 'readwrite');
+    const req = t.objectStore(FEEDBACK_STORE).put(record);
+    req.onsuccess = () => {
+      db.close();
+      resolve();
+    };
+    req.onerror = () => {
+      db.close();
+      reject(req.error);
+    };
+  });
+}
+
+export async function deleteFeedback(cacheKey: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(FEEDBACK_STORE, 'readwrite');
+    const req = t.objectStore(FEEDBACK_STORE).delete(cacheKey);
+    req.onsuccess = () => {
+      db.close();
+      resolve();
+    };
+    req.onerror = () => {
+      db.close();
+      reject(req.error);
+    };
+  });
+}
+
+export async function getFeedback(cacheKey: string): Promise<FeedbackRecord | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(FEEDBACK_STORE, 'readonly');
+    const req = t.objectStore(FEEDBACK_STORE).get(cacheKey);
+    req.onsuccess = () => {
+      db.close();
+      resolve((req.result as FeedbackRecord) ?? null);
+    };
+    req.onerror = () => {
+      db.close();
+      reject(req.error);
+    };
+  });
+}
+
+/** All feedback, newest first. */
+export async function getAllFeedback(): Promise<FeedbackRecord[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(FEEDBACK_STORE, 'readonly');
+    const req = t.objectStore(FEEDBACK_STORE).index('createdAt').getAll();
+    req.onsuccess = () => {
+      db.close();
+      resolve((req.result as FeedbackRecord[]).reverse());
+    };
+    req.onerror = () => {
+      db.close();
+      reject(req.error);
+    };
+  });
+}
+
+/** One billed LLM call; kept separately from job_evaluations so re-evaluations and trimming don't lose spend. */
+export interface UsageLogEntry {
+  id?: number;
+  at: number;
+  cacheKey: string;
+  provider: ApiProvider;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number | null;
+  estimated?: boolean;
+}
+
+export async function addUsageLogEntry(entry: Omit<UsageLogEntry, 'id'>): Promise<void> {
+  const db = await openDB();
+  const cutoff = Date.now() - USAGE_LOG_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(USAGE_LOG_STORE, 'readwrite');
+    const store = t.objectStore(USAGE_LOG_STORE);
+    store.add(entry);
+    store.index('at').openCursor(IDBKeyRange.upperBound(cutoff)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.delete();
+      cursor.continue();
+    };
+    t.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    t.onerror = () => {
+      db.close();
+      reject(t.error);
+    };
+  });
+}
+
+/** Usage entries at or after `since`, oldest first. */
+export async function getUsageLog(since = 0): Promise<UsageLogEntry[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(USAGE_LOG_STORE, 'readonly');
+    const req = t.objectStore(USAGE_LOG_STORE).index('at').getAll(IDBKeyRange.lowerBound(since));
+    req.onsuccess = () => {
+      db.close();
+      resolve(req.result as UsageLogEntry[]);
+    };
+    req.onerror = () => {
+      db.close();
+      reject(req.error);
+    };
+  });
+}
+
+export type EvalTaskStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/** One background evaluation request; persisted so the queue survives the service worker being stopped. */
+export interface EvalQueueRecord {
+  cacheKey: string;
+  job: JobData;
+  resumeIds?: string[];
+  senderTabId?: number;
+  tabUrl?: string;
+  status: EvalTaskStatus;
+  /** Attempts already made; 0 for a fresh request. */
+  attempt: number;
+  /** Not dispatched before this timestamp (set when a retry is scheduled). */
+  notBefore: number;
+  /**
+   * Two-stage runs only: 'triage' is the quick pass, which re-queues the job as 'deep' when it passes.
+   * Absent for a regular single evaluation.
+   */
+  stage?: 'triage' | 'deep';
+  /** Outcome of the triage pass, carried by the 'deep' task so it is stored with the full result. */
+  triage?: TriageOutcome;
+  /** Provider at enqueue time (the triage provider for a 'triage' task); its budget is charged before dispatch. */
+  provider: ApiProvider;
+  rateLimit: ProviderRateLimit;
+  /** System + user prompt size estimate, charged against the tokens-per-minute budget. */
+  estimatedTokens: number;
+  enqueuedAt: number;
+  /** Set when the user moved the task to the front of the queue; the latest one runs first. */
+  prioritizedAt?: number;
+  updatedAt: number;
+  /** Why the task failed, or why its pending retry was scheduled. */
+  error?: string;
+}
+
+/** All queue entries, oldest request first. */
+export async function getEvalQueueTasks(): Promise<EvalQueueRecord[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(EVAL_QUEUE_STORE, 'readonly');
+    const req = t.objectStore(EVAL_QUEUE_STORE).getAll();
+    req.onsuccess = () => {
+      db.close();
+      resolve((req.result as EvalQueueRecord[]).sort((a, b) => a.enqueuedAt - b.enqueuedAt));
+    };
+    req.onerror = () => {
+      db.close();
+      reject(req.error);
+    };
+  });
+}
+
+export async function getEvalQueueTask(cacheKey: string): Promise<EvalQueueRecord | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(EVAL_QUEUE_STORE, 'readonly');
+    const req = t.objectStore(EVAL_QUEUE_STORE).get(cacheKey);
+    req.onsuccess = () => {
+      db.close();
+      resolve((req.result as EvalQueueRecord) ?? null);
+    };
+    req.onerror = () => {
+      db.close();
+      reject(req.error);
+    };
+  });
+}
+
+function isFinishedTask(record: EvalQueueRecord): boolean {
+  return record.status === 'done' || record.status === 'failed' || record.status === 'cancelled';
+}
+
+async function trimEvalQueue(db: IDBDatabase): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(EVAL_QUEUE_STORE, 'readwrite');
+    const store = t.objectStore(EVAL_QUEUE_STORE);
+    const req = store.index('updatedAt').getAll();
+    req.onsuccess = () => {
+      const finished = (req.result as EvalQueueRecord[]).filter(isFinishedTask);
+      const toDelete = finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_QUEUE_TASKS));
+      for (const record of toDelete) store.delete(record.cacheKey);
+      t.oncomplete = () => resolve();
+    };
+    req.onerror = () => reject(req.error);
+    t.onerror = () => reject(t.error);
+  });
+}
+
+export async function putEvalQueueTask(record: EvalQueueRecord): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(EVAL_QUEUE_STORE, 'readwrite');
+    const req = t.objectStore(EVAL_QUEUE_STORE).put(record);
+    req.onsuccess = async () => {
+      if (!isFinishedTask(record)) {
+        db.close();
+        resolve();
+        return;
+      }
+      try {
+        await trimEvalQueue(db);
+      } catch {
+        // ignore cleanup errors
+      } finally {
+        db.close();
+        resolve();
+      }
+    };
+    req.onerror = () => {
+      db.close();
+      reject(req.error);
+    };
+  });
+}
+
 function normalizeCompany(name: string): string {
   return (name || '').trim();
 }
@@ -0,0 +1,158 @@
+/**
+ * Self-consistency mode: several evaluations of one job combined into one result. The score is the median,
+ * the verdict the majority, bullets are merged with near-duplicates dropped, and the spread of the samples
+ * is reported so a shaky verdict is visible.
+ */
+
+import type { CriterionScore, EnsembleSummary, EvaluationResult, TokenUsage } from './types';
+import { HARD_REJECTION_MAX_SCORE } from './rubric';
+
+/** Upper bound on samples per job; each is a full model call. */
+export const MAX_ENSEMBLE_SAMPLES = 7;
+
+/** Score spread (standard deviation) up to which samples count as agreeing / beyond which they do not. */
+const CONFIDENT_STD_DEV = 5;
+const SHAKY_STD_DEV = 12;
+/** Verdict agreement below which the result is low confidence. */
+const SHAKY_AGREEMENT = 0.6;
+/** Word-overlap ratio above which two bullets say the same thing. */
+const DUPLICATE_BULLET_SIMILARITY = 0.6;
+
+/** Most conservative first; breaks verdict ties. */
+const VERDICT_ORDER: EvaluationResult['verdict'][] = ['not_worth', 'maybe', 'worth'];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function stdDev(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+}
+
+/** The value given most often (the first of them on a tie). */
+function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best: T | undefined;
+  let bestCount = 0;
+  for (const [v, count] of counts) {
+    if (count > bestCount) {
+      best = v;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function majorityVerdict(results: EvaluationResult[]): EvaluationResult['verdict'] {
+  const counts = new Map<EvaluationResult['verdict'], number>();
+  for (const r of results) counts.set(r.verdict, (counts.get(r.verdict) ?? 0) + 1);
+  const top = Math.max(...counts.values());
+  return VERDICT_ORDER.find((v) => counts.get(v) === top) ?? 'maybe';
+}
+
+function bulletWords(bullet: string): Set<string> {
+  return new Set(
+    bullet
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}+#.]+/u)
+      .filter((w) => w.length > 2)
+  );
+}
+
+function isSameBullet(a: Set<string>, b: Set<string>): boolean {
+  if (a.size === 0 || b.size === 0) return false;
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return shared / (a.size + b.size - shared) >= DUPLICATE_BULLET_SIMILARITY;
+}
+
+/** All samples' bullets, near-duplicates merged; those most samples mention come first. */
+function mergeBullets(lists: string[][]): string[] {
+  const merged: Array<{ text: string; words: Set<string>; count: number; order: number }> = [];
+  for (const list of lists) {
+    for (const text of list) {
+      const words = bulletWords(text);
+      const existing = merged.find((m) => m.text === text || isSameBullet(m.words, words));
+      if (existing) existing.count++;
+      else merged.push({ text, words, count: 1, order: merged.length });
+    }
+  }
+  return merged.sort((a, b) => b.count - a.count || a.order - b.order).map((m) => m.text);
+}
+
+/** Median score per criterion, for criteria every sample rated. */
+function medianCriteria(results: EvaluationResult[]): CriterionScore[] | undefined {
+  const first = results[0].criteria;
+  if (!first || results.some((r) => !r.criteria)) return undefined;
+  return first.map((c) => ({
+    ...c,
+    score: Math.round(median(results.map((r) => r.criteria!.find((x) => x.id === c.id)?.score ?? c.score))),
+  }));
+}
+
+function sumUsage(results: EvaluationResult[]): TokenUsage | undefined {
+  const usages = results.map((r) => r.usage).filter((u): u is TokenUsage => u != null);
+  if (usages.length === 0) return undefined;
+  return {
+    promptTokens: usages.reduce((sum, u) => sum + u.promptTokens, 0),
+    completionTokens: usages.reduce((sum, u) => sum + u.completionTokens, 0),
+    costUsd: usages.every((u) => u.costUsd != null) ? usages.reduce((sum, u) => sum + u.costUsd!, 0) : null,
+    ...(usages.some((u) => u.estimated) ? { estimated: true } : {}),
+  };
+}
+
+/**
+ * Combine samples of the same job. Fields without a natural aggregate (explanation, facts, local checks,
+ * provider and model) come from the sample whose score is closest to the median among those with the
+ * majority verdict. `usage` is the total of all samples; each sample's own is kept in `ensemble.samples`.
+ */
+export function aggregateEvaluations(results: EvaluationResult[]): EvaluationResult {
+  if (results.length === 1) return results[0];
+  const scores = results.map((r) => r.score);
+  const score = Math.round(median(scores));
+  const verdict = majorityVerdict(results);
+  const agreeing = results.filter((r) => r.verdict === verdict);
+  const representative = [...agreeing].sort((a, b) => Math.abs(a.score - score) - Math.abs(b.score - score))[0];
+
+  const spread = stdDev(scores);
+  const verdictAgreement = agreeing.length / results.length;
+  const ensemble: EnsembleSummary = {
+    samples: results.map((r) => ({
+      provider: r.provider!,
+      model: r.model ?? '',
+      score: r.score,
+      verdict: r.verdict,
+      ...(r.usage ? { usage: r.usage } : {}),
+    })),
+    scoreStdDev: Math.round(spread * 10) / 10,
+    verdictAgreement,
+    confidence:
+      spread > SHAKY_STD_DEV || verdictAgreement < SHAKY_AGREEMENT
+        ? 'low'
+        : spread <= CONFIDENT_STD_DEV && verdictAgreement === 1
+          ? 'high'
+          : 'medium',
+  };
+
+  const criteria = medianCriteria(results);
+  const hardRejectionReason = agreeing.find((r) => r.hardRejectionReason != null)?.hardRejectionReason ?? null;
+  const bestResumeLabel = mostCommon(results.map((r) => r.bestResumeLabel).filter((l): l is string => l != null)) ?? null;
+  const bestResume = results.find((r) => r.bestResume && r.bestResumeLabel === bestResumeLabel)?.bestResume;
+  return {
+    ...representative,
+    score: hardRejectionReason ? Math.min(score, HARD_REJECTION_MAX_SCORE) : score,
+    verdict,
+    hardRejectionReason,
+    matchBullets: mergeBullets(results.map((r) => r.matchBullets)),
+    riskBullets: mergeBullets(results.map((r) => r.riskBullets)),
+    bestResumeLabel,
+    bestResume,
+    ...(criteria ? { criteria } : {}),
+    usage: sumUsage(results),
+    ensemble,
+  };
+}
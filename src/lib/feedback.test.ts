@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { fitCalibration, modelScoreOf } from './feedback';
+import type { EvaluationResult, FeedbackKind, FeedbackRecord } from './types';
+
+const RESULT: EvaluationResult = {
+  score: 64,
+  verdict: 'maybe',
+  hardRejectionReason: null,
+  matchBullets: [],
+  riskBullets: [],
+  bestResumeLabel: null,
+  explanation: '',
+};
+
+function feedback(kind: FeedbackKind, rawScore: number | null, i: number): FeedbackRecord {
+  return {
+    cacheKey: `job-${i}`,
+    kind,
+    job: { title: `Job ${i}`, location: '' },
+    rawScore,
+    verdict: 'maybe',
+    explanation: '',
+    createdAt: i,
+  };
+}
+
+describe('modelScoreOf', () => {
+  it('prefers the uncalibrated model score', () => {
+    expect(modelScoreOf(RESULT)).toBe(64);
+    expect(modelScoreOf({ ...RESULT, score: 70, rawScore: 58 })).toBe(58);
+  });
+
+  it('has no model score for pre-filter rejections', () => {
+    expect(modelScoreOf({ ...RESULT, score: 0, verdict: 'not_worth', prefilterRuleId: 'rule-1' })).toBeNull();
+  });
+
+  it('keeps the model score through Mark as bad, and has none when there was none', () => {
+    expect(modelScoreOf({ ...RESULT, score: 0, markedBad: true, rawScore: 64 })).toBe(64);
+    expect(modelScoreOf({ ...RESULT, score: 0, markedBad: true })).toBeNull();
+  });
+});
+
+describe('fitCalibration', () => {
+  const scored = [
+    ...[20, 30, 40, 50].map((s, i) => feedback('down', s, i)),
+    ...[60, 70, 80, 90].map((s, i) => feedback('up', s, i + 4)),
+  ];
+
+  it('leaves feedback without a model score out of the fit', () => {
+    const unscored = [0, 1, 2, 3].map((i) => feedback('down', null, i + 8));
+    expect(fitCalibration([...scored, ...unscored], 1)).toEqual(fitCalibration(scored, 1));
+    expect(fitCalibration([...scored, ...unscored])?.sampleSize).toBe(scored.length);
+  });
+
+  it('needs enough scored feedback', () => {
+    const unscored = [0, 1, 2, 3].map((i) => feedback('down', null, i + 8));
+    expect(fitCalibration([...scored.slice(0, 6), ...unscored])).toBeNull();
+  });
+});
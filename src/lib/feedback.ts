@@ -0,0 +1,140 @@
+/**
+ * Learning from the user's feedback on results. Thumbs up/down and applied / would-not-apply fit a per-user
+ * calibration of the model's score, and the most recent judgements are given to the model as examples.
+ */
+
+import type { EvaluationResult, FeedbackKind, FeedbackRecord, ScoreCalibration } from './types';
+import { HARD_REJECTION_MAX_SCORE } from './rubric';
+
+export const FEEDBACK_LABELS: Record<FeedbackKind, string> = {
+  up: 'Good match',
+  down: 'Bad match',
+  applied: 'I applied',
+  would_not_apply: 'Would not apply',
+};
+
+/** How each kind reads in the examples given to the model. */
+const FEEDBACK_PROMPT_TEXT: Record<FeedbackKind, string> = {
+  up: 'rated it a good match',
+  down: 'rated it a bad match',
+  applied: 'applied',
+  would_not_apply: 'would not apply',
+};
+
+/** Feedback entries needed, at least one positive and one negative, before scores are calibrated. */
+export const MIN_CALIBRATION_FEEDBACK = 8;
+/** Pseudo-observations pulling each fitted point back toward its raw score, so little feedback moves it little. */
+const PRIOR_WEIGHT = 4;
+/** Past judgements given to the model per evaluation. */
+const FEW_SHOT_EXAMPLES = 4;
+const EXAMPLE_COMMENT_MAX = 160;
+
+export function isPositiveFeedback(kind: FeedbackKind): boolean {
+  return kind === 'up' || kind === 'applied';
+}
+
+/**
+ * The model's score behind a result, as recorded with feedback; null when no model produced it (a pre-filter
+ * rejection, or a job marked bad before it was evaluated), so a local zero never reaches the calibration.
+ */
+export function modelScoreOf(result: EvaluationResult): number | null {
+  if (result.prefilterRuleId) return null;
+  if (result.markedBad) return result.rawScore ?? null;
+  return result.rawScore ?? result.score;
+}
+
+/**
+ * Isotonic regression (pool adjacent violators) of "the user liked it" (0 or 100) on the raw score, each
+ * pooled block shrunk toward its raw score, anchored at 0 and 100. Feedback without a model score is left
+ * out. Null with too little feedback or when all of it points the same way.
+ */
+export function fitCalibration(allFeedback: FeedbackRecord[], now = Date.now()): ScoreCalibration | null {
+  const feedback = allFeedback.filter((f): f is FeedbackRecord & { rawScore: number } => f.rawScore != null);
+  const positives = feedback.filter((f) => isPositiveFeedback(f.kind)).length;
+  if (feedback.length < MIN_CALIBRATION_FEEDBACK || positives === 0 || positives === feedback.length) return null;
+
+  const byRaw = new Map<number, { liked: number; weight: number }>();
+  for (const f of feedback) {
+    const raw = Math.min(100, Math.max(0, Math.round(f.rawScore)));
+    const block = byRaw.get(raw) ?? { liked: 0, weight: 0 };
+    block.liked += isPositiveFeedback(f.kind) ? 100 : 0;
+    block.weight++;
+    byRaw.set(raw, block);
+  }
+  const blocks: Array<{ raw: number; liked: number; weight: number }> = [];
+  for (const [raw, { liked, weight }] of [...byRaw].sort((a, b) => a[0] - b[0])) {
+    blocks.push({ raw, liked: liked / weight, weight });
+    // Pool while the block before rates higher, so the fit never falls as the raw score rises
+    while (blocks.length > 1 && blocks[blocks.length - 2].liked >= blocks[blocks.length - 1].liked) {
+      const b = blocks.pop()!;
+      const a = blocks.pop()!;
+      const weight = a.weight + b.weight;
+      blocks.push({
+        raw: (a.raw * a.weight + b.raw * b.weight) / weight,
+        liked: (a.liked * a.weight + b.liked * b.weight) / weight,
+        weight,
+      });
+    }
+  }
+
+  const points: Array<[number, number]> = blocks.map((b) => [
+    Math.round(b.raw * 10) / 10,
+    Math.round(((b.liked * b.weight + b.raw * PRIOR_WEIGHT) / (b.weight + PRIOR_WEIGHT)) * 10) / 10,
+  ]);
+  if (points[0][0] > 0) points.unshift([0, 0]);
+  if (points[points.length - 1][0] < 100) points.push([100, 100]);
+  for (let i = 1; i < points.length; i++) points[i][1] = Math.max(points[i][1], points[i - 1][1]);
+  return { points, sampleSize: feedback.length, fittedAt: now };
+}
+
+/** The calibrated score for a raw one (linear between the knots). */
+export function calibrateScore(raw: number, calibration: ScoreCalibration): number {
+  const { points } = calibration;
+  const x = Math.min(100, Math.max(0, raw));
+  const i = points.findIndex(([r]) => r >= x);
+  if (i <= 0) return Math.round(points[Math.max(i, 0)][1]);
+  const [r0, c0] = points[i - 1];
+  const [r1, c1] = points[i];
+  return Math.round(c0 + ((x - r0) / (r1 - r0)) * (c1 - c0));
+}
+
+/**
+ * Replace the score with its calibrated value, keeping the model's in `rawScore`. The verdict is left as
+ * the model gave it; results from a local pre-filter rule are not calibrated.
+ */
+export function applyCalibration(result: EvaluationResult, calibration: ScoreCalibration | null | undefined): EvaluationResult {
+  if (!calibration || result.prefilterRuleId) return result;
+  const calibrated = calibrateScore(result.score, calibration);
+  return {
+    ...result,
+    score: result.hardRejectionReason ? Math.min(calibrated, HARD_REJECTION_MAX_SCORE) : calibrated,
+    rawScore: result.score,
+  };
+}
+
+/** The most recent judgements, other than on the job being evaluated, balanced between positive and negative. */
+export function selectFeedbackExamples(feedback: FeedbackRecord[], excludeCacheKey?: string): FeedbackRecord[] {
+  const recent = feedback.filter((f) => f.cacheKey !== excludeCacheKey).sort((a, b) => b.createdAt - a.createdAt);
+  const positive = recent.filter((f) => isPositiveFeedback(f.kind));
+  const negative = recent.filter((f) => !isPositiveFeedback(f.kind));
+  const half = Math.ceil(FEW_SHOT_EXAMPLES / 2);
+  const picked = [...positive.slice(0, half), ...negative.slice(0, half)];
+  // Fill from whichever side has more when the other has fewer than half
+  for (const f of recent) {
+    if (picked.length >= FEW_SHOT_EXAMPLES) break;
+    if (!picked.includes(f)) picked.push(f);
+  }
+  return picked.slice(0, FEW_SHOT_EXAMPLES).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** The `{{feedbackExamples}}` prompt variable. */
+export function formatFeedbackExamplesForPrompt(examples: FeedbackRecord[]): string {
+  return examples
+    .map((f) => {
+      const where = [f.job.company && ` at ${f.job.company}`, f.job.location && ` (${f.job.location})`].filter(Boolean).join('');
+      const comment = f.comment?.trim().replace(/\s+/g, ' ').slice(0, EXAMPLE_COMMENT_MAX);
+      const scored = f.rawScore != null ? `scored ${f.rawScore}` : 'not scored';
+      return `- "${f.job.title}"${where}: ${scored} (${f.verdict}); user ${FEEDBACK_PROMPT_TEXT[f.kind]}${comment ? ` ("${comment}")` : ''}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,426 @@
+/**
+ * Offline geodata for location matching: the cities LinkedIn postings commonly name, with coordinates and
+ * standard-time UTC offsets (daylight saving is ignored), plus countries, US/Canadian regions and the
+ * multi-country areas used for remote roles ("Europe", "EMEA"). Bundled so no location ever leaves the browser.
+ */
+
+export interface GeoCity {
+  name: string;
+  /** ISO 3166-1 alpha-2 code. */
+  country: string;
+  lat: number;
+  lon: number;
+  utcOffset: number;
+  aliases: string[];
+}
+
+export interface GeoCountry {
+  code: string;
+  name: string;
+  aliases: string[];
+  /** Westernmost and easternmost standard UTC offset in the country. */
+  utcOffsets: [number, number];
+}
+
+export interface GeoArea {
+  name: string;
+  aliases: string[];
+  countries: string[];
+}
+
+type CityRow = [name: string, country: string, lat: number, lon: number, utcOffset: number, aliases?: string[]];
+type CountryRow = [code: string, name: string, utcOffsets: number | [number, number], aliases?: string[]];
+
+const COUNTRY_ROWS: CountryRow[] = [
+  ['US', 'United States', [-8, -5], ['usa', 'us', 'united states of america', 'america']],
+  ['CA', 'Canada', [-8, -3.5]],
+  ['MX', 'Mexico', [-7, -5], ['méxico']],
+  ['BR', 'Brazil', [-5, -3], ['brasil']],
+  ['AR', 'Argentina', -3],
+  ['CL', 'Chile', -4],
+  ['CO', 'Colombia', -5],
+  ['PE', 'Peru', -5, ['perú']],
+  ['UY', 'Uruguay', -3],
+  ['GB', 'United Kingdom', 0, ['uk', 'great britain', 'britain', 'england', 'scotland', 'wales', 'northern ireland']],
+  ['IE', 'Ireland', 0],
+  ['FR', 'France', 1],
+  ['DE', 'Germany', 1, ['deutschland']],
+  ['NL', 'Netherlands', 1, ['the netherlands', 'holland', 'nederland']],
+  ['BE', 'Belgium', 1, ['belgië', 'belgique']],
+  ['LU', 'Luxembourg', 1],
+  ['CH', 'Switzerland', 1, ['schweiz', 'suisse']],
+  ['AT', 'Austria', 1, ['österreich']],
+  ['ES', 'Spain', 1, ['españa']],
+  ['PT', 'Portugal', 0],
+  ['IT', 'Italy', 1, ['italia']],
+  ['DK', 'Denmark', 1, ['danmark']],
+  ['SE', 'Sweden', 1, ['sverige']],
+  ['NO', 'Norway', 1, ['norge']],
+  ['FI', 'Finland', 2, ['suomi']],
+  ['IS', 'Iceland', 0],
+  ['PL', 'Poland', 1, ['polska']],
+  ['CZ', 'Czechia', 1, ['czech republic']],
+  ['SK', 'Slovakia', 1],
+  ['HU', 'Hungary', 1],
+  ['RO', 'Romania', 2],
+  ['BG', 'Bulgaria', 2],
+  ['GR', 'Greece', 2],
+  ['HR', 'Croatia', 1],
+  ['SI', 'Slovenia', 1],
+  ['RS', 'Serbia', 1],
+  ['UA', 'Ukraine', 2],
+  ['EE', 'Estonia', 2],
+  ['LV', 'Latvia', 2],
+  ['LT', 'Lithuania', 2],
+  ['CY', 'Cyprus', 2],
+  ['MT', 'Malta', 1],
+  ['TR', 'Türkiye', 3, ['turkey', 'turkiye']],
+  ['IL', 'Israel', 2],
+  ['AE', 'United Arab Emirates', 4, ['uae']],
+  ['SA', 'Saudi Arabia', 3],
+  ['EG', 'Egypt', 2],
+  ['ZA', 'South Africa', 2],
+  ['NG', 'Nigeria', 1],
+  ['KE', 'Kenya', 3],
+  ['IN', 'India', 5.5],
+  ['PK', 'Pakistan', 5],
+  ['BD', 'Bangladesh', 6],
+  ['SG', 'Singapore', 8],
+  ['MY', 'Malaysia', 8],
+  ['ID', 'Indonesia', [7, 9]],
+  ['TH', 'Thailand', 7],
+  ['VN', 'Vietnam', 7, ['viet nam']],
+  ['PH', 'Philippines', 8],
+  ['CN', 'China', 8],
+  ['HK', 'Hong Kong', 8, ['hong kong sar']],
+  ['TW', 'Taiwan', 8],
+  ['JP', 'Japan', 9],
+  ['KR', 'South Korea', 9, ['korea', 'republic of korea']],
+  ['AU', 'Australia', [8, 10]],
+  ['NZ', 'New Zealand', 12],
+];
+
+const EU = ['AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE', 'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE'];
+const EUROPE = [...EU, 'GB', 'CH', 'NO', 'IS', 'RS', 'UA'];
+const LATAM = ['MX', 'BR', 'AR', 'CL', 'CO', 'PE', 'UY'];
+const APAC = ['IN', 'PK', 'BD', 'SG', 'MY', 'ID', 'TH', 'VN', 'PH', 'CN', 'HK', 'TW', 'JP', 'KR', 'AU', 'NZ'];
+
+export const GEO_AREAS: GeoArea[] = [
+  { name: 'European Union', aliases: ['eu'], countries: EU },
+  { name: 'European Economic Area', aliases: ['eea'], countries: [...EU, 'NO', 'IS'] },
+  { name: 'Europe', aliases: ['european', 'cet', 'cet timezone'], countries: EUROPE },
+  { name: 'EMEA', aliases: [], countries: [...EUROPE, 'TR', 'IL', 'AE', 'SA', 'EG', 'ZA', 'NG', 'KE'] },
+  { name: 'DACH', aliases: [], countries: ['DE', 'AT', 'CH'] },
+  { name: 'Benelux', aliases: [], countries: ['BE', 'NL', 'LU'] },
+  { name: 'Nordics', aliases: ['nordic countries', 'scandinavia'], countries: ['DK', 'SE', 'NO', 'FI', 'IS'] },
+  { name: 'North America', aliases: ['americas'], countries: ['US', 'CA', 'MX'] },
+  { name: 'Latin America', aliases: ['latam', 'south america'], countries: LATAM },
+  { name: 'APAC', aliases: ['asia pacific', 'asia-pacific', 'asia'], countries: APAC },
+];
+
+/** US states and Canadian provinces by postal abbreviation; LinkedIn writes "Austin, TX". */
+export const GEO_REGIONS: Record<string, { name: string; country: string }> = Object.fromEntries(
+  [
+    ['US', 'AL Alabama|AK Alaska|AZ Arizona|AR Arkansas|CA California|CO Colorado|CT Connecticut|DE Delaware|DC District of Columbia|FL Florida|GA Georgia|HI Hawaii|ID Idaho|IL Illinois|IN Indiana|IA Iowa|KS Kansas|KY Kentucky|LA Louisiana|ME Maine|MD Maryland|MA Massachusetts|MI Michigan|MN Minnesota|MS Mississippi|MO Missouri|MT Montana|NE Nebraska|NV Nevada|NH New Hampshire|NJ New Jersey|NM New Mexico|NY New York|NC North Carolina|ND North Dakota|OH Ohio|OK Oklahoma|OR Oregon|PA Pennsylvania|RI Rhode Island|SC South Carolina|SD South Dakota|TN Tennessee|TX Texas|UT Utah|VT Vermont|VA Virginia|WA Washington|WV West Virginia|WI Wisconsin|WY Wyoming'],
+    ['CA', 'AB Alberta|BC British Columbia|MB Manitoba|NB New Brunswick|NL Newfoundland and Labrador|NS Nova Scotia|ON Ontario|PE Prince Edward Island|QC Quebec|SK Saskatchewan'],
+  ].flatMap(([country, list]) =>
+    list.split('|').map((entry) => [entry.slice(0, 2), { name: entry.slice(3), country }] as const)
+  )
+);
+
+const CITY_ROWS: CityRow[] = [
+  // North America
+  ['New York', 'US', 40.71, -74.01, -5, ['new york city', 'nyc', 'manhattan', 'brooklyn']],
+  ['San Francisco', 'US', 37.77, -122.42, -8, ['sf', 'san francisco bay']],
+  ['San Jose', 'US', 37.34, -121.89, -8, ['silicon valley']],
+  ['Oakland', 'US', 37.8, -122.27, -8],
+  ['Palo Alto', 'US', 37.44, -122.14, -8],
+  ['Mountain View', 'US', 37.39, -122.08, -8],
+  ['Sunnyvale', 'US', 37.37, -122.04, -8],
+  ['Menlo Park', 'US', 37.45, -122.18, -8],
+  ['Los Angeles', 'US', 34.05, -118.24, -8, ['la']],
+  ['Irvine', 'US', 33.68, -117.83, -8],
+  ['San Diego', 'US', 32.72, -117.16, -8],
+  ['Sacramento', 'US', 38.58, -121.49, -8],
+  ['Las Vegas', 'US', 36.17, -115.14, -8],
+  ['Seattle', 'US', 47.61, -122.33, -8],
+  ['Redmond', 'US', 47.67, -122.12, -8],
+  ['Bellevue', 'US', 47.61, -122.2, -8],
+  ['Portland', 'US', 45.52, -122.68, -8],
+  ['Phoenix', 'US', 33.45, -112.07, -7],
+  ['Denver', 'US', 39.74, -104.99, -7],
+  ['Boulder', 'US', 40.01, -105.27, -7],
+  ['Salt Lake City', 'US', 40.76, -111.89, -7],
+  ['Austin', 'US', 30.27, -97.74, -6],
+  ['Dallas', 'US', 32.78, -96.8, -6, ['dallas-fort worth', 'dfw']],
+  ['Houston', 'US', 29.76, -95.37, -6],
+  ['Chicago', 'US', 41.88, -87.63, -6],
+  ['Minneapolis', 'US', 44.98, -93.27, -6, ['minneapolis-st. paul']],
+  ['St. Louis', 'US', 38.63, -90.2, -6, ['saint louis', 'st louis']],
+  ['Nashville', 'US', 36.16, -86.78, -6],
+  ['Atlanta', 'US', 33.75, -84.39, -5],
+  ['Miami', 'US', 25.76, -80.19, -5, ['miami-fort lauderdale']],
+  ['Detroit', 'US', 42.33, -83.05, -5],
+  ['Columbus', 'US', 39.96, -83.0, -5],
+  ['Pittsburgh', 'US', 40.44, -79.99, -5],
+  ['Charlotte', 'US', 35.23, -80.84, -5],
+  ['Raleigh', 'US', 35.78, -78.64, -5, ['raleigh-durham', 'research triangle']],
+  ['Washington', 'US', 38.91, -77.04, -5, ['washington dc', 'washington d.c.', 'dc', 'washington dc-baltimore']],
+  ['Baltimore', 'US', 39.29, -76.61, -5],
+  ['Philadelphia', 'US', 39.95, -75.17, -5],
+  ['Boston', 'US', 42.36, -71.06, -5],
+  ['Toronto', 'CA', 43.65, -79.38, -5],
+  ['Ottawa', 'CA', 45.42, -75.7, -5],
+  ['Montreal', 'CA', 45.5, -73.57, -5, ['montréal']],
+  ['Waterloo', 'CA', 43.46, -80.52, -5, ['kitchener']],
+  ['Vancouver', 'CA', 49.28, -123.12, -8],
+  ['Calgary', 'CA', 51.05, -114.07, -7],
+  ['Edmonton', 'CA', 53.55, -113.49, -7],
+  ['Mexico City', 'MX', 19.43, -99.13, -6, ['cdmx', 'ciudad de mexico', 'ciudad de méxico']],
+  ['Guadalajara', 'MX', 20.66, -103.35, -6],
+  ['Monterrey', 'MX', 25.69, -100.32, -6],
+  // South America
+  ['São Paulo', 'BR', -23.55, -46.63, -3, ['sao paulo']],
+  ['Rio de Janeiro', 'BR', -22.91, -43.17, -3],
+  ['Buenos Aires', 'AR', -34.6, -58.38, -3],
+  ['Santiago', 'CL', -33.45, -70.67, -4],
+  ['Bogotá', 'CO', 4.71, -74.07, -5, ['bogota']],
+  ['Medellín', 'CO', 6.24, -75.58, -5, ['medellin']],
+  ['Lima', 'PE', -12.05, -77.04, -5],
+  ['Montevideo', 'UY', -34.9, -56.16, -3],
+  // British Isles
+  ['London', 'GB', 51.51, -0.13, 0, ['city of london']],
+  ['Cambridge', 'GB', 52.21, 0.12, 0],
+  ['Oxford', 'GB', 51.75, -1.26, 0],
+  ['Reading', 'GB', 51.45, -0.97, 0],
+  ['Bristol', 'GB', 51.45, -2.59, 0],
+  ['Birmingham', 'GB', 52.49, -1.89, 0],
+  ['Manchester', 'GB', 53.48, -2.24, 0],
+  ['Leeds', 'GB', 53.8, -1.55, 0],
+  ['Newcastle upon Tyne', 'GB', 54.98, -1.62, 0, ['newcastle']],
+  ['Edinburgh', 'GB', 55.95, -3.19, 0],
+  ['Glasgow', 'GB', 55.86, -4.25, 0],
+  ['Belfast', 'GB', 54.6, -5.93, 0],
+  ['Dublin', 'IE', 53.35, -6.26, 0],
+  ['Cork', 'IE', 51.9, -8.47, 0],
+  ['Galway', 'IE', 53.27, -9.05, 0],
+  // Western Europe
+  ['Paris', 'FR', 48.86, 2.35, 1, ['île-de-france', 'ile-de-france']],
+  ['Lyon', 'FR', 45.76, 4.84, 1],
+  ['Marseille', 'FR', 43.3, 5.37, 1],
+  ['Toulouse', 'FR', 43.6, 1.44, 1],
+  ['Nice', 'FR', 43.7, 7.27, 1, ['sophia antipolis']],
+  ['Bordeaux', 'FR', 44.84, -0.58, 1],
+  ['Nantes', 'FR', 47.22, -1.55, 1],
+  ['Lille', 'FR', 50.63, 3.06, 1],
+  ['Berlin', 'DE', 52.52, 13.4, 1],
+  ['Hamburg', 'DE', 53.55, 9.99, 1],
+  ['Munich', 'DE', 48.14, 11.58, 1, ['münchen', 'muenchen']],
+  ['Frankfurt', 'DE', 50.11, 8.68, 1, ['frankfurt am main', 'rhine-main']],
+  ['Cologne', 'DE', 50.94, 6.96, 1, ['köln', 'koln', 'koeln']],
+  ['Düsseldorf', 'DE', 51.23, 6.77, 1, ['dusseldorf', 'duesseldorf']],
+  ['Bonn', 'DE', 50.74, 7.1, 1],
+  ['Stuttgart', 'DE', 48.78, 9.18, 1],
+  ['Karlsruhe', 'DE', 49.01, 8.4, 1],
+  ['Heidelberg', 'DE', 49.4, 8.69, 1],
+  ['Nuremberg', 'DE', 49.45, 11.08, 1, ['nürnberg', 'nurnberg']],
+  ['Leipzig', 'DE', 51.34, 12.37, 1],
+  ['Dresden', 'DE', 51.05, 13.74, 1],
+  ['Hanover', 'DE', 52.38, 9.73, 1, ['hannover']],
+  ['Bremen', 'DE', 53.08, 8.8, 1],
+  ['Amsterdam', 'NL', 52.37, 4.9, 1],
+  ['Rotterdam', 'NL', 51.92, 4.48, 1],
+  ['The Hague', 'NL', 52.08, 4.3, 1, ['den haag', 'hague', "'s-gravenhage"]],
+  ['Utrecht', 'NL', 52.09, 5.12, 1],
+  ['Eindhoven', 'NL', 51.44, 5.47, 1],
+  ['Delft', 'NL', 52.01, 4.36, 1],
+  ['Leiden', 'NL', 52.16, 4.5, 1],
+  ['Haarlem', 'NL', 52.38, 4.64, 1],
+  ['Groningen', 'NL', 53.22, 6.57, 1],
+  ['Brussels', 'BE', 50.85, 4.35, 1, ['bruxelles', 'brussel']],
+  ['Antwerp', 'BE', 51.22, 4.4, 1, ['antwerpen']],
+  ['Ghent', 'BE', 51.05, 3.72, 1, ['gent']],
+  ['Leuven', 'BE', 50.88, 4.7, 1],
+  ['Luxembourg', 'LU', 49.61, 6.13, 1, ['luxembourg city']],
+  ['Zurich', 'CH', 47.37, 8.54, 1, ['zürich']],
+  ['Geneva', 'CH', 46.2, 6.14, 1, ['genève', 'geneve', 'genf']],
+  ['Basel', 'CH', 47.56, 7.59, 1],
+  ['Bern', 'CH', 46.95, 7.45, 1],
+  ['Lausanne', 'CH', 46.52, 6.63, 1],
+  ['Vienna', 'AT', 48.21, 16.37, 1, ['wien']],
+  ['Graz', 'AT', 47.07, 15.44, 1],
+  ['Linz', 'AT', 48.31, 14.29, 1],
+  ['Madrid', 'ES', 40.42, -3.7, 1],
+  ['Barcelona', 'ES', 41.39, 2.17, 1],
+  ['Valencia', 'ES', 39.47, -0.38, 1],
+  ['Seville', 'ES', 37.39, -5.98, 1, ['sevilla']],
+  ['Málaga', 'ES', 36.72, -4.42, 1, ['malaga']],
+  ['Bilbao', 'ES', 43.26, -2.93, 1],
+  ['Lisbon', 'PT', 38.72, -9.14, 0, ['lisboa']],
+  ['Porto', 'PT', 41.15, -8.61, 0],
+  ['Milan', 'IT', 45.46, 9.19, 1, ['milano']],
+  ['Rome', 'IT', 41.9, 12.5, 1, ['roma']],
+  ['Turin', 'IT', 45.07, 7.69, 1, ['torino']],
+  ['Bologna', 'IT', 44.49, 11.34, 1],
+  ['Florence', 'IT', 43.77, 11.26, 1, ['firenze']],
+  ['Valletta', 'MT', 35.9, 14.51, 1, ['malta']],
+  // Nordics and Baltics
+  ['Copenhagen', 'DK', 55.68, 12.57, 1, ['københavn', 'kobenhavn']],
+  ['Aarhus', 'DK', 56.16, 10.2, 1, ['århus']],
+  ['Stockholm', 'SE', 59.33, 18.07, 1],
+  ['Gothenburg', 'SE', 57.71, 11.97, 1, ['göteborg', 'goteborg']],
+  ['Malmö', 'SE', 55.6, 13.0, 1, ['malmo']],
+  ['Oslo', 'NO', 59.91, 10.75, 1],
+  ['Bergen', 'NO', 60.39, 5.32, 1],
+  ['Trondheim', 'NO', 63.43, 10.4, 1],
+  ['Helsinki', 'FI', 60.17, 24.94, 2],
+  ['Espoo', 'FI', 60.21, 24.66, 2],
+  ['Tampere', 'FI', 61.5, 23.76, 2],
+  ['Reykjavík', 'IS', 64.15, -21.94, 0, ['reykjavik']],
+  ['Tallinn', 'EE', 59.44, 24.75, 2],
+  ['Tartu', 'EE', 58.38, 26.73, 2],
+  ['Riga', 'LV', 56.95, 24.11, 2],
+  ['Vilnius', 'LT', 54.69, 25.28, 2],
+  ['Kaunas', 'LT', 54.9, 23.9, 2],
+  // Central and Eastern Europe
+  ['Warsaw', 'PL', 52.23, 21.01, 1, ['warszawa']],
+  ['Kraków', 'PL', 50.06, 19.94, 1, ['krakow', 'cracow']],
+  ['Wrocław', 'PL', 51.11, 17.04, 1, ['wroclaw']],
+  ['Gdańsk', 'PL', 54.35, 18.65, 1, ['gdansk', 'tricity']],
+  ['Poznań', 'PL', 52.41, 16.93, 1, ['poznan']],
+  ['Łódź', 'PL', 51.76, 19.46, 1, ['lodz']],
+  ['Katowice', 'PL', 50.26, 19.02, 1],
+  ['Prague', 'CZ', 50.08, 14.44, 1, ['praha']],
+  ['Brno', 'CZ', 49.2, 16.61, 1],
+  ['Bratislava', 'SK', 48.15, 17.11, 1],
+  ['Budapest', 'HU', 47.5, 19.04, 1],
+  ['Bucharest', 'RO', 44.43, 26.1, 2, ['bucurești', 'bucuresti']],
+  ['Cluj-Napoca', 'RO', 46.77, 23.6, 2, ['cluj']],
+  ['Iași', 'RO', 47.16, 27.59, 2, ['iasi']],
+  ['Sofia', 'BG', 42.7, 23.32, 2],
+  ['Athens', 'GR', 37.98, 23.73, 2, ['athina']],
+  ['Thessaloniki', 'GR', 40.64, 22.94, 2],
+  ['Nicosia', 'CY', 35.19, 33.38, 2],
+  ['Limassol', 'CY', 34.68, 33.04, 2],
+  ['Zagreb', 'HR', 45.81, 15.98, 1],
+  ['Ljubljana', 'SI', 46.06, 14.51, 1],
+  ['Belgrade', 'RS', 44.79, 20.45, 1, ['beograd']],
+  ['Novi Sad', 'RS', 45.27, 19.83, 1],
+  ['Kyiv', 'UA', 50.45, 30.52, 2, ['kiev']],
+  ['Lviv', 'UA', 49.84, 24.03, 2],
+  // Middle East and Africa
+  ['Istanbul', 'TR', 41.01, 28.98, 3],
+  ['Ankara', 'TR', 39.93, 32.86, 3],
+  ['Tel Aviv', 'IL', 32.09, 34.78, 2, ['tel aviv-yafo', 'tel aviv-jaffa']],
+  ['Haifa', 'IL', 32.79, 34.99, 2],
+  ['Jerusalem', 'IL', 31.77, 35.21, 2],
+  ['Dubai', 'AE', 25.2, 55.27, 4],
+  ['Abu Dhabi', 'AE', 24.45, 54.38, 4],
+  ['Riyadh', 'SA', 24.71, 46.68, 3],
+  ['Cairo', 'EG', 30.04, 31.24, 2],
+  ['Cape Town', 'ZA', -33.92, 18.42, 2],
+  ['Johannesburg', 'ZA', -26.2, 28.05, 2],
+  ['Lagos', 'NG', 6.52, 3.38, 1],
+  ['Nairobi', 'KE', -1.29, 36.82, 3],
+  // Asia
+  ['Bengaluru', 'IN', 12.97, 77.59, 5.5, ['bangalore']],
+  ['Mumbai', 'IN', 19.08, 72.88, 5.5, ['bombay']],
+  ['Delhi', 'IN', 28.61, 77.21, 5.5, ['new delhi']],
+  ['Gurugram', 'IN', 28.46, 77.03, 5.5, ['gurgaon']],
+  ['Noida', 'IN', 28.54, 77.39, 5.5],
+  ['Hyderabad', 'IN', 17.39, 78.49, 5.5],
+  ['Pune', 'IN', 18.52, 73.86, 5.5],
+  ['Chennai', 'IN', 13.08, 80.27, 5.5, ['madras']],
+  ['Kolkata', 'IN', 22.57, 88.36, 5.5, ['calcutta']],
+  ['Karachi', 'PK', 24.86, 67.0, 5],
+  ['Lahore', 'PK', 31.55, 74.34, 5],
+  ['Dhaka', 'BD', 23.81, 90.41, 6],
+  ['Singapore', 'SG', 1.35, 103.82, 8],
+  ['Kuala Lumpur', 'MY', 3.14, 101.69, 8],
+  ['Jakarta', 'ID', -6.21, 106.85, 7],
+  ['Bangkok', 'TH', 13.76, 100.5, 7],
+  ['Ho Chi Minh City', 'VN', 10.82, 106.63, 7, ['saigon']],
+  ['Hanoi', 'VN', 21.03, 105.85, 7],
+  ['Manila', 'PH', 14.6, 120.98, 8, ['metro manila']],
+  ['Hong Kong', 'HK', 22.32, 114.17, 8],
+  ['Shenzhen', 'CN', 22.54, 114.06, 8],
+  ['Shanghai', 'CN', 31.23, 121.47, 8],
+  ['Beijing', 'CN', 39.9, 116.41, 8],
+  ['Hangzhou', 'CN', 30.27, 120.16, 8],
+  ['Taipei', 'TW', 25.03, 121.57, 8],
+  ['Seoul', 'KR', 37.57, 126.98, 9],
+  ['Tokyo', 'JP', 35.68, 139.69, 9],
+  ['Osaka', 'JP', 34.69, 135.5, 9],
+  // Oceania
+  ['Sydney', 'AU', -33.87, 151.21, 10],
+  ['Melbourne', 'AU', -37.81, 144.96, 10],
+  ['Brisbane', 'AU', -27.47, 153.03, 10],
+  ['Canberra', 'AU', -35.28, 149.13, 10],
+  ['Adelaide', 'AU', -34.93, 138.6, 9.5],
+  ['Perth', 'AU', -31.95, 115.86, 8],
+  ['Auckland', 'NZ', -36.85, 174.76, 12],
+  ['Wellington', 'NZ', -41.29, 174.78, 12],
+  ['Christchurch', 'NZ', -43.53, 172.64, 12],
+];
+
+export const GEO_CITIES: GeoCity[] = CITY_ROWS.map(([name, country, lat, lon, utcOffset, aliases = []]) => ({
+  name,
+  country,
+  lat,
+  lon,
+  utcOffset,
+  aliases,
+}));
+
+export const GEO_COUNTRIES: GeoCountry[] = COUNTRY_ROWS.map(([code, name, offsets, aliases = []]) => ({
+  code,
+  name,
+  aliases,
+  utcOffsets: typeof offsets === 'number' ? [offsets, offsets] : offsets,
+}));
+
+/** Lowercase, accents stripped, whitespace collapsed: the form every lookup key is stored in. */
+export function normalizePlaceName(s: string): string {
+  return s
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function indexBy<T>(items: T[], keys: (item: T) => string[]): Map<string, T[]> {
+  const index = new Map<string, T[]>();
+  for (const item of items) {
+    for (const key of keys(item)) {
+      const k = normalizePlaceName(key);
+      index.set(k, [...(index.get(k) ?? []), item]);
+    }
+  }
+  return index;
+}
+
+const CITY_INDEX = indexBy(GEO_CITIES, (c) => [c.name, ...c.aliases]);
+const COUNTRY_INDEX = indexBy(GEO_COUNTRIES, (c) => [c.code, c.name, ...c.aliases]);
+const AREA_INDEX = indexBy(GEO_AREAS, (a) => [a.name, ...a.aliases]);
+
+/** City by name or alias; with `countries`, only cities in one of them. */
+export function findCity(name: string, countries?: string[]): GeoCity | null {
+  const matches = CITY_INDEX.get(normalizePlaceName(name)) ?? [];
+  return matches.find((c) => !countries?.length || countries.includes(c.country)) ?? null;
+}
+
+/** Country by ISO code, name or alias. */
+export function findCountry(name: string): GeoCountry | null {
+  return COUNTRY_INDEX.get(normalizePlaceName(name))?.[0] ?? null;
+}
+
+/** Multi-country area ("Europe", "LATAM"). */
+export function findArea(name: string): GeoArea | null {
+  return AREA_INDEX.get(normalizePlaceName(name))?.[0] ?? null;
+}
+
+/** Display name for an ISO country code (the code itself when unknown). */
+export function countryName(code: string): string {
+  return GEO_COUNTRIES.find((c) => c.code === code)?.name ?? code;
+}
@@ -0,0 +1,412 @@
+/**
+ * Structured job facts (salary, employment type, workplace, seniority, experience, languages, visa,
+ * clearance): parsers for what LinkedIn exposes on the page (JSON-LD, insight chips, description text),
+ * the merge with the model's reading of the posting, and the chip labels shown with a result.
+ * Shared by the content script, the service worker and the panel, so it must stay free of DOM and chrome APIs.
+ */
+
+import type {
+  EmploymentType,
+  JobData,
+  JobFacts,
+  JobFactSources,
+  SalaryPeriod,
+  SalaryRange,
+  SeniorityLevel,
+  WorkplaceType,
+} from './types';
+
+export const SENIORITY_LABELS: Record<SeniorityLevel, string> = {
+  intern: 'Intern',
+  junior: 'Junior',
+  mid: 'Mid-level',
+  senior: 'Senior',
+  lead: 'Lead / Staff / Principal',
+  manager: 'Manager / Director',
+};
+
+export const WORKPLACE_LABELS: Record<WorkplaceType, string> = {
+  remote: 'Remote',
+  hybrid: 'Hybrid',
+  onsite: 'On-site',
+};
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  full_time: 'Full-time',
+  part_time: 'Part-time',
+  contract: 'Contract',
+  temporary: 'Temporary',
+  internship: 'Internship',
+  volunteer: 'Volunteer',
+};
+
+export const SALARY_PERIODS: SalaryPeriod[] = ['hour', 'day', 'week', 'month', 'year'];
+
+const PERIOD_SHORT: Record<SalaryPeriod, string> = { hour: 'hr', day: 'day', week: 'wk', month: 'mo', year: 'yr' };
+
+/** Checked in order against the title; the first match wins (so "Senior Engineering Manager" is a manager). */
+const SENIORITY_PATTERNS: Array<[SeniorityLevel, RegExp]> = [
+  ['intern', /\b(intern|internship|trainee|werkstudent|working student)\b/i],
+  ['manager', /\b(manager|director|head of|vp|vice president|chief)\b/i],
+  ['lead', /\b(lead|staff|principal|architect|distinguished)\b/i],
+  ['senior', /\b(senior|sr)\b/i],
+  ['junior', /\b(junior|jr|entry[- ]level|graduate|associate)\b/i],
+  ['mid', /\b(mid[- ]?level|intermediate|medior)\b/i],
+];
+
+/** Seniority from a job title, or null when the title does not say. */
+export function seniorityFromTitle(title: string): SeniorityLevel | null {
+  for (const [level, pattern] of SENIORITY_PATTERNS) {
+    if (pattern.test(title)) return level;
+  }
+  return null;
+}
+
+const LOCATION_WORKPLACE: Array<[WorkplaceType, RegExp]> = [
+  ['remote', /\bremote\b/i],
+  ['hybrid', /\bhybrid\b/i],
+  ['onsite', /\bon[- ]?site\b/i],
+];
+
+const DESCRIPTION_WORKPLACE: Array<[WorkplaceType, RegExp]> = [
+  ['onsite', /\b(fully|100%|strictly) (on[- ]?site|in[- ]office)\b|\bon[- ]?site only\b|\boffice[- ]based\b|\b5 days (a week )?in the office\b/i],
+  ['hybrid', /\bhybrid\b|\b[1-4] days (a|per) week in the office\b/i],
+  ['remote', /\b(fully|100%) remote\b|\bremote[- ]first\b|\bwork from anywhere\b/i],
+];
+
+/** Workplace type from LinkedIn's location badge ("Berlin (Hybrid)"), else from clear phrases in the description. */
+export function workplaceFromText(location: string, description: string): WorkplaceType | null {
+  for (const [type, pattern] of LOCATION_WORKPLACE) {
+    if (pattern.test(location)) return type;
+  }
+  for (const [type, pattern] of DESCRIPTION_WORKPLACE) {
+    if (pattern.test(description)) return type;
+  }
+  return null;
+}
+
+const NO_SPONSORSHIP =
+  /\b(no|not|without|unable to|cannot|can ?not|won't|will not|do not|does not|don't) (offer |provide |be able to )?(visa )?sponsor(ship|ing)?\b|\bsponsorship (is )?not (available|offered|possible)\b|\bnot eligible for (visa )?sponsorship\b/i;
+const OFFERS_SPONSORSHIP =
+  /\b(visa )?sponsorship (is )?(available|offered|provided)\b|\bwe (will |can |do )?sponsor (your |work )?visas?\b|\brelocation and visa support\b/i;
+
+/** false when the description rules out visa sponsorship, true when it offers it, null when it does not say. */
+export function visaSponsorshipFromText(description: string): boolean | null {
+  if (NO_SPONSORSHIP.test(description)) return false;
+  if (OFFERS_SPONSORSHIP.test(description)) return true;
+  return null;
+}
+
+const CURRENCY_TOKENS: Record<string, string> = {
+  'US$': 'USD',
+  'CA$': 'CAD',
+  'C$': 'CAD',
+  'A$': 'AUD',
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '₹': 'INR',
+};
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'INR', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'JPY', 'SGD', 'NZD'];
+const CURRENCY = `(US\\$|CA\\$|C\\$|A\\$|\\$|€|£|₹|${CURRENCY_CODES.join('|')})`;
+/** Indian digit grouping: lakhs and crores in pairs before the last three digits ("25,00,000"). */
+const INDIAN_GROUPED = /^\d{1,2}(?:,\d{2})+,\d{3}$/;
+const AMOUNT =
+  '(\\d{1,2}(?:,\\d{2})+,\\d{3}|\\d{1,3}(?:[.,\\s]\\d{3})+|\\d+(?:[.,]\\d{1,2})?)' +
+  '\\s?([kK]|(?:[lL]akhs?|[lL]acs?|LPA|lpa|L|[cC]rores?|[cC]r)\\b)?';
+/** `[cur] amount[suffix] [cur]`, optionally followed by `- [cur] amount[suffix] [cur]`. */
+const SALARY_RANGE = new RegExp(
+  `${CURRENCY}?\\s?${AMOUNT}\\s?${CURRENCY}?(?:\\s?/\\s?\\w+)?(?:\\s*(?:-|–|—|to)\\s*${CURRENCY}?\\s?${AMOUNT}\\s?${CURRENCY}?)?`,
+  'g'
+);
+const PERIOD_WORDS: Array<[SalaryPeriod, RegExp]> = [
+  ['hour', /^\s*(\/\s?|per |an? )?(hr|hour|hourly)\b/i],
+  ['day', /^\s*(\/\s?|per |a )?(day|daily)\b/i],
+  ['week', /^\s*(\/\s?|per |a )?(wk|week|weekly)\b/i],
+  ['month', /^\s*(\/\s?|per |a )?(mo|month|monthly)\b/i],
+  ['year', /^\s*(\/\s?|per |an? )?(yr|year|annum|annually|annual|pa|p\.a\.)\b/i],
+];
+
+/** Multiplier for an amount suffix: thousands, lakhs (100,000, "LPA" = lakhs per annum) or crores (10 million). */
+function suffixMultiplier(suffix: string | undefined): number {
+  if (!suffix) return 1;
+  if (/^k$/i.test(suffix)) return 1000;
+  if (/^c/i.test(suffix)) return 10_000_000;
+  return 100_000;
+}
+
+function parseAmount(digits: string, suffix: string | undefined): number {
+  const grouped = INDIAN_GROUPED.test(digits) || /^\d{1,3}(?:[.,\s]\d{3})+$/.test(digits);
+  const n = grouped ? Number(digits.replace(/[.,\s]/g, '')) : Number(digits.replace(',', '.'));
+  return n * suffixMultiplier(suffix);
+}
+
+/**
+ * First salary amount or range with a currency in `text` ("$120K/yr - $150K/yr", "€60.000 – €80.000 a year",
+ * "₹25,00,000 – ₹35,00,000", "₹25-35 LPA").
+ */
+export function parseSalaryText(text: string): SalaryRange | null {
+  for (const m of text.matchAll(SALARY_RANGE)) {
+    const currencyToken = m[1] ?? m[4] ?? m[5] ?? m[8];
+    if (!currencyToken) continue;
+    // "25-35 LPA", "$120-150K": a suffix written only on the upper bound applies to both
+    const min = parseAmount(m[2], m[3] ?? (m[6] ? m[7] : undefined));
+    const max = m[6] ? parseAmount(m[6], m[7]) : min;
+    if (!Number.isFinite(min) || !Number.isFinite(max) || max <= 0) continue;
+    const after = text.slice(m.index! + m[0].length - (m[0].match(/\/\s?\w+$/)?.[0].length ?? 0));
+    const perAnnum = /^lpa$/i.test(m[7] ?? m[3] ?? '');
+    const period = perAnnum ? 'year' : PERIOD_WORDS.find(([, re]) => re.test(after))?.[0] ?? null;
+    return {
+      min: Math.min(min, max),
+      max: Math.max(min, max),
+      currency: CURRENCY_TOKENS[currencyToken] ?? currencyToken.toUpperCase(),
+      period,
+    };
+  }
+  return null;
+}
+
+const EMPLOYMENT_TEXT: Array<[EmploymentType, RegExp]> = [
+  ['full_time', /^full[- ]?time$/i],
+  ['part_time', /^part[- ]?time$/i],
+  ['contract', /^(contract|contractor|freelance)$/i],
+  ['temporary', /^temporary$/i],
+  ['internship', /^internship$/i],
+  ['volunteer', /^volunteer$/i],
+];
+
+/** LinkedIn's "experience level" chip; "Mid-Senior level" is too broad to map and is left to the title or model. */
+const LINKEDIN_LEVELS: Record<string, SeniorityLevel> = {
+  internship: 'intern',
+  'entry level': 'junior',
+  associate: 'junior',
+  director: 'manager',
+  executive: 'manager',
+};
+
+/** Facts from LinkedIn's top-card insight chips ("$120K/yr - $150K/yr · Remote · Full-time · Entry level"). */
+export function factsFromInsightTexts(texts: string[]): JobFacts {
+  const facts: JobFacts = {};
+  const parts = texts.flatMap((t) => t.split(/[·•\n]/)).map((t) => t.replace(/\s+/g, ' ').trim());
+  for (const part of parts) {
+    if (!part) continue;
+    if (!facts.salary) {
+      const salary = parseSalaryText(part);
+      if (salary) {
+        facts.salary = salary;
+        continue;
+      }
+    }
+    const employment = EMPLOYMENT_TEXT.find(([, re]) => re.test(part))?.[0];
+    if (employment && !facts.employmentType) {
+      facts.employmentType = employment;
+      // "Internship" is both an employment type and a level
+      if (employment === 'internship') facts.seniority ??= 'intern';
+      continue;
+    }
+    const workplace = /^(remote|hybrid|on[- ]?site)$/i.exec(part);
+    if (workplace && !facts.workplaceType) {
+      facts.workplaceType = workplace[1].toLowerCase() === 'remote' ? 'remote' : workplace[1].toLowerCase() === 'hybrid' ? 'hybrid' : 'onsite';
+      continue;
+    }
+    const level = LINKEDIN_LEVELS[part.toLowerCase()];
+    if (level && !facts.seniority) facts.seniority = level;
+  }
+  return facts;
+}
+
+const JSON_LD_EMPLOYMENT: Record<string, EmploymentType> = {
+  FULL_TIME: 'full_time',
+  PART_TIME: 'part_time',
+  CONTRACTOR: 'contract',
+  TEMPORARY: 'temporary',
+  INTERN: 'internship',
+  VOLUNTEER: 'volunteer',
+};
+
+const JSON_LD_PERIODS: Record<string, SalaryPeriod> = { HOUR: 'hour', DAY: 'day', WEEK: 'week', MONTH: 'month', YEAR: 'year' };
+
+function toNumber(value: unknown): number | null {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+}
+
+/** Facts from a schema.org JobPosting (baseSalary, employmentType, jobLocationType, experienceRequirements). */
+export function factsFromJsonLd(posting: Record<string, unknown>): JobFacts {
+  const facts: JobFacts = {};
+  const base = posting.baseSalary as { currency?: string; value?: unknown } | undefined;
+  if (base && typeof base === 'object') {
+    const value = base.value;
+    const q = value && typeof value === 'object' ? (value as Record<string, unknown>) : { value };
+    const min = toNumber(q.minValue) ?? toNumber(q.value);
+    const max = toNumber(q.maxValue) ?? min;
+    if (min != null || max != null) {
+      facts.salary = {
+        min,
+        max,
+        currency: typeof base.currency === 'string' ? base.currency.toUpperCase() : null,
+        period: JSON_LD_PERIODS[String(q.unitText ?? '').toUpperCase()] ?? null,
+      };
+    }
+  }
+  const employment = Array.isArray(posting.employmentType) ? posting.employmentType[0] : posting.employmentType;
+  if (typeof employment === 'string') facts.employmentType = JSON_LD_EMPLOYMENT[employment.toUpperCase()] ?? null;
+  if (posting.jobLocationType === 'TELECOMMUTE') facts.workplaceType = 'remote';
+  const experience = posting.experienceRequirements as { monthsOfExperience?: unknown } | string | undefined;
+  const months = experience && typeof experience === 'object' ? toNumber(experience.monthsOfExperience) : null;
+  if (months != null) facts.yearsRequired = Math.round(months / 12);
+  return facts;
+}
+
+const LANGUAGES = [
+  'English', 'German', 'Dutch', 'French', 'Spanish', 'Italian', 'Portuguese', 'Polish', 'Swedish', 'Danish',
+  'Norwegian', 'Finnish', 'Czech', 'Hungarian', 'Romanian', 'Greek', 'Turkish', 'Russian', 'Ukrainian',
+  'Arabic', 'Hebrew', 'Hindi', 'Mandarin', 'Chinese', 'Cantonese', 'Japanese', 'Korean', 'Vietnamese',
+  'Thai', 'Indonesian', 'Malay',
+];
+const LANGUAGE_ALT = LANGUAGES.join('|');
+const LANGUAGE_REQUIREMENT = new RegExp(
+  `\\b(?:fluent|fluency|native|business[- ]level|business fluent|professional(?: working)? proficiency|proficient|proficiency|excellent|strong|very good|written and spoken|spoken and written|C1|C2)\\b[^.;\\n]{0,30}?\\b(${LANGUAGE_ALT})\\b|\\b(${LANGUAGE_ALT})\\b[^.;\\n]{0,20}?\\b(?:is (?:a )?(?:must|required|mandatory)|required|mandatory|fluency|\\(C1|\\(C2|C1|C2)\\b`,
+  'gi'
+);
+const YEARS_REQUIRED =
+  /\b(\d{1,2})\s*\+?\s*(?:(?:-|–|to)\s*\d{1,2}\s*)?(?:\+\s*)?years?\b[^.;\n]{0,20}?\bexperience\b|\bexperience\b[^.;\n]{0,20}?\b(\d{1,2})\s*\+?\s*years?\b/i;
+const CLEARANCE =
+  /\b(TS\/SCI|Top Secret|Secret|Public Trust|SC|DV|NV1|NV2|Baseline)\b[^.;\n]{0,15}?\bclearance\b|\bsecurity clearance\b/i;
+
+/** Facts stated in plain text in the description. */
+export function factsFromDescription(description: string): JobFacts {
+  const facts: JobFacts = {};
+  const salary = parseSalaryText(description);
+  if (salary) facts.salary = salary;
+  const years = YEARS_REQUIRED.exec(description);
+  if (years) facts.yearsRequired = Number(years[1] ?? years[2]);
+  const languages = new Set<string>();
+  for (const m of description.matchAll(LANGUAGE_REQUIREMENT)) {
+    const name = m[1] ?? m[2];
+    languages.add(LANGUAGES.find((l) => l.toLowerCase() === name.toLowerCase()) ?? name);
+  }
+  if (languages.size > 0) facts.languages = [...languages];
+  const visa = visaSponsorshipFromText(description);
+  if (visa != null) facts.visaSponsorship = visa;
+  const clearance = CLEARANCE.exec(description);
+  if (clearance) facts.securityClearance = clearance[1] ?? 'Required';
+  return facts;
+}
+
+/** Page facts for a job: each source only fills what earlier ones left empty. */
+export function factsFromPage(job: Pick<JobData, 'title' | 'description' | 'location'>, ...sources: JobFacts[]): JobFacts {
+  const derived: JobFacts = {
+    seniority: seniorityFromTitle(job.title),
+    workplaceType: workplaceFromText(job.location, job.description),
+  };
+  return [...sources, derived, factsFromDescription(job.description)].reduce(
+    (acc, next) => mergeJobFacts(acc, next).facts,
+    {} as JobFacts
+  );
+}
+
+function isEmptyFact(value: unknown): boolean {
+  return value == null || (Array.isArray(value) && value.length === 0);
+}
+
+/** `primary` (page) facts with gaps filled from `secondary` (model), plus where each value came from. */
+export function mergeJobFacts(
+  primary: JobFacts | undefined,
+  secondary: JobFacts | undefined
+): { facts: JobFacts; sources: JobFactSources } {
+  const facts: JobFacts = {};
+  const sources: JobFactSources = {};
+  const keys = new Set([...Object.keys(primary ?? {}), ...Object.keys(secondary ?? {})]) as Set<keyof JobFacts>;
+  for (const key of keys) {
+    const fromPrimary = primary?.[key];
+    const fromSecondary = secondary?.[key];
+    if (!isEmptyFact(fromPrimary)) {
+      (facts as Record<string, unknown>)[key] = fromPrimary;
+      sources[key] = 'page';
+    } else if (!isEmptyFact(fromSecondary)) {
+      (facts as Record<string, unknown>)[key] = fromSecondary;
+      sources[key] = 'model';
+    }
+  }
+  return { facts, sources };
+}
+
+function pick<T extends string>(value: unknown, allowed: readonly T[]): T | null {
+  return typeof value === 'string' && (allowed as readonly string[]).includes(value) ? (value as T) : null;
+}
+
+/** Facts from the model's flat `jobFacts` object; fields with the wrong type are dropped rather than rejected. */
+export function normalizeModelFacts(raw: unknown): JobFacts {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const r = raw as Record<string, unknown>;
+  const facts: JobFacts = {};
+  const min = toNumber(r.salaryMin);
+  const max = toNumber(r.salaryMax);
+  if (min != null || max != null) {
+    facts.salary = {
+      min: min ?? max,
+      max: max ?? min,
+      currency: typeof r.salaryCurrency === 'string' && r.salaryCurrency ? r.salaryCurrency.toUpperCase() : null,
+      period: pick(r.salaryPeriod, SALARY_PERIODS),
+    };
+  }
+  facts.employmentType = pick(r.employmentType, Object.keys(EMPLOYMENT_TYPE_LABELS) as EmploymentType[]);
+  facts.workplaceType = pick(r.workplaceType, Object.keys(WORKPLACE_LABELS) as WorkplaceType[]);
+  facts.seniority = pick(r.seniority, Object.keys(SENIORITY_LABELS) as SeniorityLevel[]);
+  const years = toNumber(r.yearsRequired);
+  facts.yearsRequired = years != null && years >= 0 && years < 50 ? years : null;
+  facts.languages = Array.isArray(r.languages) ? r.languages.filter((l): l is string => typeof l === 'string' && !!l.trim()) : [];
+  facts.visaSponsorship = typeof r.visaSponsorship === 'boolean' ? r.visaSponsorship : null;
+  facts.securityClearance = typeof r.securityClearance === 'string' && r.securityClearance.trim() ? r.securityClearance.trim() : null;
+  return facts;
+}
+
+const CURRENCY_SIGNS: Record<string, string> = { USD: '$', EUR: '€', GBP: '£', INR: '₹' };
+
+function formatAmount(n: number): string {
+  if (n >= 1000) {
+    const k = n / 1000;
+    return `${Number.isInteger(k) ? k : k.toFixed(1)}k`;
+  }
+  return String(Math.round(n * 100) / 100);
+}
+
+function currencySign(currency: string | null): string {
+  return currency ? CURRENCY_SIGNS[currency] ?? `${currency} ` : '';
+}
+
+/** Compact amount with its currency sign or code, e.g. "$120k", "CHF 95k". */
+export function formatMoney(amount: number, currency: string | null): string {
+  return `${currencySign(currency)}${formatAmount(amount)}`;
+}
+
+export function formatSalary(salary: SalaryRange): string {
+  const sign = currencySign(salary.currency);
+  const min = salary.min != null ? formatAmount(salary.min) : null;
+  const max = salary.max != null ? formatAmount(salary.max) : null;
+  const range = min && max && min !== max ? `${sign}${min}–${max}` : `${sign}${min ?? max}`;
+  return salary.period ? `${range} / ${PERIOD_SHORT[salary.period]}` : range;
+}
+
+export interface JobFactChip {
+  key: keyof JobFacts;
+  label: string;
+  source?: 'page' | 'model';
+}
+
+/** One chip per known fact, in a fixed order. */
+export function jobFactChips(facts: JobFacts | undefined, sources: JobFactSources = {}): JobFactChip[] {
+  if (!facts) return [];
+  const chips: JobFactChip[] = [];
+  const add = (key: keyof JobFacts, label: string) => chips.push({ key, label, source: sources[key] });
+  if (facts.salary) add('salary', formatSalary(facts.salary));
+  if (facts.employmentType) add('employmentType', EMPLOYMENT_TYPE_LABELS[facts.employmentType]);
+  if (facts.workplaceType) add('workplaceType', WORKPLACE_LABELS[facts.workplaceType]);
+  if (facts.seniority) add('seniority', SENIORITY_LABELS[facts.seniority]);
+  if (facts.yearsRequired != null) add('yearsRequired', `${facts.yearsRequired}+ yrs experience`);
+  if (facts.languages && facts.languages.length > 0) add('languages', facts.languages.join(', '));
+  if (facts.visaSponsorship != null) add('visaSponsorship', facts.visaSponsorship ? 'Visa sponsorship' : 'No visa sponsorship');
+  if (facts.securityClearance) add('securityClearance', `Clearance: ${facts.securityClearance}`);
+  return chips;
+}
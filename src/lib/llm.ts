@@ -1,43 +1,44 @@
-import type { JobData, ResumeRecord, EvaluationResult, EvaluationResultRaw, ApiProvider } from './types';
-import { buildUserPrompt, SYSTEM_PROMPT } from './prompts';
-
-const OLLAMA_ENDPOINT = 'http://127.0.0.1:11434/v1/chat/completions';
-const REQUEST_TIMEOUT_MS = 60_000;
-const OLLAMA_TIMEOUT_MS = 180_000; // local model can be slow on CPU
-
-/** Default model per provider; used when user does not set a custom model. */
-export const PROVIDER_MODELS: Record<ApiProvider, string> = {
-  ollama: 'llama3.1:8b',
-  openai: 'gpt-4o-mini',
-  anthropic: 'claude-haiku-4-5',
-  openrouter: 'tngtech/deepseek-r1t2-chimera:free',
-  google: 'gemini-3-flash-preview',
-  groq: 'openai/gpt-oss-120b',
-};
-
-const PROVIDER_ENDPOINTS: Record<ApiProvider, string> = {
-  ollama: OLLAMA_ENDPOINT,
-  openai: 'https://api.openai.com/v1/chat/completions',
-  anthropic: 'https://api.anthropic.com/v1/messages',
-  openrouter: 'https://openrouter.ai/api/v1/chat/completions',
-  google: 'https://generativelanguage.googleapis.com/v1beta/models',
-  groq: 'https://api.groq.com/openai/v1/chat/completions',
-};
-
-function getAuthHeader(provider: ApiProvider, apiKey: string): Record<string, string> {
-  if (provider === 'ollama') return {};
-  if (provider === 'anthropic') {
-    return {
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-      'content-type': 'application/json',
-    };
-  }
-  if (provider === 'google') {
-    return { 'x-goog-api-key': apiKey };
-  }
-  return { Authorization: `Bearer ${apiKey}` };
-}
+import type {
+  JobData,
+  ResumeRecord,
+  EvaluationResult,
+  EvaluationResultRaw,
+  ApiProvider,
+  PartialEvaluation,
+  CustomEndpointSettings,
+  TokenUsage,
+  PromptTemplateVersion,
+  RubricCriterion,
+  CompensationExpectation,
+  LocationProfile,
+  FeedbackRecord,
+} from './types';
+import { buildTriagePrompt, buildUserPrompt, DEFAULT_PROMPT_TEMPLATE, TRIAGE_PROMPT_TEMPLATE } from './prompts';
+import {
+  getProviderAdapter,
+  type ChatTurn,
+  type ProviderAdapter,
+  type ProviderRequestInput,
+  type UsageReport,
+} from './providers';
+import { estimateTokens } from './ratelimit';
+import { fitPromptToContext, getContextWindow } from './contextbudget';
+import { parseRetryAfterMs } from './retry';
+import { activeCriteria, computeRubricScore } from './rubric';
+import { mergeJobFacts, normalizeModelFacts } from './jobfacts';
+import { applyCompensationCheck } from './compensation';
+import { applyLocationCheck } from './location';
+import { applySkillOverlap, computeSkillOverlap } from './skills';
+import {
+  buildEvaluationSchema,
+  EVALUATION_SCHEMA_NAME,
+  TRIAGE_SCHEMA,
+  TRIAGE_SCHEMA_NAME,
+  validateEvaluationResult,
+  validateTriageResult,
+  type SchemaValidation,
+} from './schema';
+import { estimateCostUsd } from './usage';
 
 /**
  * Parse LLM JSON output; tolerate trailing commas, newlines in strings, and surrounding text.
@@ -50,6 +51,8 @@ const KNOWN_RESULT_KEYS = new Set([
   'riskBullets',
   'bestResumeLabel',
   'explanation',
+  'criterionScores',
+  'jobFacts',
   'extraInfo',
 ]);
 
@@ -226,151 +229,490 @@ function normalizeResult(raw: EvaluationResultRaw): EvaluationResult {
   };
 }
 
-/** Call the LLM and return a structured evaluation. */
-export async function evaluateJob(
-  job: JobData,
-  resumes: ResumeRecord[],
-  profileIntent: string,
-  skillsTechStack: string,
-  negativeFilters: string,
-  provider: ApiProvider,
-  apiKey: string,
-  model: string
-): Promise<EvaluationResult> {
-  if (provider !== 'ollama' && !apiKey) {
-    throw new Error('API key required for this provider.');
+/**
+ * What went wrong talking to a provider; lets callers decide whether another provider is worth trying.
+ * `config` means the settings are incomplete (no model to send), which the user has to fix; `invalid_reply`
+ * means the model's answer still did not match the evaluation schema after the repair round-trip.
+ */
+export type ProviderErrorKind = 'auth' | 'rate_limit' | 'timeout' | 'http' | 'cancelled' | 'config' | 'invalid_reply';
+
+/** Error thrown by evaluateJob when the provider rejects, throttles or stalls the request. */
+export class ProviderError extends Error {
+  readonly provider: ApiProvider;
+  readonly kind: ProviderErrorKind;
+  readonly status: number | null;
+  /** Wait requested by the provider (Retry-After and friends), when it sent one. */
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    message: string,
+    provider: ApiProvider,
+    kind: ProviderErrorKind,
+    details: { status?: number; retryAfterMs?: number | null } = {}
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.kind = kind;
+    this.status = details.status ?? null;
+    this.retryAfterMs = details.retryAfterMs ?? null;
   }
 
-  const endpoint = PROVIDER_ENDPOINTS[provider];
-  const userPrompt = buildUserPrompt(job, profileIntent, skillsTechStack, negativeFilters, resumes);
-
-  if (provider === 'anthropic') {
-    const body = {
-      model: model || PROVIDER_MODELS[provider],
-      max_tokens: 1024,
-      messages: [
-        { role: 'user', content: `${SYSTEM_PROMPT}\n\n${userPrompt}` },
-      ],
-    };
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
-    let res: Response;
+  /** Throttling or a transient server-side failure: worth retrying the same provider later. */
+  get isRetryable(): boolean {
+    return this.kind === 'rate_limit' || (this.status != null && this.status >= 500);
+  }
+}
+
+function classifyHttpStatus(status: number): ProviderErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  return 'http';
+}
+
+/** Optional hooks and per-call settings for a single evaluation call. */
+export interface EvaluateOptions {
+  /** Called with the accumulated model output each time a streamed chunk arrives. */
+  onPartialText?: (text: string) => void;
+  /** Base URL and headers for the `custom` provider. */
+  customEndpoint?: CustomEndpointSettings;
+  /** Aborts the request (user cancelled); surfaces as a `cancelled` ProviderError. */
+  signal?: AbortSignal;
+  /** Prompt template to use; defaults to the built-in prompt (version 0). */
+  prompt?: PromptTemplateVersion;
+  /** Scoring criteria; defaults to DEFAULT_RUBRIC. */
+  rubric?: RubricCriterion[];
+  /** Pay expectations checked against the posting's salary, converted with `fxRates`. */
+  compensation?: CompensationExpectation | null;
+  fxRates?: Record<string, number>;
+  /** Home base the job's location is matched against. */
+  locationProfile?: LocationProfile | null;
+  /** The user's judgements of other jobs, given to the model as examples. */
+  feedbackExamples?: FeedbackRecord[];
+  /** Context window overrides by `provider:model`; see getContextWindow. */
+  contextWindows?: Record<string, number>;
+}
+
+/** Abort `controller` once no data has arrived for `ms`; call `reset` whenever a chunk arrives. */
+function createInactivityTimeout(controller: AbortController, ms: number): { reset: () => void; clear: () => void } {
+  let id = setTimeout(() => controller.abort(), ms);
+  return {
+    reset: () => {
+      clearTimeout(id);
+      id = setTimeout(() => controller.abort(), ms);
+    },
+    clear: () => clearTimeout(id),
+  };
+}
+
+/** Error message embedded in a streamed event (OpenAI/Gemini `{error:{message}}`, Anthropic `type: 'error'`, Ollama `{error}`). */
+function getStreamEventError(event: unknown): string | null {
+  if (typeof event !== 'object' || event === null || !('error' in event) || !event.error) return null;
+  const err = event.error;
+  if (typeof err === 'string') return err;
+  return typeof err === 'object' && 'message' in err && typeof err.message === 'string'
+    ? err.message
+    : 'The provider reported an error while streaming.';
+}
+
+function mergeUsage(into: UsageReport, report: UsageReport | null): void {
+  if (!report) return;
+  if (typeof report.promptTokens === 'number') into.promptTokens = report.promptTokens;
+  if (typeof report.completionTokens === 'number') into.completionTokens = report.completionTokens;
+  if (typeof report.costUsd === 'number') into.costUsd = report.costUsd;
+}
+
+/**
+ * Read an SSE (`data: {...}`) or NDJSON (one JSON object per line) body and return the concatenated text
+ * plus any usage the provider reported along the way.
+ * `onChunk` runs for every network chunk (used to reset the inactivity timeout).
+ */
+async function readStreamedText(
+  body: ReadableStream<Uint8Array>,
+  adapter: Pick<ProviderAdapter, 'extractDelta' | 'extractUsage'>,
+  onChunk: () => void,
+  onText?: (text: string) => void
+): Promise<{ text: string; usage: UsageReport }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  const usage: UsageReport = {};
+  const handleLine = (line: string) => {
+    let payload = line.trim();
+    if (!payload || payload.startsWith(':') || payload.startsWith('event:')) return;
+    if (payload.startsWith('data:')) payload = payload.slice(5).trim();
+    if (!payload || payload === '[DONE]') return;
+    let event: unknown;
     try {
-      res = await fetch(endpoint, {
-        method: 'POST',
-        headers: getAuthHeader(provider, apiKey),
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
-    } catch (e) {
-      clearTimeout(timeout);
-      if ((e as Error).name === 'AbortError') {
-        throw new Error(`Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s. Try again.`);
-      }
-      throw e;
+      event = JSON.parse(payload);
+    } catch {
+      return;
     }
-    clearTimeout(timeout);
-    if (!res.ok) {
-      const t = await res.text();
-      throw new Error(res.status === 401 ? 'Invalid API key.' : res.status === 429 ? 'Rate limited.' : t || res.statusText);
+    const streamError = getStreamEventError(event);
+    if (streamError) throw new Error(streamError);
+    mergeUsage(usage, adapter.extractUsage(event));
+    const delta = adapter.extractDelta(event);
+    if (delta) {
+      text += delta;
+      onText?.(text);
     }
-    const data = await res.json();
-    const text = data.content?.[0]?.text ?? data.content ?? '';
-    const raw = parseJsonFromResponse(text);
-    return normalizeResult(raw);
+  };
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onChunk();
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) handleLine(line);
   }
+  buffer += decoder.decode();
+  if (buffer) handleLine(buffer);
+  return { text, usage };
+}
 
-  if (provider === 'google') {
-    const effectiveModel = model || PROVIDER_MODELS[provider];
-    const googleEndpoint = `${PROVIDER_ENDPOINTS[provider]}/${effectiveModel}:generateContent`;
-    const body = {
-      systemInstruction: { parts: [{ text: SYSTEM_PROMPT }] },
-      contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
-      generationConfig: { maxOutputTokens: 1024 },
-    };
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
-    let res: Response;
-    try {
-      res = await fetch(googleEndpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeader(provider, apiKey),
-        },
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
-    } catch (e) {
-      clearTimeout(timeout);
-      if ((e as Error).name === 'AbortError') {
-        throw new Error(`Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s. Try again.`);
-      }
-      throw e;
+/** Reported counts, or length-based estimates when the provider sent none; priced from the local table. */
+function finalizeUsage(
+  report: UsageReport,
+  provider: ApiProvider,
+  model: string,
+  promptText: string,
+  completionText: string
+): TokenUsage {
+  const estimated = report.promptTokens == null || report.completionTokens == null;
+  const counts = {
+    promptTokens: report.promptTokens ?? estimateTokens(promptText),
+    completionTokens: report.completionTokens ?? estimateTokens(completionText),
+  };
+  return {
+    ...counts,
+    costUsd: report.costUsd ?? estimateCostUsd(provider, model, counts),
+    ...(estimated ? { estimated: true } : {}),
+  };
+}
+
+/** Read a JSON string literal starting just after its opening quote; tolerates a missing closing quote. */
+function readPartialJsonString(text: string, start: number): { value: string; end: number } {
+  let value = '';
+  let i = start;
+  while (i < text.length) {
+    const c = text[i];
+    if (c === '"') return { value, end: i + 1 };
+    if (c === '\\') {
+      const next = text[i + 1];
+      if (next === undefined) break;
+      value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+      i += 2;
+      continue;
     }
-    clearTimeout(timeout);
-    if (!res.ok) {
-      const t = await res.text();
-      throw new Error(res.status === 401 ? 'Invalid API key.' : res.status === 429 ? 'Rate limited.' : t || res.statusText);
+    value += c;
+    i++;
+  }
+  return { value, end: text.length };
+}
+
+function readPartialStringArray(text: string, key: string): string[] | undefined {
+  const m = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text);
+  if (!m) return undefined;
+  const items: string[] = [];
+  let i = m.index + m[0].length;
+  while (i < text.length) {
+    const c = text[i];
+    if (c === ']') break;
+    if (c === '"') {
+      const { value, end } = readPartialJsonString(text, i + 1);
+      if (value) items.push(value);
+      i = end;
+      continue;
     }
-    const data = await res.json();
-    const text = data.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
-    const raw = parseJsonFromResponse(text);
-    return normalizeResult(raw);
+    i++;
   }
+  return items;
+}
 
-  // OpenAI-compatible (Ollama, OpenAI, Groq, OpenRouter)
-  const effectiveModel = model || PROVIDER_MODELS[provider];
-  const body = {
-    model: effectiveModel,
-    max_tokens: 1024,
-    messages: [
-      { role: 'system', content: SYSTEM_PROMPT },
-      { role: 'user', content: userPrompt },
-    ],
-  };
-  const timeoutMs = provider === 'ollama' ? OLLAMA_TIMEOUT_MS : REQUEST_TIMEOUT_MS;
+/**
+ * Best-effort view of an evaluation that is still streaming: picks score, verdict, explanation and
+ * bullets out of incomplete JSON so the panel can render them before the response finishes.
+ */
+export function extractPartialResult(text: string): PartialEvaluation {
+  const partial: PartialEvaluation = {};
+  const scoreMatch = text.match(/"score"\s*:\s*(\d+)\s*[,}]/);
+  if (scoreMatch) partial.score = Math.max(0, Math.min(100, parseInt(scoreMatch[1], 10)));
+  const verdictMatch = text.match(/"verdict"\s*:\s*"(worth|maybe|not_worth)"/);
+  if (verdictMatch) partial.verdict = verdictMatch[1] as EvaluationResult['verdict'];
+  const explanationMatch = /"explanation"\s*:\s*"/.exec(text);
+  if (explanationMatch) {
+    partial.explanation = readPartialJsonString(text, explanationMatch.index + explanationMatch[0].length).value;
+  }
+  const matchBullets = readPartialStringArray(text, 'matchBullets');
+  if (matchBullets) partial.matchBullets = matchBullets;
+  const riskBullets = readPartialStringArray(text, 'riskBullets');
+  if (riskBullets) partial.riskBullets = riskBullets;
+  return partial;
+}
+
+/** One round-trip to the provider: the model's reply text and whatever usage it reported. */
+async function requestCompletion(
+  adapter: ProviderAdapter<ApiProvider>,
+  input: ProviderRequestInput,
+  options: EvaluateOptions
+): Promise<{ text: string; usage: UsageReport }> {
+  const provider = adapter.id;
+  // The custom endpoint has no default model to fall back on
+  if (!input.model.trim()) throw new ProviderError(`Set a model for ${adapter.label} in Settings.`, provider, 'config');
+  const request = adapter.buildRequest(input);
+  const timeoutMs = adapter.timeoutMs;
   const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), timeoutMs);
-  let res: Response;
+  const inactivity = createInactivityTimeout(controller, timeoutMs);
+  const onCancel = () => controller.abort();
+  if (options.signal?.aborted) controller.abort();
+  options.signal?.addEventListener('abort', onCancel);
   try {
-    res = await fetch(endpoint, {
+    const res = await fetch(request.url, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...getAuthHeader(provider, apiKey),
-      },
-      body: JSON.stringify(body),
+      headers: request.headers,
+      body: JSON.stringify(request.body),
       signal: controller.signal,
     });
+    inactivity.reset();
+    if (!res.ok) {
+      const t = await res.text();
+      throw new ProviderError(adapter.mapError(res, t), provider, classifyHttpStatus(res.status), {
+        status: res.status,
+        retryAfterMs: parseRetryAfterMs(res.headers, t),
+      });
+    }
+    const contentType = res.headers.get('content-type') ?? '';
+    if (res.body && !contentType.includes('application/json')) {
+      return await readStreamedText(res.body, adapter, inactivity.reset, options.onPartialText);
+    }
+    const data = await res.json();
+    const usage: UsageReport = {};
+    mergeUsage(usage, adapter.extractUsage(data));
+    return { text: adapter.extractText(data), usage };
   } catch (e) {
-    clearTimeout(timeout);
     if ((e as Error).name === 'AbortError') {
-      throw new Error(
-        provider === 'ollama'
-          ? `Request timed out after ${timeoutMs / 1000}s. Ollama may be slow on CPU—try again or keep the panel open longer.`
-          : `Request to ${provider} timed out after ${timeoutMs / 1000}s. The API may be overloaded—try again.`
-      );
+      if (options.signal?.aborted) throw new ProviderError('Evaluation cancelled.', provider, 'cancelled');
+      throw new ProviderError(adapter.describeTimeout(timeoutMs), provider, 'timeout');
     }
     throw e;
+  } finally {
+    inactivity.clear();
+    options.signal?.removeEventListener('abort', onCancel);
   }
-  clearTimeout(timeout);
-  if (!res.ok) {
-    const t = await res.text();
-    if (provider === 'ollama') {
-      if (res.status === 0 || res.type === 'opaque') {
-        throw new Error('Could not reach Ollama. Is it running? (e.g. ollama serve or Docker.)');
-      }
-      if (res.status === 403 || res.status === 401) {
-        throw new Error(
-          'Ollama rejected the request (CORS). Quit the Ollama app completely, then in a terminal run: OLLAMA_ORIGINS=* ollama serve'
-        );
-      }
-    }
-    throw new Error(res.status === 401 ? 'Invalid API key.' : res.status === 429 ? 'Rate limited.' : t || res.statusText);
+}
+
+/** Strict parse of a structured reply: one JSON document (a surrounding code fence is allowed), then schema checks. */
+function parseStructuredResult(text: string, resumeLabels: string[], criterionIds: string[]): SchemaValidation {
+  const fenced = text.trim().match(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/);
+  let value: unknown;
+  try {
+    value = JSON.parse(fenced ? fenced[1] : text);
+  } catch (e) {
+    return { ok: false, errors: [`The reply is not valid JSON (${(e as Error).message}).`] };
   }
-  const data = await res.json();
-  const text = data.choices?.[0]?.message?.content ?? '';
-  const raw = parseJsonFromResponse(text);
-  return normalizeResult(raw);
+  return validateEvaluationResult(value, resumeLabels, criterionIds);
+}
+
+function buildRepairPrompt(errors: string[]): string {
+  return `Your previous reply does not match the required JSON schema:
+${errors.map((e) => `- ${e}`).join('\n')}
+Reply again with only the corrected JSON object.`;
+}
+
+function sumUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    costUsd: a.costUsd != null && b.costUsd != null ? a.costUsd + b.costUsd : null,
+    ...(a.estimated || b.estimated ? { estimated: true } : {}),
+  };
+}
+
+/**
+ * Call the LLM and return a structured evaluation. Responses are streamed; the timeout applies to
+ * inactivity (no bytes received) rather than total duration, so slow local models are not cut off mid-answer.
+ * The reply is requested through the provider's structured-output feature and validated against the
+ * evaluation schema; when it does not validate, the model gets one chance to correct it. A corrected reply
+ * that still fails throws a ProviderError of kind `invalid_reply` rather than guessing at the answer.
+ */
+export async function evaluateJob(
+  job: JobData,
+  resumes: ResumeRecord[],
+  profileIntent: string,
+  skillsTechStack: string,
+  negativeFilters: string,
+  provider: ApiProvider,
+  apiKey: string,
+  model: string,
+  options: EvaluateOptions = {}
+): Promise<EvaluationResult> {
+  const adapter = getProviderAdapter(provider);
+  if (adapter.requiresApiKey && !apiKey) {
+    throw new ProviderError('API key required for this provider.', provider, 'auth');
+  }
+
+  const template = options.prompt?.template ?? DEFAULT_PROMPT_TEMPLATE;
+  const promptVersion = options.prompt?.version ?? 0;
+  const criteria = activeCriteria(options.rubric);
+  const criterionIds = criteria.map((c) => c.id);
+  const effectiveModel = model || adapter.defaultModel;
+  const render = (j: JobData, r: ResumeRecord[]) =>
+    buildUserPrompt(
+      j,
+      profileIntent,
+      skillsTechStack,
+      negativeFilters,
+      r,
+      template.user,
+      criteria,
+      options.compensation,
+      options.locationProfile,
+      options.feedbackExamples
+    );
+  // The local checks below still see the whole job and resumes
+  const fit = fitPromptToContext(
+    job,
+    resumes,
+    template.system,
+    getContextWindow(provider, effectiveModel, options.contextWindows),
+    render
+  );
+  const userPrompt = render(fit.job, fit.resumes);
+  const resumeLabels = fit.resumes.map((r) => r.label);
+  const input: ProviderRequestInput = {
+    apiKey,
+    model: effectiveModel,
+    systemPrompt: template.system,
+    userPrompt,
+    responseSchema: { name: EVALUATION_SCHEMA_NAME, schema: buildEvaluationSchema(resumeLabels, criterionIds) },
+    customEndpoint: options.customEndpoint,
+  };
+  const promptText = template.system + userPrompt;
+
+  const first = await requestCompletion(adapter, input, options);
+  let text = first.text;
+  let usage = finalizeUsage(first.usage, provider, effectiveModel, promptText, text);
+  let parsed = parseStructuredResult(text, resumeLabels, criterionIds);
+  if (!parsed.ok) {
+    const followUp: ChatTurn[] = [
+      { role: 'assistant', content: text || '(empty reply)' },
+      { role: 'user', content: buildRepairPrompt(parsed.errors) },
+    ];
+    const repair = await requestCompletion(adapter, { ...input, followUp }, options);
+    text = repair.text;
+    usage = sumUsage(usage, finalizeUsage(repair.usage, provider, effectiveModel, promptText, text));
+    parsed = parseStructuredResult(text, resumeLabels, criterionIds);
+  }
+
+  if (!parsed.ok) {
+    throw new ProviderError(
+      `The model's reply did not match the evaluation format, even after a correction request: ${parsed.errors.join(' ')}`,
+      provider,
+      'invalid_reply'
+    );
+  }
+
+  const raw: EvaluationResultRaw = { ...parsed.value, extraInfo: collectExtraInfo(parsed.extraKeys) };
+  const result = normalizeResult(raw);
+  const rubricScore = computeRubricScore(criteria, raw.criterionScores, result.hardRejectionReason != null);
+  if (rubricScore) {
+    result.score = rubricScore.score;
+    result.criteria = rubricScore.criteria;
+  }
+  const { facts, sources } = mergeJobFacts(job.facts, normalizeModelFacts(raw.jobFacts));
+  if (Object.keys(facts).length > 0) {
+    result.facts = facts;
+    result.factSources = sources;
+  }
+  const withSkills = applySkillOverlap(result, computeSkillOverlap(job, skillsTechStack, resumes));
+  const checked = applyCompensationCheck(withSkills, options.compensation, options.fxRates);
+  const bestResume = fit.resumes.find((r) => r.label === result.bestResumeLabel);
+  return {
+    ...applyLocationCheck(checked, job, options.locationProfile),
+    ...(bestResume ? { bestResume: { id: bestResume.id, version: bestResume.version ?? 1, label: bestResume.label } } : {}),
+    provider,
+    model: effectiveModel,
+    usage,
+    promptVersion,
+    ...(fit.trim ? { promptTrim: fit.trim } : {}),
+  };
+}
+
+/**
+ * Quick first pass of a two-stage run: the short triage prompt (no resumes) on a small model, with no repair
+ * round-trip since a malformed reply still yields a rough score through the lenient parser. The local skill,
+ * pay and location checks are applied as usual; `triage.passed` is false after any hard rejection.
+ */
+export async function triageJob(
+  job: JobData,
+  profileIntent: string,
+  skillsTechStack: string,
+  negativeFilters: string,
+  provider: ApiProvider,
+  apiKey: string,
+  model: string,
+  threshold: number,
+  options: EvaluateOptions = {}
+): Promise<EvaluationResult> {
+  const adapter = getProviderAdapter(provider);
+  if (adapter.requiresApiKey && !apiKey) {
+    throw new ProviderError('API key required for this provider.', provider, 'auth');
+  }
+  const userPrompt = buildTriagePrompt(
+    job,
+    profileIntent,
+    skillsTechStack,
+    negativeFilters,
+    options.compensation,
+    options.locationProfile
+  );
+  const effectiveModel = model || adapter.defaultModel;
+  const { text, usage: report } = await requestCompletion(
+    adapter,
+    {
+      apiKey,
+      model: effectiveModel,
+      systemPrompt: TRIAGE_PROMPT_TEMPLATE.system,
+      userPrompt,
+      responseSchema: { name: TRIAGE_SCHEMA_NAME, schema: TRIAGE_SCHEMA },
+      customEndpoint: options.customEndpoint,
+    },
+    options
+  );
+  const usage = finalizeUsage(report, provider, effectiveModel, TRIAGE_PROMPT_TEMPLATE.system + userPrompt, text);
+
+  const fenced = text.trim().match(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/);
+  let parsed: ReturnType<typeof validateTriageResult> = { ok: false, errors: [] };
+  try {
+    parsed = validateTriageResult(JSON.parse(fenced ? fenced[1] : text));
+  } catch {
+    // Not strict JSON; fall through to the lenient parser
+  }
+  const raw: EvaluationResultRaw = parsed.ok ? parsed.value : parseJsonFromResponse(text);
+  const result = normalizeResult(raw);
+  if (job.facts && Object.keys(job.facts).length > 0) result.facts = job.facts;
+  const withSkills = applySkillOverlap(result, computeSkillOverlap(job, skillsTechStack, []));
+  const checked = applyLocationCheck(
+    applyCompensationCheck(withSkills, options.compensation, options.fxRates),
+    job,
+    options.locationProfile
+  );
+  return {
+    ...checked,
+    provider,
+    model: effectiveModel,
+    usage,
+    triage: {
+      score: checked.score,
+      verdict: checked.verdict,
+      explanation: checked.explanation,
+      threshold,
+      passed: checked.score >= threshold && checked.hardRejectionReason == null,
+      provider,
+      model: effectiveModel,
+      usage,
+    },
+  };
 }
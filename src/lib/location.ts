@@ -0,0 +1,227 @@
+/**
+ * Location matching: LinkedIn location strings parsed into city / region / country / workplace type,
+ * resolved against the offline geodata, and compared with the user's home base, commute radius,
+ * relocation countries and remote time-zone needs. An on-site or hybrid role out of reach is a hard rejection.
+ */
+
+import type {
+  EvaluationResult,
+  JobData,
+  LocationCheck,
+  LocationProfile,
+  ParsedLocation,
+  WorkplaceType,
+} from './types';
+import { countryName, findArea, findCity, findCountry, GEO_COUNTRIES, GEO_REGIONS, normalizePlaceName } from './geodata';
+import { WORKPLACE_LABELS, workplaceFromText } from './jobfacts';
+import { HARD_REJECTION_MAX_SCORE } from './rubric';
+
+/** Length of the working day both sides are assumed to keep (9–17 local). */
+const WORKDAY_HOURS = 8;
+
+const REGIONS_BY_NAME = new Map(Object.values(GEO_REGIONS).map((r) => [normalizePlaceName(r.name), r]));
+
+/** "Greater Seattle Area" → "Seattle", "Berlin Metropolitan Area" → "Berlin". */
+function stripMetroWords(part: string): string {
+  return part
+    .replace(/^greater\s+/i, '')
+    .replace(/\s+(metropolitan area|metropolitan region|metro area|metroplex|bay area|area|region|metro)$/i, '')
+    .trim();
+}
+
+/** Split a location string such as "Austin, TX (Hybrid)" or "Remote - Europe" and resolve each part. */
+export function parseLocation(raw: string): ParsedLocation {
+  const workplaceType = workplaceFromText(raw, '');
+  const parts = raw
+    .replace(/\b(fully |100% )?(remote|hybrid|on[- ]?site)\b/gi, ' ')
+    .split(/[,;|/·()]|\s[-–—]\s/)
+    .map(stripMetroWords)
+    .filter((p) => p && !/^[-–—\s]+$/.test(p));
+
+  let city = null as ReturnType<typeof findCity>;
+  let cityName: string | null = null;
+  let country = null as ReturnType<typeof findCountry>;
+  let area = null as ReturnType<typeof findArea>;
+  let region: string | null = null;
+  let regionCountry: string | null = null;
+
+  const [first, ...rest] = parts;
+  for (const part of parts.length === 1 ? [] : rest) {
+    const abbreviated = /^[A-Z]{2}$/.test(part) ? GEO_REGIONS[part] : undefined;
+    // "Austin, TX" is a state; "Berlin, DE" is Germany because no US Berlin is known
+    if (abbreviated && (findCity(first, [abbreviated.country]) || !findCity(first))) {
+      region = abbreviated.name;
+      regionCountry = abbreviated.country;
+    } else if (findCountry(part)) {
+      country ??= findCountry(part);
+    } else if (findArea(part)) {
+      area ??= findArea(part);
+    } else if (REGIONS_BY_NAME.has(normalizePlaceName(part))) {
+      const named = REGIONS_BY_NAME.get(normalizePlaceName(part))!;
+      region = named.name;
+      regionCountry = named.country;
+    } else {
+      region ??= part;
+    }
+  }
+  if (first) {
+    const countryHint = country?.code ?? regionCountry;
+    city = findCity(first, countryHint ? [countryHint] : undefined);
+    if (!city) {
+      if (parts.length === 1 && findCountry(first)) country = findCountry(first);
+      else if (parts.length === 1 && findArea(first)) area = findArea(first);
+      else if (REGIONS_BY_NAME.has(normalizePlaceName(first))) {
+        const named = REGIONS_BY_NAME.get(normalizePlaceName(first))!;
+        region = named.name;
+        regionCountry = named.country;
+      } else cityName = first;
+    }
+  }
+
+  const countryCode = city?.country ?? country?.code ?? regionCountry;
+  const countries = countryCode ? [countryCode] : area ? area.countries : [];
+  let utcOffsets: [number, number] | null = null;
+  if (city) utcOffsets = [city.utcOffset, city.utcOffset];
+  else if (countries.length > 0) {
+    const spans = GEO_COUNTRIES.filter((c) => countries.includes(c.code)).map((c) => c.utcOffsets);
+    if (spans.length > 0) {
+      utcOffsets = [Math.min(...spans.map((s) => s[0])), Math.max(...spans.map((s) => s[1]))];
+    }
+  }
+  return {
+    city: city?.name ?? cityName,
+    region,
+    area: countryCode ? null : area?.name ?? null,
+    countries,
+    workplaceType,
+    coordinates: city ? { lat: city.lat, lon: city.lon } : null,
+    utcOffsets,
+  };
+}
+
+/** "Amsterdam, Netherlands", "Austin, Texas, United States", "Europe". */
+export function formatParsedLocation(place: ParsedLocation): string {
+  const country = place.countries.length === 1 ? countryName(place.countries[0]) : null;
+  const region = place.region !== place.city ? place.region : null;
+  return [place.city, region, country ?? place.area].filter(Boolean).join(', ');
+}
+
+/** Great-circle distance in km. */
+export function distanceKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLon = rad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Shared hours of two 9–17 working days, taking the job's offset closest to home when the location spans
+ * several time zones (a remote role "in the US" can usually be worked from its eastern edge).
+ */
+export function timezoneOverlapHours(home: [number, number], job: [number, number]): number {
+  const gap = Math.max(0, job[0] - home[1], home[0] - job[1]);
+  return Math.max(0, WORKDAY_HOURS - gap);
+}
+
+/** Match a job's location against the profile; null when no profile or home location is set. */
+export function matchLocation(job: JobData, profile: LocationProfile | null | undefined): LocationCheck | null {
+  if (!profile?.home.trim()) return null;
+  const home = parseLocation(profile.home);
+  const place = parseLocation(job.location);
+  const workplaceType: WorkplaceType | null =
+    job.facts?.workplaceType ?? place.workplaceType ?? workplaceFromText('', job.description);
+  const base = { place: formatParsedLocation(place) || job.location.trim(), workplaceType };
+  const distance = home.coordinates && place.coordinates ? Math.round(distanceKm(home.coordinates, place.coordinates)) : null;
+  const homeCountry = home.countries.length === 1 ? home.countries[0] : null;
+
+  if (workplaceType === 'remote') {
+    const overlap = home.utcOffsets && place.utcOffsets ? timezoneOverlapHours(home.utcOffsets, place.utcOffsets) : null;
+    const check = { ...base, distanceKm: distance, timezoneOverlapHours: overlap };
+    if (profile.minTimezoneOverlapHours != null && overlap != null && overlap < profile.minTimezoneOverlapHours) {
+      return { ...check, status: 'timezone_mismatch' };
+    }
+    const reachable = place.countries.some((c) => c === homeCountry || profile.relocateCountries.includes(c));
+    if (homeCountry && place.countries.length > 0 && !reachable) return { ...check, status: 'remote_restricted' };
+    return { ...check, status: 'remote' };
+  }
+
+  const check = { ...base, distanceKm: distance, timezoneOverlapHours: null };
+  if (distance != null && profile.maxCommuteKm != null && distance <= profile.maxCommuteKm) {
+    return { ...check, status: 'commutable' };
+  }
+  const jobCountry = place.countries.length === 1 ? place.countries[0] : null;
+  if (jobCountry && profile.relocateCountries.includes(jobCountry)) return { ...check, status: 'relocation' };
+  if (distance != null && profile.maxCommuteKm != null) return { ...check, status: 'too_far' };
+  if (jobCountry && homeCountry && jobCountry !== homeCountry) return { ...check, status: 'too_far' };
+  return { ...check, status: 'unknown' };
+}
+
+/** One-line description of a check, shown with the result and given to the model. */
+export function formatLocationCheck(check: LocationCheck, profile: LocationProfile): string {
+  const where = check.workplaceType ? `${check.place || 'Location not stated'} (${WORKPLACE_LABELS[check.workplaceType]})` : check.place;
+  const away = check.distanceKm != null ? `${check.distanceKm.toLocaleString()} km from home` : null;
+  const overlap = check.timezoneOverlapHours != null ? `~${check.timezoneOverlapHours} h shared working hours` : null;
+  switch (check.status) {
+    case 'commutable':
+      return `${where} · ${away}, within your ${profile.maxCommuteKm} km commute`;
+    case 'relocation':
+      return `${where} · ${away ? `${away}; ` : ''}in a country you would relocate to`;
+    case 'too_far':
+      return away && profile.maxCommuteKm != null
+        ? `${where} · ${away}, beyond your ${profile.maxCommuteKm} km commute and not in a country you would relocate to`
+        : `${where} · abroad and not in a country you would relocate to`;
+    case 'remote':
+      return [where, overlap].filter(Boolean).join(' · ');
+    case 'remote_restricted':
+      return `${where} · remote only within that location, which is not where you live or would relocate`;
+    case 'timezone_mismatch':
+      return `${where} · ${overlap}, below your ${profile.minTimezoneOverlapHours} h minimum`;
+    case 'unknown':
+      return `${where || 'Location not stated'} · not recognized, check it yourself`;
+  }
+}
+
+/**
+ * Attach the location check to a result. An on-site or hybrid role out of reach forces a hard rejection
+ * (verdict not_worth, score capped); a remote role limited to another country or with too little time-zone
+ * overlap, or a far-away job whose workplace type is not stated, gets the issue first in the risk bullets.
+ */
+export function applyLocationCheck(
+  result: EvaluationResult,
+  job: JobData,
+  profile: LocationProfile | null | undefined
+): EvaluationResult {
+  const facts = result.facts ?? job.facts;
+  const check = matchLocation(facts ? { ...job, facts } : job, profile);
+  if (!check || !profile) return result;
+  const next: EvaluationResult = { ...result, locationCheck: check };
+  const summary = formatLocationCheck(check, profile);
+  if (check.status === 'too_far' && (check.workplaceType === 'onsite' || check.workplaceType === 'hybrid')) {
+    next.verdict = 'not_worth';
+    next.score = Math.min(next.score, HARD_REJECTION_MAX_SCORE);
+    next.hardRejectionReason = next.hardRejectionReason ?? `${WORKPLACE_LABELS[check.workplaceType]} role out of commuting range`;
+    next.riskBullets = [summary, ...next.riskBullets];
+  } else if (check.status === 'too_far' || check.status === 'remote_restricted' || check.status === 'timezone_mismatch') {
+    next.riskBullets = [summary, ...next.riskBullets];
+  }
+  return next;
+}
+
+/** The `{{locationProfile}}` prompt variable: the user's profile plus the local check of this job. */
+export function formatLocationForPrompt(job: JobData, profile: LocationProfile | null | undefined): string {
+  const check = matchLocation(job, profile);
+  if (!check || !profile) return '';
+  const home = parseLocation(profile.home);
+  const lines = [`Home: ${formatParsedLocation(home) || profile.home.trim()}`];
+  if (profile.maxCommuteKm != null) lines.push(`Max commute: ${profile.maxCommuteKm} km`);
+  if (profile.relocateCountries.length > 0) {
+    lines.push(`Would relocate to: ${profile.relocateCountries.map(countryName).join(', ')}`);
+  }
+  if (profile.minTimezoneOverlapHours != null) {
+    lines.push(`Remote roles need at least ${profile.minTimezoneOverlapHours} h of shared working hours`);
+  }
+  lines.push(`Local check of this job's location: ${formatLocationCheck(check, profile)}`);
+  return lines.join('\n');
+}
+
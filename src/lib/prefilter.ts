@@ -0,0 +1,132 @@
+/**
+ * Deterministic pre-filter: user rules checked against the scraped posting before the LLM is called, so
+ * clear deal-breakers are rejected instantly, for free, and regardless of whether a model would notice.
+ */
+
+import type {
+  EvaluationResult,
+  JobData,
+  PrefilterField,
+  PrefilterRule,
+  SeniorityLevel,
+  WorkplaceType,
+} from './types';
+import {
+  mergeJobFacts,
+  SENIORITY_LABELS,
+  seniorityFromTitle,
+  visaSponsorshipFromText,
+  WORKPLACE_LABELS,
+  workplaceFromText,
+} from './jobfacts';
+
+export const PREFILTER_FIELD_LABELS: Record<PrefilterField, string> = {
+  title: 'Title',
+  description: 'Description',
+  location: 'Location',
+  company: 'Company',
+};
+
+/** Seniority from the posting's facts, else from the title. */
+export function detectSeniority(job: JobData): SeniorityLevel | null {
+  return job.facts?.seniority ?? seniorityFromTitle(job.title);
+}
+
+/** Workplace type from the posting's facts, else from the location badge and description. */
+export function detectWorkplace(job: JobData): WorkplaceType | null {
+  return job.facts?.workplaceType ?? workplaceFromText(job.location, job.description);
+}
+
+/** True when the posting rules out visa sponsorship. */
+export function mentionsNoVisaSponsorship(job: JobData): boolean {
+  return (job.facts?.visaSponsorship ?? visaSponsorshipFromText(job.description)) === false;
+}
+
+/** Error message for an invalid regex pattern, or null when it compiles. */
+export function checkRulePattern(pattern: string): string | null {
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+function fieldText(job: JobData, field: PrefilterField): string {
+  return field === 'company' ? job.company ?? '' : job[field];
+}
+
+/** Short human description of a rule, used in the editor and in rejection reasons. */
+export function describePrefilterRule(rule: PrefilterRule): string {
+  switch (rule.kind) {
+    case 'keyword': {
+      const fields = rule.fields.map((f) => PREFILTER_FIELD_LABELS[f].toLowerCase()).join(' or ');
+      return rule.regex ? `${fields} matches /${rule.pattern}/` : `${fields} contains "${rule.pattern}"`;
+    }
+    case 'seniority':
+      return `seniority is ${rule.levels.map((l) => SENIORITY_LABELS[l]).join(' or ')}`;
+    case 'workplace':
+      return `workplace is ${rule.types.map((t) => WORKPLACE_LABELS[t]).join(' or ')}`;
+    case 'visa':
+      return 'no visa sponsorship';
+  }
+}
+
+/** Why `rule` rejects `job`, or null when it does not apply. Invalid regex rules never match. */
+function matchRule(rule: PrefilterRule, job: JobData): string | null {
+  switch (rule.kind) {
+    case 'keyword': {
+      if (!rule.pattern.trim()) return null;
+      for (const field of rule.fields) {
+        const text = fieldText(job, field);
+        if (rule.regex) {
+          if (checkRulePattern(rule.pattern)) return null;
+          const m = text.match(new RegExp(rule.pattern, 'i'));
+          if (m) return `${PREFILTER_FIELD_LABELS[field]} matches "${m[0].trim()}"`;
+        } else if (text.toLowerCase().includes(rule.pattern.trim().toLowerCase())) {
+          return `${PREFILTER_FIELD_LABELS[field]} contains "${rule.pattern.trim()}"`;
+        }
+      }
+      return null;
+    }
+    case 'seniority': {
+      const level = detectSeniority(job);
+      return level && rule.levels.includes(level) ? `Seniority is ${SENIORITY_LABELS[level]}` : null;
+    }
+    case 'workplace': {
+      const type = detectWorkplace(job);
+      return type && rule.types.includes(type) ? `Workplace is ${WORKPLACE_LABELS[type]}` : null;
+    }
+    case 'visa':
+      return mentionsNoVisaSponsorship(job) ? 'Posting says no visa sponsorship' : null;
+  }
+}
+
+/** First enabled rule that rejects the job, with the reason, or null when the job passes. */
+export function applyPrefilter(
+  job: JobData,
+  rules: PrefilterRule[] | undefined
+): { rule: PrefilterRule; reason: string } | null {
+  for (const rule of rules ?? []) {
+    if (!rule.enabled) continue;
+    const reason = matchRule(rule, job);
+    if (reason) return { rule, reason };
+  }
+  return null;
+}
+
+/** The result recorded for a job a rule rejected. */
+export function buildPrefilterResult(job: JobData, match: { rule: PrefilterRule; reason: string }): EvaluationResult {
+  const { facts, sources } = mergeJobFacts(job.facts, undefined);
+  return {
+    score: 0,
+    verdict: 'not_worth',
+    hardRejectionReason: `Pre-filter: ${match.reason}`,
+    matchBullets: [],
+    riskBullets: [match.reason],
+    bestResumeLabel: null,
+    explanation: `Rejected by your pre-filter rule (${describePrefilterRule(match.rule)}) without calling the model.`,
+    prefilterRuleId: match.rule.id,
+    ...(Object.keys(facts).length > 0 ? { facts, factSources: sources } : {}),
+  };
+}
@@ -1,74 +1,70 @@
-import type { JobData, ResumeRecord } from './types';
+import type {
+  CompensationExpectation,
+  FeedbackRecord,
+  JobData,
+  LocationProfile,
+  PromptTemplate,
+  ResumeRecord,
+  RubricCriterion,
+} from './types';
+import { formatRubricForPrompt } from './rubric';
+import { jobFactChips } from './jobfacts';
+import { formatExpectationForPrompt } from './compensation';
+import { formatLocationForPrompt } from './location';
+import { computeSkillOverlap, formatSkillOverlapForPrompt } from './skills';
+import { formatFeedbackExamplesForPrompt } from './feedback';
 
-const SYSTEM_PROMPT = `You are a strict career advisor. Your goal is to save the user's time by reducing wasted applications.
+/**
+ * Built-in prompt (version 0). User templates are edited copies of this; see PROMPT_VARIABLES for the
+ * `{{variables}}` a template can use and renderPromptTemplate for the syntax.
+ */
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  system: `You are a strict career advisor. Your goal is to save the user's time by reducing wasted applications.
 You must respond with ONLY a single valid JSON object. No markdown, no code fences, no text before or after the JSON. Be conservative; scores above 75 should be rare.
-Rules for JSON: use only double quotes for strings; use \\n for newlines inside strings (never literal line breaks); no trailing commas after the last item in objects or arrays. Keep explanation and bullet strings short (one short sentence each). Tone: factual, direct, no hype.`;
-
-function escapeForPrompt(s: string): string {
-  return s.replace(/\r\n/g, '\n').trim();
-}
-
-export function buildUserPrompt(
-  job: JobData,
-  profileIntent: string,
-  skillsTechStack: string,
-  negativeFilters: string,
-  resumes: ResumeRecord[]
-): string {
-  const jobBlock = `
-## JOB
-Title: ${escapeForPrompt(job.title)}
-Location: ${escapeForPrompt(job.location)}
-
+Rules for JSON: use only double quotes for strings; use \\n for newlines inside strings (never literal line breaks); no trailing commas after the last item in objects or arrays. Keep explanation and bullet strings short (one short sentence each). Tone: factual, direct, no hype.`,
+  user: `## JOB
+Title: {{job.title}}
+Location: {{job.location}}
+{{#if job.facts}}Stated on the page: {{job.facts}}
+{{/if}}
 Description:
-${escapeForPrompt(job.description)}
-`.trim();
+{{job.description}}
 
-  const profileBlock = `
 ## USER PROFILE INTENT (what they want)
-${profileIntent ? escapeForPrompt(profileIntent) : '(None provided)'}
-`.trim();
+{{#if profileIntent}}{{profileIntent}}{{else}}(None provided){{/if}}
 
-  const skillsBlock = `
 ## USER SKILLS / TECH STACK
-${skillsTechStack ? escapeForPrompt(skillsTechStack) : '(None provided)'}
-`.trim();
-
-  const negativeBlock = `
-## USER NEGATIVE FILTERS (hard deal-breakers; if job violates these, verdict must be not_worth or maybe and score low)
-${negativeFilters ? escapeForPrompt(negativeFilters) : '(None provided)'}
-`.trim();
-
-  const resumesBlock =
-    resumes.length > 0
-      ? `
-## USER RESUMES (label + text; pick bestResumeLabel from one of these labels)
-${resumes
-  .map(
-    (r) =>
-      `--- Resume: ${r.label} ---\n${escapeForPrompt(r.text)}\n`
-  )
-  .join('\n')}
-`.trim()
-      : `
-## USER RESUMES
-(No resumes provided. Match only against profile intent and skills/tech stack above.)
-`.trim();
+{{#if skillsTechStack}}{{skillsTechStack}}{{else}}(None provided){{/if}}
+
+{{#if skillOverlap}}## SKILL OVERLAP (matched locally against a skill taxonomy from the user's skills and resumes; exact, so rely on it over your own reading, e.g. Java and JavaScript are different skills)
+{{skillOverlap}}
+{{/if}}
+{{#if compensation}}## USER COMPENSATION EXPECTATIONS (a job whose whole pay range is below the minimum is a hard rejection)
+{{compensation}}
+
+{{/if}}{{#if locationProfile}}## USER LOCATION (an on-site or hybrid role out of commuting range and outside the relocation countries is a hard rejection)
+{{locationProfile}}
+
+{{/if}}## USER NEGATIVE FILTERS (hard deal-breakers; if job violates these, verdict must be not_worth or maybe and score low)
+{{#if negativeFilters}}{{negativeFilters}}{{else}}(None provided){{/if}}
+
+{{#if feedbackExamples}}## HOW THIS USER JUDGED EARLIER JOBS (your score, then their reaction; weigh this job the way they would)
+{{feedbackExamples}}
+
+{{/if}}{{#if resumes}}## USER RESUMES (label + text; pick bestResumeLabel from one of these labels)
+{{resumes}}
 
-  const hasResumes = resumes.length > 0;
-  const instructions = hasResumes
-    ? `
 ## INSTRUCTIONS
 
 1. **Phase 1 — Hard rejection**: Check for clear deal-breakers against the user's negative filters, profile intent, and skills/tech stack (e.g. language like "Fluent Dutch required", on-site-only far from user, tech stack opposite to skills like Java when they list JavaScript, seniority mismatch). If any clear violation: set verdict to "not_worth" or "maybe", set hardRejectionReason, and keep score below 40.
 
-2. **Phase 2 — Semantic matching**: If not hard-rejected, compare the job to each resume, profile intent, and skills/tech stack. Compute fit (skill overlap, seniority, domain). Choose bestResumeLabel (one of the resume labels that fits best). Score 0–100: ~70% resume–job relevance, ~30% profile+skills alignment. Remain conservative; 75+ only for strong fit.
+2. **Phase 2 — Semantic matching**: If not hard-rejected, compare the job to each resume, profile intent, and skills/tech stack. Compute fit (skill overlap, seniority, domain). Choose bestResumeLabel (one of the resume labels that fits best). Score 0–100 for overall fit. Remain conservative; 75+ only for strong fit.
 
 Respond with ONLY this JSON object (no other text). Example format:
 {"score":50,"verdict":"maybe","hardRejectionReason":null,"matchBullets":["skill match"],"riskBullets":["missing X"],"bestResumeLabel":"Frontend","explanation":"One short sentence."}
-Required keys: score (0-100 number), verdict ("worth" or "maybe" or "not_worth"), hardRejectionReason (string or null), matchBullets (array of short strings), riskBullets (array of short strings), bestResumeLabel (one of the resume labels), explanation (one short sentence). No trailing commas. No newlines inside strings.
-`.trim()
-    : `
+Required keys: score (0-100 number), verdict ("worth" or "maybe" or "not_worth"), hardRejectionReason (string or null), matchBullets (array of short strings), riskBullets (array of short strings), bestResumeLabel (one of the resume labels), explanation (one short sentence). No trailing commas. No newlines inside strings.{{else}}## USER RESUMES
+(No resumes provided. Match only against profile intent and skills/tech stack above.)
+
 ## INSTRUCTIONS
 
 1. **Phase 1 — Hard rejection**: Check for clear deal-breakers against the user's negative filters, profile intent, and skills/tech stack (e.g. language requirements, on-site-only, tech stack opposite to their skills, seniority mismatch). If any clear violation: set verdict to "not_worth" or "maybe", set hardRejectionReason, and keep score below 40.
@@ -77,10 +73,184 @@ Required keys: score (0-100 number), verdict ("worth" or "maybe" or "not_worth")
 
 Respond with ONLY this JSON object (no other text). Example format:
 {"score":50,"verdict":"maybe","hardRejectionReason":null,"matchBullets":["skill match"],"riskBullets":["missing X"],"bestResumeLabel":null,"explanation":"One short sentence."}
-Required keys: score (0-100 number), verdict ("worth" or "maybe" or "not_worth"), hardRejectionReason (string or null), matchBullets (array of short strings), riskBullets (array of short strings), bestResumeLabel (must be null when no resumes), explanation (one short sentence). No trailing commas. No newlines inside strings.
-`.trim();
+Required keys: score (0-100 number), verdict ("worth" or "maybe" or "not_worth"), hardRejectionReason (string or null), matchBullets (array of short strings), riskBullets (array of short strings), bestResumeLabel (must be null when no resumes), explanation (one short sentence). No trailing commas. No newlines inside strings.{{/if}}
+{{#if rubric}}
+
+## SCORING RUBRIC
+Also include "criterionScores" in the JSON object: rate the job 0–100 on each criterion below, keyed by its id. The final score is computed from these ratings with the weights shown, so rate each criterion on its own evidence; when the posting says nothing about a criterion, use 50.
+{{rubric}}{{/if}}
+
+## JOB FACTS
+Also include "jobFacts" in the JSON object with what the posting states: salary (salaryMin, salaryMax, salaryCurrency as an ISO code, salaryPeriod), employmentType, workplaceType, seniority, yearsRequired (minimum years of experience), languages (spoken languages required), visaSponsorship (true if offered, false if ruled out) and securityClearance. Use null, or an empty list, for anything the posting does not state; do not guess.`,
+};
+
+const SYSTEM_PROMPT = DEFAULT_PROMPT_TEMPLATE.system;
+
+/** Characters of the description the triage pass sees; the title, facts and skills carry most of the signal. */
+const TRIAGE_EXCERPT_CHARS = 1200;
+
+/**
+ * Short prompt for the triage pass of a two-stage run: no resumes, rubric or fact extraction, so a small
+ * model can answer fast. Rendered with the same variables as the main prompt; not user-editable.
+ */
+export const TRIAGE_PROMPT_TEMPLATE: PromptTemplate = {
+  system: `You screen job postings for a job seeker before a detailed review. Reply with ONLY a single JSON object, no other text. Be quick and conservative.`,
+  user: `## JOB
+Title: {{job.title}}
+Company: {{job.company}}
+Location: {{job.location}}
+{{#if job.facts}}Stated on the page: {{job.facts}}
+{{/if}}{{#if job.description}}Description (excerpt):
+{{job.description}}
+{{/if}}
+## USER WANTS
+{{#if profileIntent}}{{profileIntent}}{{else}}(None provided){{/if}}
+
+## USER SKILLS
+{{#if skillsTechStack}}{{skillsTechStack}}{{else}}(None provided){{/if}}
+{{#if skillOverlap}}
+{{skillOverlap}}
+{{/if}}{{#if compensation}}
+## USER PAY
+{{compensation}}
+{{/if}}{{#if locationProfile}}
+## USER LOCATION
+{{locationProfile}}
+{{/if}}
+## DEAL-BREAKERS
+{{#if negativeFilters}}{{negativeFilters}}{{else}}(None provided){{/if}}
+
+Rate how likely this job is a good fit, 0–100. If it clearly violates a deal-breaker, set hardRejectionReason and keep the score below 40.
+Respond with: {"score":50,"verdict":"maybe","hardRejectionReason":null,"explanation":"One short sentence."}`,
+};
+
+
+/** Variables available to templates, with the help text shown in the template editor. */
+export const PROMPT_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: 'job.title', description: 'Job title' },
+  { name: 'job.company', description: 'Company name (may be empty)' },
+  { name: 'job.location', description: 'Job location' },
+  { name: 'job.description', description: 'Full job description' },
+  { name: 'job.facts', description: 'Facts read from the page (salary, workplace, seniority, …); empty when none' },
+  { name: 'profileIntent', description: 'What you are looking for (Settings)' },
+  { name: 'skillsTechStack', description: 'Your skills / tech stack (Settings)' },
+  { name: 'skillOverlap', description: 'Skills in the posting you have, lack, or lack but have a related skill for, matched locally; empty when none are recognized' },
+  { name: 'negativeFilters', description: 'Your deal-breakers (Settings)' },
+  { name: 'compensation', description: 'Your minimum and target pay (Settings); empty when not set' },
+  { name: 'locationProfile', description: "Your home base, commute, relocation and time-zone needs (Settings) plus the local check of this job's location; empty when not set" },
+  { name: 'resumes', description: 'Selected resumes, each as "--- Resume: label ---" plus its text; empty when none' },
+  { name: 'resumeLabels', description: 'Comma-separated labels of the selected resumes' },
+  { name: 'rubric', description: 'Active scoring criteria (id, label, share of the score) and an example criterionScores object' },
+  { name: 'feedbackExamples', description: 'Your recent feedback on other jobs (title, the score given, your reaction and comment); empty when none' },
+];
 
-  return [jobBlock, profileBlock, skillsBlock, negativeBlock, resumesBlock, instructions].join('\n\n');
+const KNOWN_VARIABLES = new Set(PROMPT_VARIABLES.map((v) => v.name));
+const IF_BLOCK = /\{\{#if ([\w.]+)\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g;
+const VARIABLE = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function escapeForPrompt(s: string): string {
+  return s.replace(/\r\n/g, '\n').trim();
+}
+
+/**
+ * Fill a template: `{{name}}` inserts a variable, `{{#if name}}…{{else}}…{{/if}}` (not nested) keeps the
+ * first branch when the variable is non-empty. Inserted values are never parsed as template syntax.
+ * Runs of blank lines left by empty values are collapsed.
+ */
+export function renderPromptTemplate(template: string, vars: Record<string, string>): string {
+  const withBlocks = template.replace(IF_BLOCK, (_, name: string, then: string, otherwise = '') =>
+    vars[name]?.trim() ? then : otherwise
+  );
+  return withBlocks
+    .replace(VARIABLE, (match, name: string) => (name in vars ? vars[name] : match))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Variable names used in a template that the renderer does not know (left in the prompt verbatim). */
+export function findUnknownPromptVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const m of template.matchAll(/\{\{(?:#if\s+)?\s*([\w.]+)\s*\}\}/g)) {
+    if (m[1] !== 'else' && !KNOWN_VARIABLES.has(m[1])) names.add(m[1]);
+  }
+  return [...names];
+}
+
+export function buildPromptVariables(
+  job: JobData,
+  profileIntent: string,
+  skillsTechStack: string,
+  negativeFilters: string,
+  resumes: ResumeRecord[],
+  rubric: RubricCriterion[] = [],
+  compensation: CompensationExpectation | null = null,
+  locationProfile: LocationProfile | null = null,
+  feedbackExamples: FeedbackRecord[] = []
+): Record<string, string> {
+  return {
+    'job.title': escapeForPrompt(job.title),
+    'job.company': escapeForPrompt(job.company ?? ''),
+    'job.location': escapeForPrompt(job.location),
+    'job.description': escapeForPrompt(job.description),
+    'job.facts': jobFactChips(job.facts)
+      .map((c) => c.label)
+      .join('; '),
+    profileIntent: profileIntent ? escapeForPrompt(profileIntent) : '',
+    skillsTechStack: skillsTechStack ? escapeForPrompt(skillsTechStack) : '',
+    skillOverlap: formatSkillOverlapForPrompt(computeSkillOverlap(job, skillsTechStack, resumes)),
+    negativeFilters: negativeFilters ? escapeForPrompt(negativeFilters) : '',
+    resumes: resumes.map((r) => `--- Resume: ${r.label} ---\n${escapeForPrompt(r.text)}\n`).join('\n'),
+    resumeLabels: resumes.map((r) => r.label).join(', '),
+    rubric: formatRubricForPrompt(rubric),
+    compensation: formatExpectationForPrompt(compensation),
+    locationProfile: formatLocationForPrompt(job, locationProfile),
+    feedbackExamples: formatFeedbackExamplesForPrompt(feedbackExamples),
+  };
+}
+
+export function buildUserPrompt(
+  job: JobData,
+  profileIntent: string,
+  skillsTechStack: string,
+  negativeFilters: string,
+  resumes: ResumeRecord[],
+  template: string = DEFAULT_PROMPT_TEMPLATE.user,
+  rubric: RubricCriterion[] = [],
+  compensation: CompensationExpectation | null = null,
+  locationProfile: LocationProfile | null = null,
+  feedbackExamples: FeedbackRecord[] = []
+): string {
+  return renderPromptTemplate(
+    template,
+    buildPromptVariables(
+      job,
+      profileIntent,
+      skillsTechStack,
+      negativeFilters,
+      resumes,
+      rubric,
+      compensation,
+      locationProfile,
+      feedbackExamples
+    )
+  );
+}
+
+/** User prompt for the triage pass: the job's title, location, facts and the start of its description. */
+export function buildTriagePrompt(
+  job: JobData,
+  profileIntent: string,
+  skillsTechStack: string,
+  negativeFilters: string,
+  compensation: CompensationExpectation | null = null,
+  locationProfile: LocationProfile | null = null
+): string {
+  const vars = buildPromptVariables(job, profileIntent, skillsTechStack, negativeFilters, [], [], compensation, locationProfile);
+  const description = vars['job.description'];
+  // `skillOverlap` was computed from the whole description; only the text shown is cut
+  vars['job.description'] =
+    description.length > TRIAGE_EXCERPT_CHARS ? `${description.slice(0, TRIAGE_EXCERPT_CHARS).trimEnd()}…` : description;
+  return renderPromptTemplate(TRIAGE_PROMPT_TEMPLATE.user, vars);
 }
 
 export { SYSTEM_PROMPT };
@@ -0,0 +1,340 @@
+/// <reference types="node" />
+/**
+ * Adapter tests against a local fake HTTP server: fetch is redirected from each provider's real URL to the
+ * server, which records what was sent and answers in that provider's wire format.
+ */
+
+import { createServer, type IncomingHttpHeaders, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderError, triageJob, type EvaluateOptions } from './llm';
+import { MAX_OUTPUT_TOKENS, type ApiProvider } from './providers';
+import type { JobData } from './types';
+
+interface RecordedRequest {
+  /** The provider URL the adapter asked for, before redirection. */
+  url: string;
+  method: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+type Reply = (res: ServerResponse) => void;
+
+const JOB: JobData = {
+  id: '4100000001',
+  title: 'Senior Frontend Engineer',
+  description: 'Build the web app in React and TypeScript.',
+  location: 'Berlin, Germany',
+};
+
+const REPLY = { score: 72, verdict: 'worth', hardRejectionReason: null, explanation: 'Good React match.' };
+const REPLY_TEXT = JSON.stringify(REPLY);
+
+let baseUrl = '';
+let reply: Reply = () => {};
+const requests: RecordedRequest[] = [];
+const server = createServer((req, res) => {
+  let data = '';
+  req.on('data', (chunk) => (data += chunk));
+  req.on('end', () => {
+    const last = requests[requests.length - 1];
+    Object.assign(last, { method: req.method ?? '', headers: req.headers, body: data ? JSON.parse(data) : null });
+    reply(res);
+  });
+});
+
+const realFetch = globalThis.fetch;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  vi.stubGlobal('fetch', (input: string | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    requests.push({ url: url.href, method: '', headers: {}, body: null });
+    return realFetch(`${baseUrl}${url.pathname}${url.search}`, init);
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function sse(events: unknown[]): Reply {
+  return (res) => {
+    res.writeHead(200, { 'content-type': 'text/event-stream' });
+    for (const event of events) res.write(`data: ${JSON.stringify(event)}\n\n`);
+    res.end('data: [DONE]\n\n');
+  };
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Reply {
+  return (res) => {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+}
+
+function text(body: string, status: number, headers: Record<string, string> = {}): Reply {
+  return (res) => {
+    res.writeHead(status, { 'content-type': 'text/plain', ...headers });
+    res.end(body);
+  };
+}
+
+function triage(provider: ApiProvider, apiKey: string, model: string, options: EvaluateOptions = {}) {
+  return triageJob(JOB, 'Frontend roles', 'React, TypeScript', '', provider, apiKey, model, 60, options);
+}
+
+/** The reply text split in two, so streamed parsing has to join the pieces. */
+const [HEAD, TAIL] = [REPLY_TEXT.slice(0, 20), REPLY_TEXT.slice(20)];
+
+const openAiStream = [
+  { choices: [{ delta: { content: HEAD } }] },
+  { choices: [{ delta: { content: TAIL } }] },
+  { choices: [], usage: { prompt_tokens: 11, completion_tokens: 7 } },
+];
+const openAiJson = { choices: [{ message: { content: REPLY_TEXT } }], usage: { prompt_tokens: 11, completion_tokens: 7 } };
+
+const geminiChunk = (part: string) => ({
+  candidates: [{ content: { parts: [{ text: part }] } }],
+  usageMetadata: { promptTokenCount: 11, candidatesTokenCount: 5, thoughtsTokenCount: 2 },
+});
+
+interface ProviderCase {
+  provider: ApiProvider;
+  apiKey: string;
+  model: string;
+  options?: EvaluateOptions;
+  url: string;
+  auth: [header: string, value: string] | null;
+  stream: unknown[];
+  json: unknown;
+  checkBody: (body: any) => void;
+}
+
+function checkOpenAiBody(stream: boolean, structured = true) {
+  return (body: any) => {
+    expect(body.max_tokens).toBe(MAX_OUTPUT_TOKENS);
+    expect(body.stream).toBe(stream);
+    expect(body.messages.map((m: { role: string }) => m.role)).toEqual(['system', 'user']);
+    expect(body.messages[1].content).toContain('Senior Frontend Engineer');
+    if (structured) expect(body.response_format.type).toBe('json_schema');
+    else expect(body.response_format).toBeUndefined();
+  };
+}
+
+const CASES: ProviderCase[] = [
+  {
+    provider: 'ollama',
+    apiKey: '',
+    model: 'llama3.1:8b',
+    url: 'http://127.0.0.1:11434/v1/chat/completions',
+    auth: null,
+    stream: openAiStream,
+    json: openAiJson,
+    checkBody: checkOpenAiBody(true),
+  },
+  {
+    provider: 'groq',
+    apiKey: 'gsk-test',
+    model: 'openai/gpt-oss-120b',
+    url: 'https://api.groq.com/openai/v1/chat/completions',
+    auth: ['authorization', 'Bearer gsk-test'],
+    stream: openAiStream,
+    json: openAiJson,
+    // Groq cannot stream with a schema, so structured requests are not streamed
+    checkBody: checkOpenAiBody(false),
+  },
+  {
+    provider: 'google',
+    apiKey: 'g-test',
+    model: 'gemini-test',
+    url: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-test:streamGenerateContent?alt=sse',
+    auth: ['x-goog-api-key', 'g-test'],
+    stream: [geminiChunk(HEAD), geminiChunk(TAIL)],
+    json: [geminiChunk(HEAD), geminiChunk(TAIL)],
+    checkBody: (body) => {
+      expect(body.systemInstruction.parts[0].text).toBeTruthy();
+      expect(body.contents[0].role).toBe('user');
+      expect(body.generationConfig.maxOutputTokens).toBe(MAX_OUTPUT_TOKENS);
+      expect(body.generationConfig.responseMimeType).toBe('application/json');
+      expect(body.generationConfig.responseSchema.type).toBe('OBJECT');
+    },
+  },
+  {
+    provider: 'openai',
+    apiKey: 'sk-test',
+    model: 'gpt-4o-mini',
+    url: 'https://api.openai.com/v1/chat/completions',
+    auth: ['authorization', 'Bearer sk-test'],
+    stream: openAiStream,
+    json: openAiJson,
+    checkBody: (body) => {
+      checkOpenAiBody(true)(body);
+      expect(body.stream_options).toEqual({ include_usage: true });
+      expect(body.response_format.json_schema.strict).toBe(true);
+    },
+  },
+  {
+    provider: 'anthropic',
+    apiKey: 'sk-ant-test',
+    model: 'claude-haiku-4-5',
+    url: 'https://api.anthropic.com/v1/messages',
+    auth: ['x-api-key', 'sk-ant-test'],
+    stream: [
+      { type: 'message_start', message: { usage: { input_tokens: 11, output_tokens: 1 } } },
+      { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: HEAD } },
+      { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: TAIL } },
+      { type: 'message_delta', usage: { output_tokens: 7 } },
+    ],
+    json: { content: [{ type: 'tool_use', input: REPLY }], usage: { input_tokens: 11, output_tokens: 7 } },
+    checkBody: (body) => {
+      expect(body.max_tokens).toBe(MAX_OUTPUT_TOKENS);
+      expect(body.stream).toBe(true);
+      expect(body.messages[0].role).toBe('user');
+      expect(body.tool_choice).toEqual({ type: 'tool', name: body.tools[0].name });
+      expect(body.tools[0].input_schema.type).toBe('object');
+    },
+  },
+  {
+    provider: 'openrouter',
+    apiKey: 'or-test',
+    model: 'vendor/model:free',
+    url: 'https://openrouter.ai/api/v1/chat/completions',
+    auth: ['authorization', 'Bearer or-test'],
+    stream: openAiStream,
+    json: openAiJson,
+    checkBody: checkOpenAiBody(true),
+  },
+  {
+    provider: 'custom',
+    apiKey: 'local-key',
+    model: 'qwen2.5-7b',
+    options: { customEndpoint: { baseUrl: 'http://llm.internal:8000/v1/', headers: { 'X-Proxy-Token': 'abc' } } },
+    url: 'http://llm.internal:8000/v1/chat/completions',
+    auth: ['authorization', 'Bearer local-key'],
+    stream: openAiStream,
+    json: openAiJson,
+    checkBody: (body) => {
+      // No schema and no usage chunk: self-hosted servers may reject either
+      checkOpenAiBody(true, false)(body);
+      expect(body.stream_options).toBeUndefined();
+    },
+  },
+];
+
+describe.each(CASES)('$provider adapter', (c) => {
+  it('sends the request to the provider URL with its auth and body', async () => {
+    reply = sse(c.stream);
+    await triage(c.provider, c.apiKey, c.model, c.options);
+    expect(requests).toHaveLength(1);
+    const [req] = requests;
+    expect(req.url).toBe(c.url);
+    expect(req.method).toBe('POST');
+    expect(req.headers['content-type']).toBe('application/json');
+    if (c.auth) expect(req.headers[c.auth[0]]).toBe(c.auth[1]);
+    else expect(req.headers.authorization).toBeUndefined();
+    if (c.provider !== 'google') expect(req.body.model).toBe(c.model);
+    if (c.provider === 'custom') expect(req.headers['x-proxy-token']).toBe('abc');
+    c.checkBody(req.body);
+  });
+
+  it('joins a streamed reply and reads its usage', async () => {
+    reply = sse(c.stream);
+    const partials: string[] = [];
+    const result = await triage(c.provider, c.apiKey, c.model, { ...c.options, onPartialText: (t) => partials.push(t) });
+    expect(result).toMatchObject({ score: 72, verdict: 'worth', explanation: 'Good React match.', provider: c.provider });
+    expect(result.usage).toMatchObject({ promptTokens: 11, completionTokens: 7 });
+    expect(result.usage?.estimated).toBeFalsy();
+    expect(partials[partials.length - 1]).toBe(REPLY_TEXT);
+  });
+
+  it('reads a non-streamed JSON reply', async () => {
+    reply = json(c.json);
+    const result = await triage(c.provider, c.apiKey, c.model, c.options);
+    expect(result).toMatchObject({ score: 72, verdict: 'worth' });
+    expect(result.usage).toMatchObject({ promptTokens: 11, completionTokens: 7 });
+  });
+});
+
+/** Run a triage that is expected to fail and return its ProviderError. */
+async function providerError(provider: ApiProvider, apiKey = 'sk-test', model = 'test-model', options: EvaluateOptions = {}) {
+  const error = await triage(provider, apiKey, model, options).then(
+    () => null,
+    (e: unknown) => e
+  );
+  expect(error).toBeInstanceOf(ProviderError);
+  return error as ProviderError;
+}
+
+describe('error mapping', () => {
+  it('maps 401 to an auth error', async () => {
+    reply = json({ error: { message: 'bad key' } }, 401);
+    const e = await providerError('openai');
+    expect(e).toMatchObject({ kind: 'auth', status: 401, provider: 'openai', message: 'Invalid API key.' });
+    expect(e.isRetryable).toBe(false);
+  });
+
+  it('maps 429 to a retryable rate-limit error with the Retry-After wait', async () => {
+    reply = json({ error: { message: 'slow down' } }, 429, { 'retry-after': '7' });
+    const e = await providerError('groq');
+    expect(e).toMatchObject({ kind: 'rate_limit', status: 429, retryAfterMs: 7000, message: 'Rate limited.' });
+    expect(e.isRetryable).toBe(true);
+  });
+
+  it('maps 5xx to a retryable http error carrying the body', async () => {
+    reply = text('upstream exploded', 503);
+    const e = await providerError('anthropic');
+    expect(e).toMatchObject({ kind: 'http', status: 503, message: 'upstream exploded' });
+    expect(e.isRetryable).toBe(true);
+  });
+
+  it('maps other 4xx to a non-retryable http error', async () => {
+    reply = text('bad request', 400);
+    const e = await providerError('google');
+    expect(e).toMatchObject({ kind: 'http', status: 400 });
+    expect(e.isRetryable).toBe(false);
+  });
+
+  it("uses the adapter's own message for Ollama's CORS rejection", async () => {
+    reply = text('', 403);
+    const e = await providerError('ollama', '');
+    expect(e.kind).toBe('auth');
+    expect(e.message).toContain('OLLAMA_ORIGINS');
+  });
+
+  it('reports a cancelled request as cancelled', async () => {
+    const controller = new AbortController();
+    reply = (res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.write(`data: ${JSON.stringify(openAiStream[0])}\n\n`);
+      controller.abort();
+      setTimeout(() => res.end(), 50);
+    };
+    const e = await providerError('openai', 'sk-test', 'gpt-4o-mini', { signal: controller.signal });
+    expect(e.kind).toBe('cancelled');
+  });
+
+  it('surfaces an error event inside a stream', async () => {
+    reply = sse([openAiStream[0], { error: { message: 'Provider overloaded' } }]);
+    await expect(triage('openrouter', 'or-test', 'vendor/model')).rejects.toThrow('Provider overloaded');
+  });
+
+  it('refuses to send without a required API key or a custom model', async () => {
+    expect(await providerError('openai', '')).toMatchObject({ kind: 'auth' });
+    const custom = await providerError('custom', '', '', {
+      customEndpoint: { baseUrl: 'http://llm.internal:8000/v1', headers: {} },
+    });
+    expect(custom).toMatchObject({ kind: 'config', message: 'Set a model for Custom (OpenAI-compatible) in Settings.' });
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * Provider adapters: everything that differs between LLM backends (endpoint, auth, request body,
+ * response shape, error messages) lives here. To add a backend, define an adapter and append it to
+ * PROVIDER_ADAPTERS; the settings UIs, evaluateJob and the manifest host_permissions (synced by
+ * build.mjs) all read from this list.
+ */
+
+import { toGeminiSchema } from './schema';
+import type { CustomEndpointSettings, ProviderRateLimit, TokenUsage } from './types';
+
+const REQUEST_TIMEOUT_MS = 60_000;
+const OLLAMA_TIMEOUT_MS = 180_000; // local model can be slow on CPU (time to first token)
+/** Reply length cap sent with every request; also reserved out of the context window when budgeting the prompt. */
+export const MAX_OUTPUT_TOKENS = 1024;
+const UNLIMITED: ProviderRateLimit = { requestsPerMinute: null, tokensPerMinute: null };
+
+/** How the API key is sent. */
+export type AuthScheme =
+  | { type: 'none' }
+  | { type: 'bearer' }
+  | { type: 'header'; name: string };
+
+/** A conversation turn sent after the user prompt. */
+export interface ChatTurn {
+  role: 'assistant' | 'user';
+  content: string;
+}
+
+/** Input shared by every adapter's request builder. */
+export interface ProviderRequestInput {
+  apiKey: string;
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  /** Earlier reply and correction request, replayed for the schema repair round-trip. */
+  followUp?: ChatTurn[];
+  /** JSON Schema the reply must follow, sent through the provider's structured-output feature. */
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+  /** Only read by the `custom` provider. */
+  customEndpoint?: CustomEndpointSettings;
+}
+
+/** Token counts carried by one event; providers split them across events, later values win. */
+export type UsageReport = Partial<Pick<TokenUsage, 'promptTokens' | 'completionTokens' | 'costUsd'>>;
+
+/** A ready-to-send streaming HTTP request. */
+export interface ProviderHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface ProviderAdapter<Id extends string = string> {
+  id: Id;
+  /** Shown in the settings provider dropdown. */
+  label: string;
+  defaultModel: string;
+  auth: AuthScheme;
+  requiresApiKey: boolean;
+  /** Match patterns the extension needs to reach this provider (merged into manifest host_permissions). */
+  hostPermissions: string[];
+  /** Inactivity timeout: abort when no bytes arrive for this long. */
+  timeoutMs: number;
+  /** Budget enforced by the evaluation queue unless the user overrides it (free-tier limits where known). */
+  defaultRateLimit: ProviderRateLimit;
+  buildRequest(input: ProviderRequestInput): ProviderHttpRequest;
+  /** Text fragment carried by one streamed event (SSE `data:` payload or NDJSON line). */
+  extractDelta(event: unknown): string | null;
+  /** Full text from a non-streamed JSON body (when the server ignores `stream`). */
+  extractText(data: unknown): string;
+  /** Usage carried by a streamed event or a non-streamed body, if any. */
+  extractUsage(event: unknown): UsageReport | null;
+  /** User-facing message for a non-2xx response. */
+  mapError(res: Response, bodyText: string): string;
+  /** User-facing message when the inactivity timeout fires. */
+  describeTimeout(timeoutMs: number): string;
+}
+
+/**
+ * A decoded JSON payload read through `Shape`, whose fields are all optional; anything that is not an object reads
+ * as empty. Callers still check the type of each value they use, since the payload comes from the network.
+ */
+function readAs<Shape extends object>(value: unknown): Shape {
+  return (typeof value === 'object' && value !== null ? value : {}) as Shape;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function defineProvider<Id extends string>(adapter: ProviderAdapter<Id>): ProviderAdapter<Id> {
+  return adapter;
+}
+
+export function getAuthHeaders(auth: AuthScheme, apiKey: string): Record<string, string> {
+  if (auth.type === 'none' || !apiKey) return {};
+  if (auth.type === 'bearer') return { Authorization: `Bearer ${apiKey}` };
+  return { [auth.name]: apiKey };
+}
+
+function defaultMapError(res: Response, bodyText: string): string {
+  return res.status === 401 ? 'Invalid API key.' : res.status === 429 ? 'Rate limited.' : bodyText || res.statusText;
+}
+
+function defaultDescribeTimeout(label: string) {
+  return (timeoutMs: number) =>
+    `Request to ${label} stalled for ${timeoutMs / 1000}s without output. The API may be overloaded—try again.`;
+}
+
+interface OpenAiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  cost?: number;
+}
+
+/** A chat-completions stream chunk or response body, plus the fields of Ollama's native NDJSON lines. */
+interface OpenAiChunk {
+  choices?: Array<{ delta?: { content?: unknown }; message?: { content?: unknown } }>;
+  message?: { content?: unknown };
+  usage?: OpenAiUsage;
+  x_groq?: { usage?: OpenAiUsage };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/** OpenAI chat-completions wire format, shared by every OpenAI-compatible backend. */
+function openAiCompatible<Id extends string>(
+  config: Pick<
+    ProviderAdapter<Id>,
+    'id' | 'label' | 'defaultModel' | 'auth' | 'requiresApiKey' | 'hostPermissions' | 'defaultRateLimit'
+  > &
+    Partial<Pick<ProviderAdapter<Id>, 'timeoutMs' | 'mapError' | 'describeTimeout'>> & {
+      endpoint: string | ((input: ProviderRequestInput) => string);
+      extraHeaders?: (input: ProviderRequestInput) => Record<string, string>;
+      /** Ask for a final usage chunk (`stream_options.include_usage`); off for servers that may reject it. */
+      streamUsage?: boolean;
+      /** Send `response_format: json_schema`; off for servers that may not support it. */
+      structuredOutput?: boolean;
+      /** Whether the API can stream while enforcing a schema; when not, the schema request is not streamed. */
+      streamStructured?: boolean;
+    }
+): ProviderAdapter<Id> {
+  const { endpoint, extraHeaders, streamUsage = true, structuredOutput = true, streamStructured = true, ...rest } =
+    config;
+  return defineProvider({
+    timeoutMs: REQUEST_TIMEOUT_MS,
+    mapError: defaultMapError,
+    describeTimeout: defaultDescribeTimeout(config.label),
+    ...rest,
+    buildRequest: (input) => {
+      const schema = structuredOutput ? input.responseSchema : undefined;
+      const stream = !schema || streamStructured;
+      return {
+        url: typeof endpoint === 'function' ? endpoint(input) : endpoint,
+        headers: {
+          'Content-Type': 'application/json',
+          ...extraHeaders?.(input),
+          ...getAuthHeaders(config.auth, input.apiKey),
+        },
+        body: {
+          model: input.model,
+          max_tokens: MAX_OUTPUT_TOKENS,
+          stream,
+          ...(stream && streamUsage ? { stream_options: { include_usage: true } } : {}),
+          messages: [
+            { role: 'system', content: input.systemPrompt },
+            { role: 'user', content: input.userPrompt },
+            ...(input.followUp ?? []),
+          ],
+          // Ollama maps this onto its native `format` grammar constraint
+          ...(schema
+            ? { response_format: { type: 'json_schema', json_schema: { name: schema.name, strict: true, schema: schema.schema } } }
+            : {}),
+        },
+      };
+    },
+    // Ollama's native API streams NDJSON with `message.content`; /v1 streams OpenAI-style SSE deltas
+    extractDelta: (event) => {
+      const chunk = readAs<OpenAiChunk>(event);
+      return stringOrNull(chunk.choices?.[0]?.delta?.content) ?? stringOrNull(chunk.message?.content);
+    },
+    extractText: (data) => stringOrNull(readAs<OpenAiChunk>(data).choices?.[0]?.message?.content) ?? '',
+    extractUsage: (data) => {
+      const event = readAs<OpenAiChunk>(data);
+      // Groq reports streamed usage under `x_groq`; OpenRouter adds its billed `cost`
+      const usage = event.usage ?? event.x_groq?.usage;
+      if (usage) {
+        return {
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
+          costUsd: typeof usage.cost === 'number' ? usage.cost : undefined,
+        };
+      }
+      if (event.done && typeof event.prompt_eval_count === 'number') {
+        return { promptTokens: event.prompt_eval_count, completionTokens: event.eval_count };
+      }
+      return null;
+    },
+  });
+}
+
+const ollama = openAiCompatible({
+  id: 'ollama',
+  label: 'Ollama (local)',
+  endpoint: 'http://127.0.0.1:11434/v1/chat/completions',
+  defaultModel: 'llama3.1:8b',
+  auth: { type: 'none' },
+  requiresApiKey: false,
+  hostPermissions: ['http://localhost:11434/*', 'http://127.0.0.1:11434/*'],
+  defaultRateLimit: UNLIMITED,
+  timeoutMs: OLLAMA_TIMEOUT_MS,
+  mapError: (res, bodyText) => {
+    if (res.status === 0 || res.type === 'opaque') {
+      return 'Could not reach Ollama. Is it running? (e.g. ollama serve or Docker.)';
+    }
+    if (res.status === 403 || res.status === 401) {
+      return 'Ollama rejected the request (CORS). Quit the Ollama app completely, then in a terminal run: OLLAMA_ORIGINS=* ollama serve';
+    }
+    return defaultMapError(res, bodyText);
+  },
+  describeTimeout: (timeoutMs) =>
+    `Ollama sent nothing for ${timeoutMs / 1000}s. It may be slow on CPU—try again or keep the panel open longer.`,
+});
+
+const groq = openAiCompatible({
+  id: 'groq',
+  label: 'Groq',
+  endpoint: 'https://api.groq.com/openai/v1/chat/completions',
+  defaultModel: 'openai/gpt-oss-120b',
+  auth: { type: 'bearer' },
+  requiresApiKey: true,
+  hostPermissions: ['https://api.groq.com/*'],
+  defaultRateLimit: { requestsPerMinute: 30, tokensPerMinute: 8_000 },
+  // Groq rejects `stream: true` together with a json_schema response format
+  streamStructured: false,
+});
+
+/** One chunk of a Gemini `streamGenerateContent` reply. */
+interface GeminiChunk {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: unknown }> } }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number };
+}
+
+function geminiText(chunk: unknown): string {
+  const parts = readAs<GeminiChunk>(chunk).candidates?.[0]?.content?.parts ?? [];
+  return parts.map((p) => stringOrNull(p.text) ?? '').join('');
+}
+
+/** Every Gemini chunk carries cumulative `usageMetadata`; thinking tokens are billed as output. */
+function geminiUsage(chunk: unknown): UsageReport | null {
+  const meta = readAs<GeminiChunk>(chunk).usageMetadata;
+  if (!meta) return null;
+  return {
+    promptTokens: meta.promptTokenCount,
+    completionTokens: (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0),
+  };
+}
+
+const GOOGLE_AUTH: AuthScheme = { type: 'header', name: 'x-goog-api-key' };
+
+const google = defineProvider({
+  id: 'google',
+  label: 'Google (Gemini)',
+  defaultModel: 'gemini-3-flash-preview',
+  auth: GOOGLE_AUTH,
+  requiresApiKey: true,
+  hostPermissions: ['https://generativelanguage.googleapis.com/*'],
+  defaultRateLimit: { requestsPerMinute: 10, tokensPerMinute: 250_000 },
+  timeoutMs: REQUEST_TIMEOUT_MS,
+  buildRequest: ({ apiKey, model, systemPrompt, userPrompt, followUp, responseSchema }) => ({
+    url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse`,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders(GOOGLE_AUTH, apiKey),
+    },
+    body: {
+      systemInstruction: { parts: [{ text: systemPrompt }] },
+      contents: [
+        { role: 'user', parts: [{ text: userPrompt }] },
+        ...(followUp ?? []).map((t) => ({ role: t.role === 'assistant' ? 'model' : 'user', parts: [{ text: t.content }] })),
+      ],
+      generationConfig: {
+        maxOutputTokens: MAX_OUTPUT_TOKENS,
+        ...(responseSchema
+          ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(responseSchema.schema) }
+          : {}),
+      },
+    },
+  }),
+  extractDelta: (event) => geminiText(event) || null,
+  // Without alt=sse Gemini returns the whole stream as one JSON array
+  extractText: (data) => (Array.isArray(data) ? data.map(geminiText).join('') : geminiText(data)),
+  extractUsage: (data) => geminiUsage(Array.isArray(data) ? data[data.length - 1] : data),
+  mapError: defaultMapError,
+  describeTimeout: defaultDescribeTimeout('Google (Gemini)'),
+});
+
+const openai = openAiCompatible({
+  id: 'openai',
+  label: 'OpenAI',
+  endpoint: 'https://api.openai.com/v1/chat/completions',
+  defaultModel: 'gpt-4o-mini',
+  auth: { type: 'bearer' },
+  requiresApiKey: true,
+  hostPermissions: ['https://api.openai.com/*'],
+  defaultRateLimit: { requestsPerMinute: 500, tokensPerMinute: 200_000 },
+});
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+/** A Messages API stream event or response body. */
+interface AnthropicEvent {
+  type?: string;
+  message?: { usage?: AnthropicUsage };
+  delta?: { text?: unknown; partial_json?: unknown };
+  usage?: AnthropicUsage;
+  content?: Array<{ type?: string; text?: unknown; input?: unknown }>;
+}
+
+const ANTHROPIC_AUTH: AuthScheme = { type: 'header', name: 'x-api-key' };
+
+const anthropic = defineProvider({
+  id: 'anthropic',
+  label: 'Anthropic',
+  defaultModel: 'claude-haiku-4-5',
+  auth: ANTHROPIC_AUTH,
+  requiresApiKey: true,
+  hostPermissions: ['https://api.anthropic.com/*'],
+  defaultRateLimit: { requestsPerMinute: 50, tokensPerMinute: 50_000 },
+  timeoutMs: REQUEST_TIMEOUT_MS,
+  // Structured output goes through a forced tool call whose input schema is the evaluation schema
+  buildRequest: ({ apiKey, model, systemPrompt, userPrompt, followUp, responseSchema }) => ({
+    url: 'https://api.anthropic.com/v1/messages',
+    headers: {
+      ...getAuthHeaders(ANTHROPIC_AUTH, apiKey),
+      'anthropic-version': '2023-06-01',
+      'content-type': 'application/json',
+    },
+    body: {
+      model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      stream: true,
+      messages: [{ role: 'user', content: `${systemPrompt}\n\n${userPrompt}` }, ...(followUp ?? [])],
+      ...(responseSchema
+        ? {
+            tools: [
+              {
+                name: responseSchema.name,
+                description: 'Submit the job evaluation.',
+                input_schema: responseSchema.schema,
+              },
+            ],
+            tool_choice: { type: 'tool', name: responseSchema.name },
+          }
+        : {}),
+    },
+  }),
+  extractDelta: (data) => {
+    const event = readAs<AnthropicEvent>(data);
+    if (event.type !== 'content_block_delta') return null;
+    return stringOrNull(event.delta?.text) ?? stringOrNull(event.delta?.partial_json);
+  },
+  extractText: (data) => {
+    const content = readAs<AnthropicEvent>(data).content;
+    if (!Array.isArray(content)) return '';
+    const toolUse = content.find((block) => block.type === 'tool_use');
+    if (toolUse) return JSON.stringify(toolUse.input);
+    return stringOrNull(content[0]?.text) ?? '';
+  },
+  // Input tokens arrive in `message_start`, the running output count in `message_delta`
+  extractUsage: (data) => {
+    const event = readAs<AnthropicEvent>(data);
+    const usage = event.type === 'message_start' ? event.message?.usage : event.usage;
+    if (!usage) return null;
+    return { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens };
+  },
+  mapError: defaultMapError,
+  describeTimeout: defaultDescribeTimeout('Anthropic'),
+});
+
+const openrouter = openAiCompatible({
+  id: 'openrouter',
+  label: 'OpenRouter',
+  endpoint: 'https://openrouter.ai/api/v1/chat/completions',
+  defaultModel: 'tngtech/deepseek-r1t2-chimera:free',
+  auth: { type: 'bearer' },
+  requiresApiKey: true,
+  hostPermissions: ['https://openrouter.ai/*'],
+  defaultRateLimit: { requestsPerMinute: 20, tokensPerMinute: null },
+});
+
+/** Chat-completions URL for a user-supplied base URL; accepts either `…/v1` or the full `…/chat/completions`. */
+export function resolveCustomChatUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  if (!trimmed) throw new Error('Set the endpoint URL for the custom provider in Settings.');
+  return /\/chat\/completions$/.test(trimmed) ? trimmed : `${trimmed}/chat/completions`;
+}
+
+/** Host match pattern to request at save time (match patterns ignore ports). */
+export function getCustomEndpointOriginPattern(baseUrl: string): string {
+  const url = new URL(resolveCustomChatUrl(baseUrl));
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Custom endpoint URL must start with http:// or https://.');
+  }
+  return `${url.protocol}//${url.hostname}/*`;
+}
+
+/** Any OpenAI-compatible server; host access is granted at runtime via chrome.permissions. */
+const custom = openAiCompatible({
+  id: 'custom',
+  label: 'Custom (OpenAI-compatible)',
+  endpoint: (input) => resolveCustomChatUrl(input.customEndpoint?.baseUrl ?? ''),
+  extraHeaders: (input) => input.customEndpoint?.headers ?? {},
+  defaultModel: '',
+  auth: { type: 'bearer' },
+  requiresApiKey: false,
+  hostPermissions: [],
+  defaultRateLimit: UNLIMITED,
+  streamUsage: false,
+  structuredOutput: false,
+  // Self-hosted servers are often CPU-bound like Ollama
+  timeoutMs: OLLAMA_TIMEOUT_MS,
+  mapError: (res, bodyText) =>
+    res.status === 403 && !bodyText
+      ? 'The custom endpoint refused the request (CORS or missing host permission). Re-save Settings to grant access.'
+      : defaultMapError(res, bodyText),
+  describeTimeout: defaultDescribeTimeout('the custom endpoint'),
+});
+
+/** Registered providers, in the order the settings dropdown shows them. */
+export const PROVIDER_ADAPTERS = [ollama, groq, google, openai, anthropic, openrouter, custom];
+
+export type ApiProvider = (typeof PROVIDER_ADAPTERS)[number]['id'];
+
+const ADAPTERS_BY_ID = new Map<string, ProviderAdapter<ApiProvider>>(PROVIDER_ADAPTERS.map((a) => [a.id, a]));
+
+export function getProviderAdapter(id: ApiProvider): ProviderAdapter<ApiProvider> {
+  const adapter = ADAPTERS_BY_ID.get(id);
+  if (!adapter) throw new Error(`Unknown provider: ${id}`);
+  return adapter;
+}
+
+export function isApiProvider(id: string): id is ApiProvider {
+  return ADAPTERS_BY_ID.has(id);
+}
+
+/** Default model per provider; used when user does not set a custom model. */
+export const PROVIDER_MODELS = Object.fromEntries(
+  PROVIDER_ADAPTERS.map((a) => [a.id, a.defaultModel])
+) as Record<ApiProvider, string>;
+
+/** User override when set, otherwise the adapter's default budget. */
+export function resolveRateLimit(
+  provider: ApiProvider,
+  overrides: Partial<Record<ApiProvider, ProviderRateLimit>> | undefined
+): ProviderRateLimit {
+  return overrides?.[provider] ?? getProviderAdapter(provider).defaultRateLimit;
+}
+
+export const PROVIDER_LABELS = Object.fromEntries(
+  PROVIDER_ADAPTERS.map((a) => [a.id, a.label])
+) as Record<ApiProvider, string>;
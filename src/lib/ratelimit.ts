@@ -0,0 +1,84 @@
+import type { ApiProvider, ProviderRateLimit } from './types';
+
+const MINUTE_MS = 60_000;
+
+/** Letters outside Latin, which tokenizers split far finer than English (CJK, Cyrillic, Arabic, …). */
+const NON_LATIN = /[^\s\x20-\u024f\u2000-\u206f]/g;
+
+/**
+ * Rough token count for budgeting: ~4 characters per token for English prose and code, one per character
+ * for non-Latin scripts. Errs high so a prompt that fits by this count fits the model.
+ */
+export function estimateTokens(text: string): number {
+  const nonLatin = text.match(NON_LATIN)?.length ?? 0;
+  return Math.ceil((text.length - nonLatin) / 4 + nonLatin);
+}
+
+/** Classic token bucket: holds up to `capacity`, refills linearly to full over one minute. */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(readonly capacity: number, now: number) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / MINUTE_MS);
+    this.updatedAt = now;
+  }
+
+  /** Ms until `amount` can be taken (0 = now). A request larger than the bucket waits for a full bucket. */
+  waitMs(amount: number, now: number): number {
+    this.refill(now);
+    const needed = Math.min(amount, this.capacity);
+    if (this.tokens >= needed) return 0;
+    return Math.ceil(((needed - this.tokens) * MINUTE_MS) / this.capacity);
+  }
+
+  /** Take `amount`; may go negative for oversized requests, which then delays the next ones. */
+  take(amount: number): void {
+    this.tokens -= amount;
+  }
+}
+
+interface ProviderBuckets {
+  limit: ProviderRateLimit;
+  requests: TokenBucket | null;
+  tokens: TokenBucket | null;
+}
+
+function sameLimit(a: ProviderRateLimit, b: ProviderRateLimit): boolean {
+  return a.requestsPerMinute === b.requestsPerMinute && a.tokensPerMinute === b.tokensPerMinute;
+}
+
+/**
+ * Requests-per-minute and tokens-per-minute budgets per provider. `reserve` either takes one request
+ * and `tokens` from the provider's buckets and returns 0, or returns how long to wait before asking again.
+ */
+export class ProviderRateLimiter {
+  private readonly buckets = new Map<ApiProvider, ProviderBuckets>();
+
+  private getBuckets(provider: ApiProvider, limit: ProviderRateLimit, now: number): ProviderBuckets {
+    const existing = this.buckets.get(provider);
+    if (existing && sameLimit(existing.limit, limit)) return existing;
+    const created: ProviderBuckets = {
+      limit,
+      requests: limit.requestsPerMinute ? new TokenBucket(limit.requestsPerMinute, now) : null,
+      tokens: limit.tokensPerMinute ? new TokenBucket(limit.tokensPerMinute, now) : null,
+    };
+    this.buckets.set(provider, created);
+    return created;
+  }
+
+  reserve(provider: ApiProvider, tokens: number, limit: ProviderRateLimit, now = Date.now()): number {
+    const b = this.getBuckets(provider, limit, now);
+    const wait = Math.max(b.requests?.waitMs(1, now) ?? 0, b.tokens?.waitMs(tokens, now) ?? 0);
+    if (wait > 0) return wait;
+    b.requests?.take(1);
+    b.tokens?.take(tokens);
+    return 0;
+  }
+}
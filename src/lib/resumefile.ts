@@ -0,0 +1,351 @@
+/**
+ * Reading resume files in the popup. Documents become lines: PDF text rebuilt from its positions (larger-font
+ * lines flagged as headings, bullets with their wrapped lines joined), DOCX and ODT from their markup
+ * (headings, paragraphs, list items, table cells), RTF, Markdown and plain text from their syntax; the lines
+ * are then parsed into a structured resume. JSON Resume files and LinkedIn data exports are structured
+ * already and are rendered into text instead.
+ */
+
+import type { StructuredResume } from './types';
+import { linesFromText, linesToText, parseResume, structuredToLines, type ResumeLine } from './resumeparse';
+import { fromJsonResume, fromLinkedInExport, isJsonResume, LINKEDIN_EXPORT_FILES } from './resumeimport';
+import { readZipEntries } from './zip';
+
+export interface ParsedResumeFile {
+  /** Line-per-line text, stored as the resume's text and sent to the model. */
+  text: string;
+  structured: StructuredResume;
+}
+
+/** For the file input's `accept`. */
+export const RESUME_FILE_ACCEPT = '.pdf,.docx,.odt,.rtf,.txt,.md,.markdown,.json,.zip';
+
+/** A line this much larger than the body text is a heading. */
+const HEADING_SIZE_RATIO = 1.15;
+const HEADING_MAX_CHARS = 60;
+/** A gap between items on one line wider than this many font sizes separates columns ("Acme | 2020 – 2023"). */
+const COLUMN_GAP = 2;
+const BULLET_GLYPH = /^[•·▪◦●■‣►✓*–-]\s*/;
+
+interface PdfRow {
+  y: number;
+  size: number;
+  parts: Array<{ x: number; end: number; str: string }>;
+}
+
+function getPdfWorkerUrl(): string {
+  let workerUrl = '';
+  try {
+    if (typeof chrome !== 'undefined' && chrome.runtime?.getURL) {
+      workerUrl = chrome.runtime.getURL('pdf.worker.mjs');
+    }
+  } catch {
+    workerUrl = '';
+  }
+  if (!workerUrl || workerUrl.includes('invalid')) {
+    throw new Error('PDF parsing unavailable (extension context invalid). Reopen the panel or use DOCX.');
+  }
+  return workerUrl;
+}
+
+function joinRow(row: PdfRow): string {
+  const parts = [...row.parts].sort((a, b) => a.x - b.x);
+  let text = '';
+  let prevEnd = -Infinity;
+  for (const part of parts) {
+    const gap = part.x - prevEnd;
+    if (text) text += gap > row.size * COLUMN_GAP ? ' | ' : gap > row.size * 0.15 ? ' ' : '';
+    text += part.str;
+    prevEnd = part.end;
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+async function readPdfLines(data: ArrayBuffer): Promise<ResumeLine[]> {
+  const pdfjsLib = await import('pdfjs-dist');
+  pdfjsLib.GlobalWorkerOptions.workerSrc = getPdfWorkerUrl();
+  const pdf = await pdfjsLib.getDocument({ data, useSystemFonts: true }).promise;
+  const rows: PdfRow[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    let row: PdfRow | null = null;
+    for (const item of content.items) {
+      if (!('str' in item) || !item.str.trim()) continue;
+      const [, , , scaleY, x, y] = item.transform as number[];
+      const size = Math.abs(scaleY) || item.height || 10;
+      // Items of one line share a baseline; a new page always starts a new line
+      if (!row || Math.abs(row.y - y) > size * 0.5) {
+        row = { y, size, parts: [] };
+        rows.push(row);
+      }
+      row.size = Math.max(row.size, size);
+      row.parts.push({ x, end: x + item.width, str: item.str });
+    }
+  }
+
+  // Body size: the font size most of the text is set in
+  const charsBySize = new Map<number, number>();
+  for (const r of rows) {
+    const size = Math.round(r.size);
+    charsBySize.set(size, (charsBySize.get(size) ?? 0) + r.parts.reduce((n, p) => n + p.str.length, 0));
+  }
+  const bodySize = [...charsBySize].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 10;
+
+  const lines: ResumeLine[] = [];
+  let bulletTextX: number | null = null;
+  for (const r of rows) {
+    const text = joinRow(r);
+    if (!text) continue;
+    const x = Math.min(...r.parts.map((p) => p.x));
+    const heading = r.size > bodySize * HEADING_SIZE_RATIO && text.length <= HEADING_MAX_CHARS;
+    if (BULLET_GLYPH.test(text) && text.replace(BULLET_GLYPH, '')) {
+      lines.push({ text: text.replace(BULLET_GLYPH, ''), bullet: true });
+      // Wrapped lines of the bullet start where its text does, right of the glyph
+      bulletTextX = x + r.size * 0.5;
+      continue;
+    }
+    const previous = lines[lines.length - 1];
+    if (previous?.bullet && bulletTextX != null && !heading && x >= bulletTextX) {
+      previous.text += ` ${text}`;
+      continue;
+    }
+    bulletTextX = null;
+    lines.push(heading ? { text, heading } : { text });
+  }
+  return lines;
+}
+
+function blockLines(el: Element, lines: ResumeLine[]): void {
+  const text = (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+  switch (el.tagName.toLowerCase()) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      if (text) lines.push({ text, heading: true });
+      return;
+    case 'p': {
+      if (!text) return;
+      // A paragraph that is all bold reads as a heading
+      const bold = Array.from(el.querySelectorAll('strong, b')).map((b) => b.textContent ?? '').join('');
+      const heading = text.length <= HEADING_MAX_CHARS && bold.replace(/\s+/g, ' ').trim() === text;
+      lines.push(heading ? { text, heading } : { text });
+      return;
+    }
+    case 'ul':
+    case 'ol':
+      for (const li of Array.from(el.children)) {
+        const item = li.cloneNode(true) as Element;
+        item.querySelectorAll('ul, ol').forEach((nested) => nested.remove());
+        const itemText = (item.textContent ?? '').replace(/\s+/g, ' ').trim();
+        if (itemText) lines.push({ text: itemText, bullet: true });
+        li.querySelectorAll(':scope > ul, :scope > ol').forEach((nested: Element) => blockLines(nested, lines));
+      }
+      return;
+    default:
+      // Tables (two-column layouts) and other containers: their blocks in order
+      if (el.children.length > 0) for (const child of Array.from(el.children)) blockLines(child, lines);
+      else if (text) lines.push({ text });
+  }
+}
+
+async function readDocxLines(arrayBuffer: ArrayBuffer): Promise<ResumeLine[]> {
+  const mammoth = await import('mammoth');
+  const result = await mammoth.convertToHtml({ arrayBuffer });
+  const doc = new DOMParser().parseFromString(result.value, 'text/html');
+  const lines: ResumeLine[] = [];
+  for (const el of Array.from(doc.body.children)) blockLines(el, lines);
+  return lines;
+}
+
+const ODF_OFFICE_NS = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+
+/** Text of an ODT paragraph; spacing, tab and line-break elements become spaces, notes are left out. */
+function odtText(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? '';
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const name = (node as Element).localName;
+  if (name === 's' || name === 'tab' || name === 'line-break') return ' ';
+  if (name === 'note') return '';
+  return Array.from(node.childNodes).map(odtText).join('');
+}
+
+/** Blocks of an ODT body: text:h, text:p, text:list and containers (tables, sections) walked in order. */
+function odtBlockLines(el: Element, lines: ResumeLine[], inList = false): void {
+  const text = odtText(el).replace(/\s+/g, ' ').trim();
+  switch (el.localName) {
+    case 'h':
+      if (text) lines.push({ text, heading: true });
+      return;
+    case 'p':
+      if (text) lines.push(inList ? { text, bullet: true } : { text });
+      return;
+    case 'list':
+    case 'list-item':
+      for (const child of Array.from(el.children)) odtBlockLines(child, lines, true);
+      return;
+    default:
+      for (const child of Array.from(el.children)) odtBlockLines(child, lines, inList);
+  }
+}
+
+async function readOdtLines(data: ArrayBuffer): Promise<ResumeLine[]> {
+  const entries = await readZipEntries(data, (path) => path === 'content.xml');
+  const content = entries.get('content.xml');
+  if (!content) throw new Error('Not an OpenDocument text file (content.xml missing).');
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(content), 'application/xml');
+  const body = doc.getElementsByTagNameNS(ODF_OFFICE_NS, 'text')[0];
+  const lines: ResumeLine[] = [];
+  if (body) for (const el of Array.from(body.children)) odtBlockLines(el, lines);
+  return lines;
+}
+
+/** Control words that start groups of metadata, fonts, styles or pictures rather than text. */
+const RTF_SKIPPED_GROUPS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'header', 'headerl', 'headerr', 'footer', 'footerl', 'footerr',
+  'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'themedata', 'colorschememapping', 'latentstyles',
+  'datastore', 'xmlnstbl', 'object', 'nonshppict', 'fldinst',
+]);
+const RTF_CHARACTERS: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n', page: '\n', row: '\n', tab: '\t', cell: '\t',
+  bullet: '•', emdash: '—', endash: '–', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+};
+const RTF_TOKEN = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|([^\\{}\r\n]+)/gi;
+
+/** Plain text of an RTF document: paragraphs as lines, \uN and \'hh characters decoded (cp1252). */
+function rtfToText(rtf: string): string {
+  const cp1252 = new TextDecoder('windows-1252');
+  const groups: boolean[] = [];
+  let skip = false;
+  /** Characters after \uN that stand in for it in readers without Unicode (set by \ucN). */
+  let fallbackChars = 1;
+  let pendingFallback = 0;
+  let out = '';
+  for (const [, word, arg, hex, symbol, brace, plain] of rtf.matchAll(RTF_TOKEN)) {
+    if (brace === '{') {
+      groups.push(skip);
+    } else if (brace === '}') {
+      skip = groups.pop() ?? false;
+    } else if (word) {
+      if (RTF_SKIPPED_GROUPS.has(word)) skip = true;
+      else if (word === 'uc') fallbackChars = Number(arg ?? 1);
+      else if (skip) continue;
+      else if (word === 'u') {
+        const code = Number(arg);
+        out += String.fromCharCode(code < 0 ? code + 65536 : code);
+        pendingFallback = fallbackChars;
+      } else out += RTF_CHARACTERS[word] ?? '';
+    } else if (symbol) {
+      if (symbol === '*') skip = true;
+      else if (!skip) out += symbol === '~' ? ' ' : symbol === '_' ? '-' : '{}\\'.includes(symbol) ? symbol : '';
+    } else if (hex) {
+      if (pendingFallback > 0) pendingFallback--;
+      else if (!skip) out += cp1252.decode(Uint8Array.of(parseInt(hex, 16)));
+    } else if (plain && !skip) {
+      const dropped = Math.min(pendingFallback, plain.length);
+      pendingFallback -= dropped;
+      out += plain.slice(dropped);
+    }
+  }
+  return out;
+}
+
+/** Markdown inline syntax removed; outside headings, links keep their address when it differs from the text. */
+function markdownInline(text: string, keepLinks: boolean): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label: string, url: string) =>
+      !keepLinks || label === url || url.startsWith('#') ? label : `${label} (${url})`
+    )
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|\W)[*_](\S(?:.*?\S)?)[*_](?=\W|$)/g, '$1$2')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function markdownToLines(markdown: string): ResumeLine[] {
+  const lines: ResumeLine[] = [];
+  let afterBlank = true;
+  for (const raw of markdown.split(/\r?\n/)) {
+    const line = raw.trim();
+    const blank = afterBlank;
+    afterBlank = !line;
+    // Blank lines and table header rules
+    if (!line || (/^\|?[\s:|-]+\|?$/.test(line) && line.includes('-') && line.includes('|'))) continue;
+    const previous = lines[lines.length - 1];
+    // A line of === or --- underlines the line above as a heading; after a blank line --- is a rule
+    if (/^(?:={3,}|-{3,}|\*{3,})$/.test(line)) {
+      if (!blank && previous && !previous.bullet && !line.startsWith('*')) previous.heading = true;
+      continue;
+    }
+    const heading = line.match(/^#{1,6}\s+(.*?)\s*#*$/);
+    const bullet = line.match(/^(?:[-*+]|\d+[.)])\s+(.*)$/);
+    const text = markdownInline(
+      heading?.[1] ?? bullet?.[1] ?? (line.startsWith('|') ? line.replace(/^\||\|$/g, '').split('|').join(' | ') : line.replace(/^>\s*/, '')),
+      !heading
+    );
+    if (!text) continue;
+    // An indented line under a list item continues it
+    if (!heading && !bullet && !blank && /^\s/.test(raw) && previous?.bullet) {
+      previous.text += ` ${text}`;
+      continue;
+    }
+    lines.push(heading ? { text, heading: true } : bullet ? { text, bullet: true } : { text });
+  }
+  return lines;
+}
+
+function fromLines(lines: ResumeLine[]): ParsedResumeFile {
+  return { text: linesToText(lines), structured: parseResume(lines) };
+}
+
+/** Imported structure is kept as is (no parser version), and its text rendered from it. */
+function fromStructured(structured: StructuredResume): ParsedResumeFile {
+  return { text: linesToText(structuredToLines(structured)), structured };
+}
+
+async function readLinkedInExport(data: ArrayBuffer): Promise<ParsedResumeFile> {
+  const fileName = (path: string) => path.split('/').pop() ?? path;
+  const entries = await readZipEntries(data, (path) => LINKEDIN_EXPORT_FILES.includes(fileName(path)));
+  const files = new Map([...entries].map(([path, bytes]) => [fileName(path), new TextDecoder().decode(bytes)]));
+  const structured = fromLinkedInExport(files);
+  if (!structured) throw new Error('This archive is not a LinkedIn data export (no Profile.csv or Positions.csv).');
+  return fromStructured(structured);
+}
+
+const READERS: Array<{ extensions: string[]; read: (file: File) => Promise<ParsedResumeFile> }> = [
+  { extensions: ['.pdf'], read: async (file) => fromLines(await readPdfLines(await file.arrayBuffer())) },
+  { extensions: ['.docx'], read: async (file) => fromLines(await readDocxLines(await file.arrayBuffer())) },
+  { extensions: ['.odt'], read: async (file) => fromLines(await readOdtLines(await file.arrayBuffer())) },
+  { extensions: ['.rtf'], read: async (file) => fromLines(linesFromText(rtfToText(await file.text()))) },
+  { extensions: ['.txt'], read: async (file) => fromLines(linesFromText(await file.text())) },
+  { extensions: ['.md', '.markdown'], read: async (file) => fromLines(markdownToLines(await file.text())) },
+  {
+    extensions: ['.json'],
+    read: async (file) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error('The file is not valid JSON.');
+      }
+      if (!isJsonResume(data)) throw new Error('The JSON file is not a JSON Resume (jsonresume.org) document.');
+      return fromStructured(fromJsonResume(data));
+    },
+  },
+  { extensions: ['.zip'], read: async (file) => readLinkedInExport(await file.arrayBuffer()) },
+];
+
+/** Read a resume file into its text and structure; throws for a format that has no reader. */
+export async function readResumeFile(file: File): Promise<ParsedResumeFile> {
+  const name = file.name.toLowerCase();
+  const reader = READERS.find((r) => r.extensions.some((ext) => name.endsWith(ext)));
+  if (!reader) {
+    throw new Error('Unsupported file type. Use PDF, DOCX, ODT, RTF, TXT, Markdown, JSON Resume or a LinkedIn data export (.zip).');
+  }
+  return reader.read(file);
+}
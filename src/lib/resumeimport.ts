@@ -0,0 +1,212 @@
+/**
+ * Resumes from structured data rather than a document: the jsonresume.org schema and the CSV files of a
+ * LinkedIn "Download your data" archive, mapped onto a structured resume.
+ */
+
+import type { ResumeEducation, ResumeExperience, StructuredResume } from './types';
+import { parseResumeDate } from './resumeparse';
+
+/** Only the jsonresume.org fields that have a place in a structured resume. */
+interface JsonResume {
+  basics?: {
+    name?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: { city?: string; region?: string; countryCode?: string };
+    profiles?: Array<{ url?: string }>;
+  };
+  work?: Array<{
+    name?: string;
+    /** Pre-1.0 schema name of `name`. */
+    company?: string;
+    position?: string;
+    location?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+  }>;
+  education?: Array<{ institution?: string; area?: string; studyType?: string; startDate?: string; endDate?: string }>;
+  skills?: Array<{ name?: string; keywords?: string[] }>;
+  certificates?: Array<{ name?: string; issuer?: string; date?: string }>;
+}
+
+const LEADING_BULLET = /^[•·▪◦●■‣►✓*–-]\s*/;
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+}
+
+function date(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? parseResumeDate(value) : null;
+}
+
+/** Description lines as bullets, without the bullet glyphs people type. */
+function toBullets(description: string): string[] {
+  return description
+    .split(/\r?\n/)
+    .map((l) => l.replace(LEADING_BULLET, '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
+
+/** Whether parsed JSON looks like a JSON Resume document. */
+export function isJsonResume(data: unknown): data is JsonResume {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return false;
+  const d = data as JsonResume;
+  return (d.basics != null && typeof d.basics === 'object') || Array.isArray(d.work);
+}
+
+export function fromJsonResume(data: JsonResume): StructuredResume {
+  const basics = data.basics ?? {};
+  const location = basics.location ?? {};
+  return {
+    contact: {
+      name: text(basics.name),
+      email: text(basics.email),
+      phone: text(basics.phone),
+      location: [location.city, location.region, location.countryCode].map(text).filter(Boolean).join(', '),
+      links: unique([text(basics.url), ...(basics.profiles ?? []).map((p) => text(p?.url))]),
+    },
+    summary: text(basics.summary),
+    experience: (data.work ?? []).map(
+      (w): ResumeExperience => ({
+        title: text(w.position),
+        employer: text(w.name) || text(w.company),
+        location: text(w.location),
+        start: date(w.startDate),
+        end: date(w.endDate),
+        current: !w.endDate && w.startDate != null,
+        bullets: [...(w.summary ? toBullets(w.summary) : []), ...(w.highlights ?? []).map(text).filter(Boolean)],
+      })
+    ),
+    education: (data.education ?? []).map(
+      (e): ResumeEducation => ({
+        institution: text(e.institution),
+        degree: [e.studyType, e.area].map(text).filter(Boolean).join(', '),
+        start: date(e.startDate),
+        end: date(e.endDate),
+      })
+    ),
+    // A skill's keywords are the concrete skills ("Frontend": React, Vue)
+    skills: unique((data.skills ?? []).flatMap((s) => (s.keywords?.length ? s.keywords.map(text) : [text(s.name)]))),
+    certifications: (data.certificates ?? [])
+      .filter((c) => text(c.name))
+      .map((c) => withDetails(text(c.name), [text(c.issuer), date(c.date)?.slice(0, 4)])),
+  };
+}
+
+/** "AWS Certified Developer (Amazon, 2021)". */
+function withDetails(name: string, details: Array<string | null | undefined>): string {
+  const shown = details.filter(Boolean).join(', ');
+  return shown ? `${name} (${shown})` : name;
+}
+
+/** Rows of a CSV file as objects keyed by the header row, which is the first row naming `column`. */
+function parseCsv(content: string, column: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+
+  const headerIndex = rows.findIndex((r) => r.some((cell) => cell.trim() === column));
+  if (headerIndex === -1) return [];
+  const header = rows[headerIndex].map((h) => h.trim());
+  return rows
+    .slice(headerIndex + 1)
+    .filter((r) => r.some((cell) => cell.trim()))
+    .map((r) => Object.fromEntries(header.map((h, i) => [h, (r[i] ?? '').trim()])));
+}
+
+/** The CSV files of a LinkedIn data export this importer reads, by file name. */
+export const LINKEDIN_EXPORT_FILES = [
+  'Profile.csv',
+  'Positions.csv',
+  'Education.csv',
+  'Skills.csv',
+  'Certifications.csv',
+  'Email Addresses.csv',
+  'PhoneNumbers.csv',
+];
+
+/**
+ * A structured resume from the CSV files of a LinkedIn "Download your data" archive, keyed by file name.
+ * Null when the archive has neither a profile nor positions.
+ */
+export function fromLinkedInExport(files: Map<string, string>): StructuredResume | null {
+  const csv = (name: string, column: string) => parseCsv(files.get(name) ?? '', column);
+  const profile = csv('Profile.csv', 'First Name')[0];
+  const positions = csv('Positions.csv', 'Company Name');
+  if (!profile && positions.length === 0) return null;
+  const emails = csv('Email Addresses.csv', 'Email Address');
+  const primaryEmail = emails.find((e) => e['Primary'] === 'Yes') ?? emails[0];
+  // Websites are listed as "[PORTFOLIO:https://…,OTHER:https://…]"
+  const websites = (profile?.['Websites'] ?? '').match(/https?:\/\/[^\s,\]]+/g) ?? [];
+
+  return {
+    contact: {
+      name: text([profile?.['First Name'], profile?.['Last Name']].filter(Boolean).join(' ')),
+      email: text(primaryEmail?.['Email Address']),
+      phone: text(csv('PhoneNumbers.csv', 'Number')[0]?.['Number']),
+      location: text(profile?.['Geo Location']),
+      links: unique(websites),
+    },
+    summary: text(profile?.['Summary']) || text(profile?.['Headline']),
+    experience: positions.map(
+      (p): ResumeExperience => ({
+        title: text(p['Title']),
+        employer: text(p['Company Name']),
+        location: text(p['Location']),
+        start: date(p['Started On']),
+        end: date(p['Finished On']),
+        current: !p['Finished On'] && !!p['Started On'],
+        bullets: toBullets(p['Description'] ?? ''),
+      })
+    ),
+    education: csv('Education.csv', 'School Name').map(
+      (e): ResumeEducation => ({
+        institution: text(e['School Name']),
+        degree: text(e['Degree Name']),
+        start: date(e['Start Date']),
+        end: date(e['End Date']),
+      })
+    ),
+    skills: unique(csv('Skills.csv', 'Name').map((s) => text(s['Name']))),
+    certifications: csv('Certifications.csv', 'Name')
+      .filter((c) => text(c['Name']))
+      .map((c) => withDetails(text(c['Name']), [text(c['Authority']), date(c['Started On'])?.slice(0, 4)])),
+  };
+}
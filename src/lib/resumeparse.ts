@@ -0,0 +1,415 @@
+/**
+ * Structured resumes: the lines of a resume file, with headings and bullets from the PDF layout or DOCX
+ * markup, split into contact details, summary, experience, education, skills and certifications; and the
+ * years of experience per skill that the dated roles add up to.
+ */
+
+import type {
+  ExperienceYears,
+  ResumeContact,
+  ResumeDate,
+  ResumeEducation,
+  ResumeExperience,
+  ResumeRecord,
+  StructuredResume,
+} from './types';
+import { extractSkills } from './skills';
+
+/** Bump when the parser changes; records parsed by an older version (and not edited since) are re-parsed. */
+export const STRUCTURED_RESUME_VERSION = 1;
+
+/** One line of a resume file as extracted, before parsing. */
+export interface ResumeLine {
+  text: string;
+  /** Set from the file's formatting (larger font, heading style); the text decides which section it opens. */
+  heading?: boolean;
+  bullet?: boolean;
+}
+
+const SENIORITY = 'Senior|Sr\\.|Junior|Jr\\.|Staff|Principal|Lead|Chief|Associate';
+/** Words that qualify a role in a job title; a vocabulary so names and prose before a title are not taken along. */
+const FIELD =
+  'Front[- ]?end|Back[- ]?end|Full[- ]?stack|Software|Web|Mobile|iOS|Android|Data|Machine Learning|ML|AI|DevOps|Cloud|Platform|Site Reliability|Infrastructure|Systems?|Solutions?|QA|Test|Automation|Product|Project|Program|Engineering|UX|UI|Security|Embedded|Game|Research|Technical|Application|Database|Network|Analytics|Business|Marketing|Sales|Java|JavaScript|TypeScript|Python|React|Node\\.js|\\.NET|Ruby|PHP|Integration|Support|Delivery';
+const ROLE =
+  'Engineer|Developer|Programmer|Architect|Designer|Manager|Analyst|Scientist|Consultant|Administrator|Specialist|Researcher|Tester|Intern|Director|Lead|Officer|Owner';
+/**
+ * An optional seniority word, up to three field words and a role noun ("Senior Frontend Engineer", "Lead
+ * Developer"), on one line.
+ */
+const TITLE = new RegExp(`\\b(?:(?:${SENIORITY})[^\\S\\n]+)?(?:(?:${FIELD})[^\\S\\n]+){0,3}(?:${ROLE})\\b`, 'gi');
+
+/** Job titles in `text`, in order, whitespace normalized. */
+export function matchJobTitles(text: string): string[] {
+  return [...text.matchAll(TITLE)].map((m) => m[0].replace(/\s+/g, ' '));
+}
+
+type SectionKind = 'summary' | 'experience' | 'education' | 'skills' | 'certifications' | 'other';
+
+/** Heading keywords per section; `other` sections (projects, languages, …) are not parsed. */
+const SECTION_KEYWORDS: Array<[SectionKind, string]> = [
+  ['experience', 'experience|employment|work history|career history|professional background'],
+  ['education', 'education|academic|studies'],
+  ['certifications', 'certifications?|certificates|licen[cs]es|courses|training'],
+  ['skills', 'skills|technologies|tech stack|technical stack|competencies|tools|expertise'],
+  ['summary', 'summary|profile|about me|about|objective|personal statement'],
+  ['other', 'projects?|languages|interests|hobbies|volunteering|awards|publications|references|achievements'],
+];
+
+/** Up to this many words around the keyword still read as a heading ("Professional Experience"). */
+const HEADING_MAX_WORDS = 4;
+/** Longer lines are prose even without a bullet. */
+const BODY_LINE_CHARS = 120;
+
+const BULLET = /^[•·▪◦●■‣►✓*–-]\s*/;
+const MONTH_NAMES = 'jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec';
+const DATE = `(?:(${MONTH_NAMES})[a-z]*\\.?\\s+|(\\d{1,2})[/.])?((?:19|20)\\d{2})`;
+const DATE_RANGE = new RegExp(
+  `${DATE}\\s*(?:-|–|—|to|until)\\s*(?:${DATE}|(present|current|now|today|ongoing))`,
+  'i'
+);
+const SINGLE_DATE = new RegExp(`\\b${DATE}\\b`, 'i');
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE = /\+?\d[\d ()./-]{6,}\d/;
+const LINK = /\b(?:https?:\/\/|www\.|(?:linkedin|github|gitlab)\.com\/)[^\s|,]+/gi;
+/** "Berlin, Germany", "Austin, TX", "Remote". */
+const LOCATION = /^(?:remote|hybrid|on-?site)$|^\p{Lu}[\p{L}.' -]*,\s*\p{Lu}[\p{L}.' -]*$/u;
+const INSTITUTION = /universit|college|school|institut|academy|polytechnic|hochschule|école/i;
+const DEGREE = /bachelor|master|b\.?sc|m\.?sc|ph\.?d|doctor|degree|diploma|\bb\.?a\b|\bm\.?a\b|mba|b\.?eng|m\.?eng|b\.?s\b|m\.?s\b|associate/i;
+/** Separators between the title, employer and location in an entry's header line. */
+const PART_SEPARATOR = /\s+(?:\||•|·|—|–|-|@|at)\s+|\s*\|\s*|\t/;
+
+function normalizeHeading(text: string): string {
+  return text
+    .replace(/[^\p{L}&\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * The section a heading opens. Plain text lines must be only the heading words ("Work Experience:");
+ * lines the file formatted as headings may carry more ("Experience & Projects").
+ */
+function classifyHeading(line: ResumeLine): SectionKind | null {
+  const text = normalizeHeading(line.text);
+  const words = text.split(' ').length;
+  if (!text || words > (line.heading ? HEADING_MAX_WORDS + 2 : HEADING_MAX_WORDS)) return null;
+  for (const [kind, keywords] of SECTION_KEYWORDS) {
+    const pattern = line.heading
+      ? new RegExp(`\\b(?:${keywords})\\b`)
+      : new RegExp(`^(?:[a-z]+ ){0,2}(?:${keywords})(?: (?:and|&) [a-z]+)?$`);
+    if (pattern.test(text)) return kind;
+  }
+  return null;
+}
+
+/** Lines of plain text (pasted, or a resume saved before structure was kept); bullets and headings guessed. */
+export function linesFromText(text: string): ResumeLine[] {
+  return text
+    .split(/\r?\n/)
+    .map((raw) => raw.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .map((raw) => {
+      const bullet = BULLET.test(raw) && raw.replace(BULLET, '').length > 0;
+      const text = bullet ? raw.replace(BULLET, '') : raw;
+      const allCaps = text.length <= 40 && /\p{Lu}/u.test(text) && text === text.toUpperCase();
+      return { text, ...(bullet ? { bullet } : {}), ...(allCaps ? { heading: true } : {}) };
+    });
+}
+
+/** The raw resume text kept alongside the structure: one line per line, bullets marked. */
+export function linesToText(lines: ResumeLine[]): string {
+  return lines.map((l) => (l.bullet ? `• ${l.text}` : l.text)).join('\n');
+}
+
+function toResumeDate(monthName: string | undefined, monthNumber: string | undefined, year: string): ResumeDate {
+  const month = monthName
+    ? MONTH_NAMES.split('|').indexOf(monthName.toLowerCase().slice(0, 3)) + 1
+    : monthNumber
+      ? Number(monthNumber)
+      : 0;
+  return month >= 1 && month <= 12 ? `${year}-${String(month).padStart(2, '0')}` : year;
+}
+
+/** A date as typed ("Mar 2021", "03/2021", "2021-03-15", "2021"), or null when there is none. */
+export function parseResumeDate(text: string): ResumeDate | null {
+  const iso = text.trim().match(/^((?:19|20)\d{2})(?:-(\d{1,2})(?:-\d{1,2})?)?$/);
+  if (iso) return toResumeDate(undefined, iso[2], iso[1]);
+  const m = text.match(SINGLE_DATE);
+  return m ? toResumeDate(m[1], m[2], m[3]) : null;
+}
+
+/** "Mar 2021" for "2021-03", the year alone for "2021". */
+export function formatResumeDate(date: ResumeDate): string {
+  const [year, month] = date.split('-');
+  if (!month) return year;
+  const name = MONTH_NAMES.split('|')[Number(month) - 1];
+  return name ? `${name[0].toUpperCase()}${name.slice(1)} ${year}` : year;
+}
+
+function formatDateSpan(start: ResumeDate | null, end: ResumeDate | null, current = false): string {
+  const to = current ? 'Present' : end && formatResumeDate(end);
+  if (start) return `${formatResumeDate(start)} – ${to || '?'}`;
+  return to || '';
+}
+
+interface DateSpan {
+  start: ResumeDate | null;
+  end: ResumeDate | null;
+  current: boolean;
+  /** The text the dates were read from, removed from the header before it is split. */
+  match: string;
+}
+
+function findDateSpan(text: string): DateSpan | null {
+  const range = text.match(DATE_RANGE);
+  if (range) {
+    return {
+      start: toResumeDate(range[1], range[2], range[3]),
+      end: range[6] ? toResumeDate(range[4], range[5], range[6]) : null,
+      current: range[7] != null,
+      match: range[0],
+    };
+  }
+  const single = text.match(SINGLE_DATE);
+  if (single) {
+    const date = toResumeDate(single[1], single[2], single[3]);
+    return { start: null, end: date, current: false, match: single[0] };
+  }
+  return null;
+}
+
+interface Entry {
+  header: string[];
+  body: string[];
+}
+
+/**
+ * Entries of an experience or education section: a header (non-bullet lines, one with the dates) followed
+ * by bullets. A header line after bullets, or a second dated line, starts the next entry.
+ */
+function groupEntries(lines: ResumeLine[]): Entry[] {
+  const entries: Entry[] = [];
+  let current: Entry | null = null;
+  for (const line of lines) {
+    if (line.bullet || line.text.length > BODY_LINE_CHARS) {
+      if (!current) entries.push((current = { header: [], body: [] }));
+      current.body.push(line.text);
+      continue;
+    }
+    const secondDate = current != null && DATE_RANGE.test(line.text) && current.header.some((h) => DATE_RANGE.test(h));
+    if (!current || current.body.length > 0 || secondDate) entries.push((current = { header: [line.text], body: [] }));
+    else current.header.push(line.text);
+  }
+  return entries;
+}
+
+/** An entry's header split into its parts, with the dates and a location taken out. */
+function splitHeader(header: string[]): { parts: string[]; dates: DateSpan | null; location: string } {
+  let dates: DateSpan | null = null;
+  let location = '';
+  const parts: string[] = [];
+  for (const line of header) {
+    let rest = line;
+    if (!dates) {
+      dates = findDateSpan(line);
+      if (dates) rest = rest.replace(dates.match, ' ');
+    }
+    for (const raw of rest.split(PART_SEPARATOR)) {
+      const part = raw.replace(/^[\s,()|]+|[\s,()|]+$/g, '');
+      if (!part) continue;
+      if (!location && LOCATION.test(part) && matchJobTitles(part).length === 0) location = part;
+      else parts.push(part);
+    }
+  }
+  // "Frontend Engineer, Acme" on one line
+  if (parts.length === 1 && parts[0].includes(', ')) parts.splice(0, 1, ...parts[0].split(/,\s+/));
+  return { parts, dates, location };
+}
+
+function toExperience(entry: Entry): ResumeExperience | null {
+  const { parts, dates, location } = splitHeader(entry.header);
+  const titleIndex = parts.findIndex((p) => matchJobTitles(p).length > 0);
+  const title = titleIndex === -1 ? '' : parts[titleIndex];
+  const employer = parts.find((_, i) => i !== titleIndex) ?? '';
+  if (!title && !dates) return null;
+  return {
+    title,
+    employer,
+    location,
+    start: dates?.start ?? null,
+    end: dates?.end ?? null,
+    current: dates?.current ?? false,
+    bullets: entry.body,
+  };
+}
+
+function toEducation(entry: Entry): ResumeEducation | null {
+  const { parts, dates } = splitHeader([...entry.header, ...entry.body]);
+  const institutionIndex = parts.findIndex((p) => INSTITUTION.test(p));
+  const degreeIndex = parts.findIndex((p, i) => i !== institutionIndex && DEGREE.test(p));
+  const institution = parts[institutionIndex] ?? parts.find((_, i) => i !== degreeIndex) ?? '';
+  const degree = parts[degreeIndex] ?? parts.find((p) => p !== institution) ?? '';
+  if (!institution && !degree) return null;
+  return { institution, degree, start: dates?.start ?? null, end: dates?.end ?? null };
+}
+
+/** Entries from grouped lines; one with neither title nor dates belongs to the entry before it. */
+function parseEntries<T>(lines: ResumeLine[], convert: (entry: Entry) => T | null, appendBody: (prev: T, lines: string[]) => void): T[] {
+  const out: T[] = [];
+  for (const entry of groupEntries(lines)) {
+    const parsed = convert(entry);
+    if (parsed) out.push(parsed);
+    else if (out.length > 0) appendBody(out[out.length - 1], [...entry.header, ...entry.body]);
+  }
+  return out;
+}
+
+function parseSkills(lines: ResumeLine[]): string[] {
+  const seen = new Set<string>();
+  const skills: string[] = [];
+  for (const line of lines) {
+    // "Frontend: React, Vue" – the category is not a skill
+    const text = line.text.replace(/^[^:,]{1,30}:\s*/, '');
+    for (const raw of text.split(/[,;|•·]|\s+\/\s+/)) {
+      const skill = raw.trim().replace(/\.$/, '');
+      if (!skill || skill.length > 40 || seen.has(skill.toLowerCase())) continue;
+      seen.add(skill.toLowerCase());
+      skills.push(skill);
+    }
+  }
+  return skills;
+}
+
+function parseContact(header: ResumeLine[]): ResumeContact {
+  const text = header.map((l) => l.text).join('\n');
+  const links = [...new Set([...text.matchAll(LINK)].map((m) => m[0].replace(/[.)]+$/, '')))];
+  const segments = header.flatMap((l) => l.text.split(PART_SEPARATOR)).map((s) => s.trim());
+  const name = segments.find((s) => /^\p{Lu}[\p{L}'.-]*(?: \p{Lu}[\p{L}'.-]*){1,3}$/u.test(s) && matchJobTitles(s).length === 0);
+  // A year range also looks like a phone number
+  const phone = [...text.matchAll(new RegExp(PHONE, 'g'))].find((m) => !DATE_RANGE.test(m[0]));
+  return {
+    name: name ?? '',
+    email: text.match(EMAIL)?.[0] ?? '',
+    phone: phone?.[0].trim() ?? '',
+    location: segments.find((s) => LOCATION.test(s) && !EMAIL.test(s)) ?? '',
+    links,
+  };
+}
+
+/** Split resume lines into sections and parse each. Lines before the first recognized heading are the header. */
+export function parseResume(lines: ResumeLine[]): StructuredResume {
+  const header: ResumeLine[] = [];
+  const sections: Array<{ kind: SectionKind; lines: ResumeLine[] }> = [];
+  for (const line of lines) {
+    const kind = line.bullet ? null : classifyHeading(line);
+    if (kind) sections.push({ kind, lines: [] });
+    else (sections.length > 0 ? sections[sections.length - 1].lines : header).push(line);
+  }
+  const linesOf = (kind: SectionKind) => sections.filter((s) => s.kind === kind).flatMap((s) => s.lines);
+  const summaryLines = linesOf('summary');
+
+  return {
+    contact: parseContact(header),
+    summary: (summaryLines.length > 0 ? summaryLines : header.filter((l) => l.text.length > 80))
+      .map((l) => l.text)
+      .join(' '),
+    experience: parseEntries(linesOf('experience'), toExperience, (prev, more) => prev.bullets.push(...more)),
+    education: parseEntries(linesOf('education'), toEducation, () => {}),
+    skills: parseSkills(linesOf('skills')),
+    certifications: linesOf('certifications').map((l) => l.text),
+    version: STRUCTURED_RESUME_VERSION,
+  };
+}
+
+/**
+ * Resume lines for a structure that came without a file layout (imported data): the header, then one
+ * section per part in the order resumes use. Read back by parseResume.
+ */
+export function structuredToLines(resume: StructuredResume): ResumeLine[] {
+  const { contact } = resume;
+  const join = (parts: Array<string | null | undefined>) => parts.filter(Boolean).join(' | ');
+  const lines: ResumeLine[] = [];
+  if (contact.name) lines.push({ text: contact.name });
+  const reach = join([contact.email, contact.phone, contact.location, ...contact.links]);
+  if (reach) lines.push({ text: reach });
+  const section = (heading: string, body: ResumeLine[]) => {
+    if (body.length > 0) lines.push({ text: heading, heading: true }, ...body);
+  };
+  section('Summary', resume.summary ? [{ text: resume.summary }] : []);
+  section(
+    'Experience',
+    resume.experience.flatMap((r) => [
+      { text: join([r.title, r.employer, r.location, formatDateSpan(r.start, r.end, r.current)]) },
+      ...r.bullets.map((text) => ({ text, bullet: true })),
+    ])
+  );
+  section(
+    'Education',
+    resume.education.map((e) => ({ text: join([e.institution, e.degree, formatDateSpan(e.start, e.end)]) }))
+  );
+  section('Skills', resume.skills.length > 0 ? [{ text: resume.skills.join(', ') }] : []);
+  section(
+    'Certifications',
+    resume.certifications.map((text) => ({ text, bullet: true }))
+  );
+  return lines;
+}
+
+/** Months since year 0; a date without a month counts from January. */
+function toMonthIndex(date: ResumeDate): number {
+  const [year, month] = date.split('-').map(Number);
+  return year * 12 + (month ? month - 1 : 0);
+}
+
+function monthsCovered(spans: Array<[number, number]>): number {
+  const sorted = [...spans].sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let end = -Infinity;
+  for (const [from, to] of sorted) {
+    const start = Math.max(from, end);
+    if (to > start) total += to - start;
+    end = Math.max(end, to);
+  }
+  return total;
+}
+
+/** Nearest half year. */
+function toYears(months: number): number {
+  return Math.round(months / 6) / 2;
+}
+
+/**
+ * Years covered by the dated roles, overlaps counted once, in total and per taxonomy skill named in a role's
+ * title or bullets. Month ranges count both months ("Jan–Dec 2020" is a year); an ongoing role runs to `now`.
+ */
+export function computeExperienceYears(resume: StructuredResume, now = new Date()): ExperienceYears {
+  const nowMonth = now.getFullYear() * 12 + now.getMonth() + 1;
+  const all: Array<[number, number]> = [];
+  const bySkill = new Map<string, Array<[number, number]>>();
+  for (const role of resume.experience) {
+    if (!role.start || (!role.end && !role.current)) continue;
+    const start = toMonthIndex(role.start);
+    const end = role.current || !role.end ? nowMonth : toMonthIndex(role.end) + (role.end.includes('-') ? 1 : 0);
+    if (end <= start || end > nowMonth) continue;
+    all.push([start, end]);
+    for (const skill of extractSkills([role.title, ...role.bullets].join('\n'))) {
+      bySkill.set(skill, [...(bySkill.get(skill) ?? []), [start, end]]);
+    }
+  }
+  return {
+    total: all.length > 0 ? toYears(monthsCovered(all)) : null,
+    bySkill: [...bySkill]
+      .map(([skill, spans]) => ({ skill, years: toYears(monthsCovered(spans)) }))
+      .filter((s) => s.years > 0)
+      .sort((a, b) => b.years - a.years || a.skill.localeCompare(b.skill)),
+  };
+}
+
+/** The stored structure when the user edited it or the parser has not changed since, else one parsed from the text. */
+export function getStructuredResume(resume: ResumeRecord): StructuredResume {
+  const stored = resume.structured;
+  if (stored && (stored.version === undefined || stored.version === STRUCTURED_RESUME_VERSION)) return stored;
+  return parseResume(linesFromText(resume.text));
+}
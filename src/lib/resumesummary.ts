@@ -0,0 +1,154 @@
+/**
+ * Condensed resumes for small-context local models: job titles, years of experience, industry domains and
+ * taxonomy skills read from the resume text on the device, rendered within a fixed token budget. Built once
+ * when a resume is added and stored with it.
+ */
+
+import type { ExperienceYears, ResumeRecord, ResumeSummary, StructuredResume } from './types';
+import { extractSkills } from './skills';
+import { estimateTokens } from './ratelimit';
+import { computeExperienceYears, matchJobTitles } from './resumeparse';
+
+/** Bump when the condenser changes; stored summaries of an older version are rebuilt. */
+export const RESUME_SUMMARY_VERSION = 2;
+/** Prompt budget per condensed resume. */
+export const RESUME_SUMMARY_MAX_TOKENS = 250;
+
+const MAX_TITLES = 5;
+/** A stated or computed figure above this is treated as a misread. */
+const MAX_YEARS = 50;
+
+const STATED_YEARS = /\b(\d{1,2})\+?\s*(?:years|yrs)(?:\s+of)?\s+(?:\w+\s+){0,2}experience\b/gi;
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?\\s+|\\d{1,2}\\/';
+const DATE_RANGE = new RegExp(
+  `(?:${MONTH})?((?:19|20)\\d{2})\\s*(?:-|–|—|to|until)\\s*(?:(?:${MONTH})?((?:19|20)\\d{2})|(present|current|now|today|ongoing))`,
+  'gi'
+);
+/** Dated ranges this close to these words are studies, not work. */
+const EDUCATION = /universit|college|school|bachelor|master|b\.?sc|m\.?sc|ph\.?d|degree|diploma|graduat/i;
+const EDUCATION_CONTEXT_CHARS = 80;
+
+const DOMAINS: Array<[label: string, pattern: RegExp]> = [
+  ['fintech', /\b(?:fintech|banking|bank|payments?|trading|lending|insurtech|insurance|wealth management|crypto(?:currency)?|blockchain)\b/i],
+  ['healthcare', /\b(?:health ?care|health ?tech|medical|clinical|hospital|pharma(?:ceutical)?|biotech|telemedicine)\b/i],
+  ['e-commerce', /\b(?:e-?commerce|online retail|retail|marketplace|shopify)\b/i],
+  ['SaaS', /\b(?:saas|b2b software)\b/i],
+  ['gaming', /\b(?:gaming|game studio|video games?|game development)\b/i],
+  ['education', /\b(?:edtech|e-?learning|education(?:al)? technology|online learning)\b/i],
+  ['cybersecurity', /\b(?:cyber ?security|infosec|information security|threat detection)\b/i],
+  ['automotive', /\b(?:automotive|autonomous driving|vehicles?|mobility)\b/i],
+  ['telecom', /\b(?:telecom(?:munications)?|5g|network operator)\b/i],
+  ['media', /\b(?:media|streaming|publishing|broadcast(?:ing)?|advertising|ad ?tech)\b/i],
+  ['logistics', /\b(?:logistics|supply chain|shipping|warehouse management|delivery platform)\b/i],
+  ['energy', /\b(?:energy|renewables?|solar|utilities|oil and gas|clean ?tech)\b/i],
+  ['travel', /\b(?:travel|hospitality|airline|booking platform)\b/i],
+  ['real estate', /\b(?:real estate|prop ?tech|property management)\b/i],
+  ['government', /\b(?:government|public sector|govtech|defen[cs]e)\b/i],
+  ['AI / ML', /\b(?:machine learning|artificial intelligence|deep learning|llms?|computer vision)\b/i],
+];
+
+function uniqueTitles(text: string): string[] {
+  const seen = new Set<string>();
+  const titles: string[] = [];
+  for (const title of matchJobTitles(text)) {
+    // A bare role noun ("Manager") says little
+    if (!title.includes(' ') || seen.has(title.toLowerCase())) continue;
+    seen.add(title.toLowerCase());
+    titles.push(title);
+    if (titles.length === MAX_TITLES) break;
+  }
+  return titles;
+}
+
+/** The largest figure the resume states ("8+ years of experience"). */
+function statedYears(text: string): number | null {
+  const stated = [...text.matchAll(STATED_YEARS)].map((m) => Number(m[1])).filter((n) => n > 0 && n <= MAX_YEARS);
+  return stated.length > 0 ? Math.max(...stated) : null;
+}
+
+/** Total years covered by the dated work ranges in the text, overlaps counted once. */
+function yearsFromDates(text: string, now: Date): number | null {
+  const thisYear = now.getFullYear();
+  const ranges: Array<[number, number]> = [];
+  for (const m of text.matchAll(DATE_RANGE)) {
+    const at = m.index ?? 0;
+    const context = text.slice(Math.max(0, at - EDUCATION_CONTEXT_CHARS), at + m[0].length + EDUCATION_CONTEXT_CHARS);
+    if (EDUCATION.test(context)) continue;
+    const start = Number(m[1]);
+    const end = m[2] ? Number(m[2]) : thisYear;
+    if (end >= start && end <= thisYear) ranges.push([start, end]);
+  }
+  if (ranges.length === 0) return null;
+  ranges.sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let [from, to] = ranges[0];
+  for (const [start, end] of ranges.slice(1)) {
+    if (start <= to) {
+      to = Math.max(to, end);
+    } else {
+      total += to - from;
+      [from, to] = [start, end];
+    }
+  }
+  total += to - from;
+  return total > 0 && total <= MAX_YEARS ? total : null;
+}
+
+function renderSummary(
+  titles: string[],
+  years: number | null,
+  domains: string[],
+  skills: string[],
+  skillYears: ExperienceYears['bySkill']
+): string {
+  const withYears = skills.map((skill) => {
+    const years = skillYears.find((s) => s.skill === skill)?.years;
+    return years ? `${skill} (${years}y)` : skill;
+  });
+  const head = [
+    titles.length > 0 && `Titles: ${titles.join('; ')}`,
+    years != null && `Experience: about ${years} year${years === 1 ? '' : 's'}`,
+    domains.length > 0 && `Domains: ${domains.join(', ')}`,
+  ].filter(Boolean);
+  // Drop skills from the end (least prominent) until the summary fits the budget
+  for (let shown = skills.length; shown >= 0; shown--) {
+    const more = skills.length - shown;
+    const skillLine = shown > 0 ? [`Skills: ${withYears.slice(0, shown).join(', ')}${more > 0 ? ` +${more} more` : ''}`] : [];
+    const text = [...head, ...skillLine].join('\n');
+    if (shown === 0 || estimateTokens(text) <= RESUME_SUMMARY_MAX_TOKENS) return text;
+  }
+  return head.join('\n');
+}
+
+/**
+ * Build the condensed form of a resume's text. With the parsed structure, years come from its dated roles
+ * (unless the resume states a figure) and skills carry the years the roles using them add up to.
+ */
+export function condenseResume(text: string, now = new Date(), structured?: StructuredResume): ResumeSummary {
+  const experience = structured ? computeExperienceYears(structured, now) : null;
+  const titles = uniqueTitles(text);
+  const fromRoles = experience?.total != null ? Math.round(experience.total) || null : null;
+  const years = statedYears(text) ?? fromRoles ?? yearsFromDates(text, now);
+  const domains = DOMAINS.filter(([, pattern]) => pattern.test(text)).map(([label]) => label);
+  const skills = extractSkills(text);
+  return {
+    titles,
+    years,
+    domains,
+    skills,
+    text: renderSummary(titles, years, domains, skills, experience?.bySkill ?? []),
+    version: RESUME_SUMMARY_VERSION,
+  };
+}
+
+/** The stored summary when it is current, else a freshly built one. */
+export function getResumeSummary(resume: ResumeRecord): ResumeSummary {
+  return resume.summary?.version === RESUME_SUMMARY_VERSION
+    ? resume.summary
+    : condenseResume(resume.text, undefined, resume.structured);
+}
+
+/** The resume with its text replaced by the condensed summary, for small-context models. */
+export function toCondensedResume(resume: ResumeRecord): ResumeRecord {
+  return { ...resume, text: getResumeSummary(resume).text };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { computeRetryDelayMs, parseRetryAfterMs } from './retry';
+import { DEFAULT_RETRY_POLICY } from './types';
+
+/** Headers Groq sends with a 429 when the per-minute token bucket is empty but the daily request count is not. */
+const GROQ_TOKENS_EXHAUSTED = {
+  'x-ratelimit-limit-requests': '14400',
+  'x-ratelimit-remaining-requests': '14370',
+  'x-ratelimit-reset-requests': '2m59.56s',
+  'x-ratelimit-limit-tokens': '6000',
+  'x-ratelimit-remaining-tokens': '0',
+  'x-ratelimit-reset-tokens': '7.66s',
+};
+
+describe('parseRetryAfterMs', () => {
+  it('waits for the exhausted bucket, not the daily request reset', () => {
+    const ms = parseRetryAfterMs(new Headers(GROQ_TOKENS_EXHAUSTED));
+    expect(ms).toBe(7660);
+    expect(computeRetryDelayMs(1, DEFAULT_RETRY_POLICY, ms)).not.toBeNull();
+  });
+
+  it('waits for the last reset when several buckets are exhausted', () => {
+    const headers = new Headers({ ...GROQ_TOKENS_EXHAUSTED, 'x-ratelimit-remaining-requests': '0' });
+    expect(parseRetryAfterMs(headers)).toBe(179_560);
+  });
+
+  it('takes the soonest reset when no bucket reports zero remaining', () => {
+    const headers = new Headers({ 'x-ratelimit-reset-requests': '6m0s', 'x-ratelimit-reset-tokens': '1.5s' });
+    expect(parseRetryAfterMs(headers)).toBe(1500);
+  });
+
+  it('reads the exhausted Anthropic bucket from its reset timestamp', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    const headers = new Headers({
+      'anthropic-ratelimit-requests-remaining': '40',
+      'anthropic-ratelimit-requests-reset': '2026-01-01T00:01:00Z',
+      'anthropic-ratelimit-output-tokens-remaining': '0',
+      'anthropic-ratelimit-output-tokens-reset': '2026-01-01T00:00:12Z',
+    });
+    expect(parseRetryAfterMs(headers, '', now)).toBe(12_000);
+  });
+
+  it('prefers Retry-After over the reset headers', () => {
+    expect(parseRetryAfterMs(new Headers({ ...GROQ_TOKENS_EXHAUSTED, 'retry-after': '3' }))).toBe(3000);
+  });
+});
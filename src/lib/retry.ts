@@ -0,0 +1,92 @@
+import type { RetryPolicy } from './types';
+
+/** Parse Go-style durations used by OpenAI/Groq reset headers: "1s", "6m0s", "2.5s", "120ms", "1h2m". */
+function parseDurationMs(value: string): number | null {
+  let total = 0;
+  let matched = false;
+  for (const m of value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    matched = true;
+    const n = parseFloat(m[1]);
+    total += m[2] === 'ms' ? n : m[2] === 's' ? n * 1000 : m[2] === 'm' ? n * 60_000 : n * 3_600_000;
+  }
+  return matched ? Math.ceil(total) : null;
+}
+
+/** `Retry-After` is either delta-seconds or an HTTP date. */
+function parseRetryAfterHeader(value: string, now: number): number | null {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.ceil(parseFloat(trimmed) * 1000);
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Anthropic's `anthropic-ratelimit-*-reset` headers are RFC 3339 timestamps. */
+function parseResetTimestamp(value: string, now: number): number | null {
+  const date = Date.parse(value.trim());
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Reset header of each rate-limit bucket, with the header that says how much of that bucket is left. */
+const OPENAI_RESET_HEADERS: Array<[reset: string, remaining: string]> = [
+  ['x-ratelimit-reset-requests', 'x-ratelimit-remaining-requests'],
+  ['x-ratelimit-reset-tokens', 'x-ratelimit-remaining-tokens'],
+];
+const ANTHROPIC_RESET_HEADERS: Array<[reset: string, remaining: string]> = [
+  ['anthropic-ratelimit-requests-reset', 'anthropic-ratelimit-requests-remaining'],
+  ['anthropic-ratelimit-tokens-reset', 'anthropic-ratelimit-tokens-remaining'],
+  ['anthropic-ratelimit-input-tokens-reset', 'anthropic-ratelimit-input-tokens-remaining'],
+  ['anthropic-ratelimit-output-tokens-reset', 'anthropic-ratelimit-output-tokens-remaining'],
+];
+
+/**
+ * How long the provider asked us to wait, from (in order of preference) `retry-after-ms`, `Retry-After`,
+ * the OpenAI/Groq `x-ratelimit-reset-*` durations, Anthropic's reset timestamps, or Gemini's `retryDelay`
+ * in the error body. Returns null when the response carries no hint.
+ */
+export function parseRetryAfterMs(headers: Headers, bodyText = '', now = Date.now()): number | null {
+  const retryAfterMs = headers.get('retry-after-ms');
+  if (retryAfterMs && /^\d+(\.\d+)?$/.test(retryAfterMs.trim())) return Math.ceil(parseFloat(retryAfterMs));
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const ms = parseRetryAfterHeader(retryAfter, now);
+    if (ms != null) return ms;
+  }
+  // Every bucket reports its reset, including ones with plenty left (e.g. Groq's daily request count), so only
+  // the exhausted buckets matter; several may be exhausted at once, so wait for the one that resets last
+  const resets: number[] = [];
+  const exhausted: number[] = [];
+  const collect = (reset: string, remaining: string, parse: (value: string) => number | null) => {
+    const v = headers.get(reset);
+    const ms = v ? parse(v) : null;
+    if (ms == null) return;
+    resets.push(ms);
+    const left = headers.get(remaining);
+    if (left != null && left.trim() !== '' && Number(left) <= 0) exhausted.push(ms);
+  };
+  for (const [reset, remaining] of OPENAI_RESET_HEADERS) collect(reset, remaining, parseDurationMs);
+  for (const [reset, remaining] of ANTHROPIC_RESET_HEADERS) {
+    collect(reset, remaining, (v) => parseResetTimestamp(v, now));
+  }
+  if (exhausted.length > 0) return Math.max(...exhausted);
+  // No bucket says it is empty: the soonest reset is the earliest a retry could succeed
+  if (resets.length > 0) return Math.min(...resets);
+  const geminiDelay = bodyText.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (geminiDelay) return Math.ceil(parseFloat(geminiDelay[1]) * 1000);
+  return null;
+}
+
+/**
+ * Delay before retry number `attempt` (1 = first retry). Honors the provider's hint when present,
+ * otherwise backs off exponentially from `baseDelayMs` with ±jitter, capped at `maxDelayMs`.
+ * Returns null when the provider asks for a longer wait than the policy allows (e.g. a daily quota).
+ */
+export function computeRetryDelayMs(attempt: number, policy: RetryPolicy, retryAfterMs: number | null): number | null {
+  const jitter = 1 + (Math.random() * 2 - 1) * policy.jitter;
+  if (retryAfterMs != null) {
+    if (retryAfterMs > policy.maxDelayMs) return null;
+    // Only jitter upwards so we never retry earlier than asked
+    return Math.round(Math.min(policy.maxDelayMs, retryAfterMs * Math.max(1, jitter)));
+  }
+  const exponential = policy.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  return Math.round(Math.min(policy.maxDelayMs, exponential * jitter));
+}
@@ -0,0 +1,77 @@
+/**
+ * Scoring rubric: the model rates each weighted criterion 0–100 and the overall score is their weighted
+ * average, computed here so the weighting is exact and the same for every provider.
+ */
+
+import type { CriterionScore, RubricCriterion } from './types';
+import { DEFAULT_RUBRIC } from './types';
+
+/** Highest overall score allowed when the model reports a hard rejection (the prompt asks for < 40). */
+export const HARD_REJECTION_MAX_SCORE = 39;
+
+/** Criteria that take part in scoring (weight above 0). */
+export function activeCriteria(rubric: RubricCriterion[] | undefined): RubricCriterion[] {
+  return (rubric ?? DEFAULT_RUBRIC).filter((c) => c.weight > 0);
+}
+
+/** Validate a stored rubric; anything malformed falls back to the default. */
+export function normalizeRubric(value: unknown): RubricCriterion[] {
+  if (!Array.isArray(value)) return DEFAULT_RUBRIC;
+  const seen = new Set<string>();
+  const out: RubricCriterion[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const c = item as Partial<RubricCriterion>;
+    if (typeof c.id !== 'string' || !/^\w+$/.test(c.id) || seen.has(c.id)) continue;
+    seen.add(c.id);
+    out.push({
+      id: c.id,
+      label: typeof c.label === 'string' && c.label.trim() ? c.label.trim() : c.id,
+      description: typeof c.description === 'string' ? c.description.trim() : '',
+      weight: typeof c.weight === 'number' && Number.isFinite(c.weight) ? Math.max(0, c.weight) : 0,
+    });
+  }
+  return out;
+}
+
+/** Key for a new criterion: camelCase of the label, made unique against `existing`. */
+export function criterionIdFromLabel(label: string, existing: RubricCriterion[]): string {
+  const words = label.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  const base = words.map((w, i) => (i === 0 ? w : w[0].toUpperCase() + w.slice(1))).join('') || 'criterion';
+  const taken = new Set(existing.map((c) => c.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}${n}`;
+  return id;
+}
+
+/** The `{{rubric}}` prompt variable: one line per active criterion plus an example of the expected object. */
+export function formatRubricForPrompt(criteria: RubricCriterion[]): string {
+  if (criteria.length === 0) return '';
+  const total = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const lines = criteria.map(
+    (c) => `- ${c.id} (${c.label}, ${Math.round((c.weight / total) * 100)}% of the score)${c.description ? `: ${c.description}` : ''}`
+  );
+  const example = JSON.stringify(Object.fromEntries(criteria.map((c) => [c.id, 50])));
+  return `${lines.join('\n')}\nExample: "criterionScores":${example}`;
+}
+
+/**
+ * Weighted average of the model's criterion scores, capped when the job was hard-rejected. Returns null
+ * when any active criterion is missing, so the caller can keep the model's own overall score.
+ */
+export function computeRubricScore(
+  criteria: RubricCriterion[],
+  scores: Record<string, number> | undefined,
+  hardRejected: boolean
+): { score: number; criteria: CriterionScore[] } | null {
+  if (criteria.length === 0 || !scores) return null;
+  const breakdown: CriterionScore[] = [];
+  for (const c of criteria) {
+    const s = scores[c.id];
+    if (typeof s !== 'number' || !Number.isFinite(s)) return null;
+    breakdown.push({ id: c.id, label: c.label, weight: c.weight, score: Math.max(0, Math.min(100, Math.round(s))) });
+  }
+  const totalWeight = breakdown.reduce((sum, c) => sum + c.weight, 0);
+  const weighted = Math.round(breakdown.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight);
+  return { score: hardRejected ? Math.min(weighted, HARD_REJECTION_MAX_SCORE) : weighted, criteria: breakdown };
+}
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { evaluateJob, ProviderError } from './llm';
+import { validateEvaluationResult } from './schema';
+import type { JobData, RubricCriterion } from './types';
+
+const RUBRIC: RubricCriterion[] = [{ id: 'skills', label: 'Skills', description: 'Skill match', weight: 1 }];
+
+const FACTS = {
+  salaryMin: 80000,
+  salaryMax: 95000,
+  salaryCurrency: 'EUR',
+  salaryPeriod: 'year',
+  employmentType: null,
+  workplaceType: 'hybrid',
+  seniority: null,
+  yearsRequired: 5,
+  languages: ['English'],
+  visaSponsorship: null,
+  securityClearance: null,
+};
+
+const VALID = {
+  score: 72,
+  verdict: 'worth',
+  hardRejectionReason: null,
+  matchBullets: ['React'],
+  riskBullets: [],
+  bestResumeLabel: null,
+  explanation: 'Good React match.',
+  criterionScores: { skills: 80 },
+  jobFacts: FACTS,
+};
+
+describe('validateEvaluationResult', () => {
+  it('accepts a reply matching the schema and keeps unknown keys aside', () => {
+    const result = validateEvaluationResult({ ...VALID, confidence: 'high' }, [], ['skills']);
+    expect(result).toMatchObject({ ok: true, value: { score: 72 }, extraKeys: { confidence: 'high' } });
+  });
+
+  it('rejects bad fields beyond score and verdict', () => {
+    const result = validateEvaluationResult(
+      { ...VALID, explanation: 3, riskBullets: 'none', criterionScores: {}, jobFacts: { ...FACTS, salaryPeriod: 'annual' } },
+      [],
+      ['skills']
+    );
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      '"riskBullets" must be an array of strings.',
+      '"explanation" must be a string.',
+      '"criterionScores.skills" must be an integer from 0 to 100.',
+      '"jobFacts.salaryPeriod" must be one of "hour", "day", "week", "month", "year", null.',
+    ]);
+  });
+
+  it('requires every job fact', () => {
+    const facts: Record<string, unknown> = { ...FACTS };
+    delete facts.languages;
+    const result = validateEvaluationResult({ ...VALID, jobFacts: facts }, [], ['skills']);
+    expect(!result.ok && result.errors).toEqual(['"jobFacts.languages" must be a list of strings.']);
+  });
+});
+
+describe('evaluateJob repair round-trip', () => {
+  const job: JobData = { id: '1', title: 'Frontend Engineer', description: 'React and TypeScript.', location: 'Berlin' };
+
+  function replyWith(...texts: string[]) {
+    const fetchMock = vi.fn(async () => {
+      const content = texts.shift() ?? '';
+      return new Response(JSON.stringify({ choices: [{ message: { content } }] }), {
+        headers: { 'content-type': 'application/json' },
+      });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  function evaluate() {
+    return evaluateJob(job, [], 'Frontend roles', 'React', '', 'openai', 'sk-test', 'gpt-4o-mini', { rubric: RUBRIC });
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('asks once for a correction when any field is invalid', async () => {
+    const fetchMock = replyWith(JSON.stringify({ ...VALID, explanation: null }), JSON.stringify(VALID));
+    const result = await evaluate();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.explanation).toBe('Good React match.');
+  });
+
+  it('fails with invalid_reply instead of salvaging when the correction is still invalid', async () => {
+    const almostJson = '{"score": 72, "verdict": "worth", "explanation": "Good React match."';
+    const fetchMock = replyWith(almostJson, almostJson);
+    const error = await evaluate().catch((e: unknown) => e);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ kind: 'invalid_reply', provider: 'openai' });
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * JSON Schema for the evaluation the model must return, in the dialects providers accept for
+ * structured output, plus the strict validator applied to every response.
+ */
+
+import type { EvaluationResultRaw } from './types';
+import { EMPLOYMENT_TYPE_LABELS, SALARY_PERIODS, SENIORITY_LABELS, WORKPLACE_LABELS } from './jobfacts';
+
+/** Name used for OpenAI `json_schema` and the Anthropic tool. */
+export const EVALUATION_SCHEMA_NAME = 'job_evaluation';
+
+type JsonSchema = Record<string, unknown>;
+
+const STRING_ARRAY: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+function nullableEnum(values: string[]): JsonSchema {
+  return { type: ['string', 'null'], enum: [...values, null] };
+}
+
+/** Facts the model reads from the posting; flat so every provider's schema dialect accepts it. */
+const JOB_FACTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: 'Facts stated in the posting; null (or an empty list) when the posting does not say.',
+  properties: {
+    salaryMin: { type: ['number', 'null'] },
+    salaryMax: { type: ['number', 'null'] },
+    salaryCurrency: { type: ['string', 'null'], description: 'ISO 4217 code, e.g. USD.' },
+    salaryPeriod: nullableEnum(SALARY_PERIODS),
+    employmentType: nullableEnum(Object.keys(EMPLOYMENT_TYPE_LABELS)),
+    workplaceType: nullableEnum(Object.keys(WORKPLACE_LABELS)),
+    seniority: nullableEnum(Object.keys(SENIORITY_LABELS)),
+    yearsRequired: { type: ['integer', 'null'], description: 'Minimum years of experience asked for.' },
+    languages: { ...STRING_ARRAY, description: 'Spoken languages the posting requires.' },
+    visaSponsorship: { type: ['boolean', 'null'], description: 'true if offered, false if ruled out.' },
+    securityClearance: { type: ['string', 'null'] },
+  },
+  required: [
+    'salaryMin',
+    'salaryMax',
+    'salaryCurrency',
+    'salaryPeriod',
+    'employmentType',
+    'workplaceType',
+    'seniority',
+    'yearsRequired',
+    'languages',
+    'visaSponsorship',
+    'securityClearance',
+  ],
+  additionalProperties: false,
+};
+
+/**
+ * Schema for EvaluationResultRaw. `bestResumeLabel` is restricted to the labels of the resumes sent
+ * (or null) and `criterionScores` to the active rubric criteria (omitted when there are none); every key
+ * is required and no others are allowed, as OpenAI strict mode demands.
+ */
+export function buildEvaluationSchema(resumeLabels: string[], criterionIds: string[] = []): JsonSchema {
+  const properties: Record<string, JsonSchema> = {
+    // Range is checked by the validator; not every provider's schema dialect accepts minimum/maximum
+    score: { type: 'integer', description: 'Fit score from 0 to 100.' },
+    verdict: { type: 'string', enum: ['worth', 'maybe', 'not_worth'] },
+    hardRejectionReason: { type: ['string', 'null'] },
+    matchBullets: STRING_ARRAY,
+    riskBullets: STRING_ARRAY,
+    bestResumeLabel:
+      resumeLabels.length > 0 ? { type: ['string', 'null'], enum: [...resumeLabels, null] } : { type: 'null' },
+    explanation: { type: 'string' },
+    jobFacts: JOB_FACTS_SCHEMA,
+  };
+  if (criterionIds.length > 0) {
+    properties.criterionScores = {
+      type: 'object',
+      description: 'Fit score from 0 to 100 for each rubric criterion.',
+      properties: Object.fromEntries(criterionIds.map((id) => [id, { type: 'integer' }])),
+      required: criterionIds,
+      additionalProperties: false,
+    };
+  }
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Gemini's `responseSchema` is an OpenAPI subset: upper-case types, `nullable` instead of type unions,
+ * and no `additionalProperties`.
+ */
+export function toGeminiSchema(schema: JsonSchema): JsonSchema {
+  const out: JsonSchema = {};
+  const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+  const nonNull = types.filter((t) => t !== 'null');
+  out.type = (nonNull[0] ?? 'string').toUpperCase();
+  if (nonNull.length < types.length) out.nullable = true;
+  if (typeof schema.description === 'string') out.description = schema.description;
+  if (Array.isArray(schema.enum)) {
+    const values = schema.enum.filter((v) => v !== null);
+    if (values.length > 0) out.enum = values;
+  }
+  if (schema.items) out.items = toGeminiSchema(schema.items as JsonSchema);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties as Record<string, JsonSchema>).map(([k, v]) => [k, toGeminiSchema(v)])
+    );
+    out.required = schema.required;
+    out.propertyOrdering = Object.keys(schema.properties as object);
+  }
+  return out;
+}
+
+export type SchemaValidation =
+  | { ok: true; value: EvaluationResultRaw; extraKeys: Record<string, unknown> }
+  | { ok: false; errors: string[] };
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+const TYPE_NAMES: Record<string, string> = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  boolean: 'a boolean',
+  null: 'null',
+  array: 'a list of strings',
+};
+
+/** Whether `value` has one of the schema's types and is in its `enum`; covers the types the job facts use. */
+function matchesSchema(value: unknown, schema: JsonSchema): boolean {
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) return false;
+  const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+  return types.some((type) => {
+    if (type === 'null') return value === null;
+    if (type === 'integer') return Number.isInteger(value);
+    if (type === 'array') return Array.isArray(value) && value.every((v) => matchesSchema(v, schema.items as JsonSchema));
+    return typeof value === type;
+  });
+}
+
+function describeSchema(schema: JsonSchema): string {
+  if (Array.isArray(schema.enum)) return `one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`;
+  const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+  return types.map((t) => TYPE_NAMES[t] ?? t).join(' or ');
+}
+
+/** Problems with `jobFacts`: every fact in JOB_FACTS_SCHEMA must be present with its type; extra keys are ignored. */
+function jobFactsErrors(value: unknown): string[] {
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) return ['"jobFacts" must be an object.'];
+  const facts = value as Record<string, unknown>;
+  return Object.entries(JOB_FACTS_SCHEMA.properties as Record<string, JsonSchema>)
+    .filter(([key, schema]) => !matchesSchema(facts[key], schema))
+    .map(([key, schema]) => `"jobFacts.${key}" must be ${describeSchema(schema)}.`);
+}
+
+/**
+ * Check a parsed response against the evaluation schema; every field, `jobFacts` included, must match.
+ * Unknown keys are not an error (providers without schema enforcement add them); they are returned
+ * separately so callers can keep them.
+ */
+export function validateEvaluationResult(
+  value: unknown,
+  resumeLabels: string[],
+  criterionIds: string[] = []
+): SchemaValidation {
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, errors: ['The response must be a single JSON object.'] };
+  }
+  const obj = value as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof obj.score !== 'number' || !Number.isInteger(obj.score) || obj.score < 0 || obj.score > 100) {
+    errors.push('"score" must be an integer from 0 to 100.');
+  }
+  if (obj.verdict !== 'worth' && obj.verdict !== 'maybe' && obj.verdict !== 'not_worth') {
+    errors.push('"verdict" must be one of "worth", "maybe", "not_worth".');
+  }
+  if (obj.hardRejectionReason !== null && typeof obj.hardRejectionReason !== 'string') {
+    errors.push('"hardRejectionReason" must be a string or null.');
+  }
+  if (!isStringArray(obj.matchBullets)) errors.push('"matchBullets" must be an array of strings.');
+  if (!isStringArray(obj.riskBullets)) errors.push('"riskBullets" must be an array of strings.');
+  if (resumeLabels.length === 0) {
+    if (obj.bestResumeLabel !== null) errors.push('"bestResumeLabel" must be null (no resumes were provided).');
+  } else if (obj.bestResumeLabel !== null && !resumeLabels.includes(obj.bestResumeLabel as string)) {
+    errors.push(`"bestResumeLabel" must be null or one of: ${resumeLabels.map((l) => JSON.stringify(l)).join(', ')}.`);
+  }
+  if (typeof obj.explanation !== 'string') errors.push('"explanation" must be a string.');
+  if (criterionIds.length > 0) {
+    const scores = obj.criterionScores;
+    if (scores == null || typeof scores !== 'object' || Array.isArray(scores)) {
+      errors.push(`"criterionScores" must be an object with keys ${criterionIds.map((id) => JSON.stringify(id)).join(', ')}.`);
+    } else {
+      for (const id of criterionIds) {
+        const s = (scores as Record<string, unknown>)[id];
+        if (typeof s !== 'number' || !Number.isInteger(s) || s < 0 || s > 100) {
+          errors.push(`"criterionScores.${id}" must be an integer from 0 to 100.`);
+        }
+      }
+    }
+  }
+  errors.push(...jobFactsErrors(obj.jobFacts));
+  if (errors.length > 0) return { ok: false, errors };
+
+  const {
+    score,
+    verdict,
+    hardRejectionReason,
+    matchBullets,
+    riskBullets,
+    bestResumeLabel,
+    explanation,
+    criterionScores,
+    jobFacts,
+    ...extraKeys
+  } = obj;
+  return {
+    ok: true,
+    value: {
+      score: score as number,
+      verdict: verdict as EvaluationResultRaw['verdict'],
+      hardRejectionReason: hardRejectionReason as string | null,
+      matchBullets: matchBullets as string[],
+      riskBullets: riskBullets as string[],
+      bestResumeLabel: bestResumeLabel as string | null,
+      explanation: explanation as string,
+      ...(criterionIds.length > 0 ? { criterionScores: criterionScores as Record<string, number> } : {}),
+      jobFacts,
+    },
+    extraKeys,
+  };
+}
+
+/** Name used for the triage pass's structured output. */
+export const TRIAGE_SCHEMA_NAME = 'job_triage';
+
+/** The short reply of the triage pass: a rough score, a verdict and one sentence. */
+export const TRIAGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'integer', description: 'Rough fit score from 0 to 100.' },
+    verdict: { type: 'string', enum: ['worth', 'maybe', 'not_worth'] },
+    hardRejectionReason: { type: ['string', 'null'] },
+    explanation: { type: 'string' },
+  },
+  required: ['score', 'verdict', 'hardRejectionReason', 'explanation'],
+  additionalProperties: false,
+};
+
+export type TriageValidation =
+  | { ok: true; value: Pick<EvaluationResultRaw, 'score' | 'verdict' | 'hardRejectionReason' | 'explanation'> }
+  | { ok: false; errors: string[] };
+
+/** Check a parsed triage reply; unknown keys are ignored. */
+export function validateTriageResult(value: unknown): TriageValidation {
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, errors: ['The response must be a single JSON object.'] };
+  }
+  const obj = value as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof obj.score !== 'number' || !Number.isInteger(obj.score) || obj.score < 0 || obj.score > 100) {
+    errors.push('"score" must be an integer from 0 to 100.');
+  }
+  if (obj.verdict !== 'worth' && obj.verdict !== 'maybe' && obj.verdict !== 'not_worth') {
+    errors.push('"verdict" must be one of "worth", "maybe", "not_worth".');
+  }
+  if (obj.hardRejectionReason != null && typeof obj.hardRejectionReason !== 'string') {
+    errors.push('"hardRejectionReason" must be a string or null.');
+  }
+  if (typeof obj.explanation !== 'string') errors.push('"explanation" must be a string.');
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      score: obj.score as number,
+      verdict: obj.verdict as EvaluationResultRaw['verdict'],
+      hardRejectionReason: (obj.hardRejectionReason as string | null | undefined) ?? null,
+      explanation: obj.explanation as string,
+    },
+  };
+}
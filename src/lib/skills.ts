@@ -0,0 +1,132 @@
+/**
+ * Local skill matching: skills found in the posting and in the user's skills and resumes via the bundled
+ * taxonomy, compared exactly before the model is called so "Java" never passes for "JavaScript". The
+ * overlap is given to the model and put first in the result's match and risk bullets.
+ */
+
+import type { EvaluationResult, JobData, ResumeRecord, SkillOverlap } from './types';
+import { SKILLS, type Skill, type SkillFamily } from './skilltaxonomy';
+
+/** Headings and phrases after which a posting lists optional skills. */
+const OPTIONAL_SECTION =
+  /nice[- ]to[- ]haves?|good to have|bonus points|\bbonus\b|preferred (qualifications|skills|experience)|(would be|is) a (big )?plus|desirable|\bplus(es)?:/i;
+
+/** Families too broad for one member to stand in for another (knowing Python says little about Go). */
+const UNRELATED_FAMILIES: SkillFamily[] = ['language', 'practice'];
+
+/** Most names listed in one bullet before the rest are summarized as "+N more". */
+const MAX_BULLET_SKILLS = 8;
+
+let compiled: Array<{ skill: Skill; patterns: RegExp[] }> | null = null;
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * One alternation per case mode. The boundaries treat + # . as part of a name (C++, C#, .NET) and, for
+ * exact terms, a hyphen too.
+ */
+function termsPattern(terms: string[], exact: boolean): RegExp | null {
+  if (terms.length === 0) return null;
+  const body = terms.map((t) => escapeRegExp(t).replace(/\s+/g, '\\s+')).join('|');
+  const after = exact ? '(?![\\w+#-]|\\.\\w)' : '(?![\\w+#]|\\.\\w)';
+  return new RegExp(`(?<![\\w+#.-])(?:${body})${after}`, exact ? '' : 'i');
+}
+
+function compile(): Array<{ skill: Skill; patterns: RegExp[] }> {
+  compiled ??= SKILLS.map((skill) => {
+    const terms = skill.name.length > 1 && !skill.aliases.includes(`=${skill.name}`) ? [skill.name, ...skill.aliases] : skill.aliases;
+    const exact = terms.filter((t) => t.startsWith('=')).map((t) => t.slice(1));
+    const loose = terms.filter((t) => !t.startsWith('='));
+    const patterns = [termsPattern(loose, false), termsPattern(exact, true)].filter((p): p is RegExp => p !== null);
+    return { skill, patterns };
+  });
+  return compiled;
+}
+
+/** Taxonomy skills mentioned in `text`, each with the position of its first mention. */
+export function findSkills(text: string): Map<string, { skill: Skill; index: number }> {
+  const found = new Map<string, { skill: Skill; index: number }>();
+  if (!text.trim()) return found;
+  for (const { skill, patterns } of compile()) {
+    const indexes = patterns.map((p) => p.exec(text)?.index).filter((i): i is number => i !== undefined);
+    if (indexes.length > 0) found.set(skill.name, { skill, index: Math.min(...indexes) });
+  }
+  return found;
+}
+
+/** Canonical names of the skills in `text`, in order of first mention. */
+export function extractSkills(text: string): string[] {
+  return [...findSkills(text).values()].sort((a, b) => a.index - b.index).map((s) => s.skill.name);
+}
+
+/** Taxonomy entry for a canonical name. */
+export function skillByName(name: string): Skill | undefined {
+  return SKILLS.find((s) => s.name === name);
+}
+
+/**
+ * Exact overlap between the posting's skills and the user's (skills field plus the given resumes). Skills
+ * first mentioned after a "nice to have" style heading count as optional. Null when the posting names no
+ * known skill or the user has none to compare with.
+ */
+export function computeSkillOverlap(job: JobData, skillsTechStack: string, resumes: ResumeRecord[]): SkillOverlap | null {
+  const jobText = `${job.title}\n${job.description}`;
+  const jobSkills = [...findSkills(jobText).values()].sort((a, b) => a.index - b.index);
+  const userSkills = findSkills([skillsTechStack, ...resumes.map((r) => r.text)].join('\n'));
+  if (jobSkills.length === 0 || userSkills.size === 0) return null;
+  const optionalAt = job.description.search(OPTIONAL_SECTION);
+  const optionalFrom = optionalAt === -1 ? Infinity : job.title.length + 1 + optionalAt;
+
+  const overlap: SkillOverlap = { matched: [], missing: [], missingOptional: [], adjacent: {} };
+  for (const { skill, index } of jobSkills) {
+    if (userSkills.has(skill.name)) {
+      overlap.matched.push(skill.name);
+      continue;
+    }
+    (index >= optionalFrom ? overlap.missingOptional : overlap.missing).push(skill.name);
+    if (UNRELATED_FAMILIES.includes(skill.family)) continue;
+    const related = [...userSkills.values()].filter((s) => s.skill.family === skill.family).map((s) => s.skill.name);
+    if (related.length > 0) overlap.adjacent[skill.name] = related.slice(0, 3);
+  }
+  return overlap;
+}
+
+function listSkills(names: string[], overlap: SkillOverlap, withAdjacent: boolean): string {
+  const shown = names.slice(0, MAX_BULLET_SKILLS).map((name) =>
+    withAdjacent && overlap.adjacent[name] ? `${name} (you know ${overlap.adjacent[name].join(', ')})` : name
+  );
+  const more = names.length - shown.length;
+  return more > 0 ? `${shown.join(', ')} +${more} more` : shown.join(', ');
+}
+
+/** The `{{skillOverlap}}` prompt variable. */
+export function formatSkillOverlapForPrompt(overlap: SkillOverlap | null): string {
+  if (!overlap) return '';
+  const line = (names: string[]) => (names.length > 0 ? names.join(', ') : '(none)');
+  const lines = [
+    `Job skills the user has: ${line(overlap.matched)}`,
+    `Required skills the user lacks: ${line(overlap.missing)}`,
+  ];
+  if (overlap.missingOptional.length > 0) lines.push(`Nice-to-have skills the user lacks: ${line(overlap.missingOptional)}`);
+  const adjacent = Object.entries(overlap.adjacent).map(([skill, known]) => `${skill} ← ${known.join(', ')}`);
+  if (adjacent.length > 0) lines.push(`Related skills the user has for what they lack (same family): ${adjacent.join('; ')}`);
+  return lines.join('\n');
+}
+
+/** Attach the overlap and put it first in the bullets: skills the user has, then required skills they lack. */
+export function applySkillOverlap(result: EvaluationResult, overlap: SkillOverlap | null): EvaluationResult {
+  if (!overlap) return result;
+  const next: EvaluationResult = { ...result, skillOverlap: overlap };
+  if (overlap.matched.length > 0) {
+    next.matchBullets = [`Skills you have: ${listSkills(overlap.matched, overlap, false)}`, ...next.matchBullets];
+  }
+  if (overlap.missing.length > 0) {
+    next.riskBullets = [`Missing skills: ${listSkills(overlap.missing, overlap, true)}`, ...next.riskBullets];
+  }
+  if (overlap.missingOptional.length > 0) {
+    next.riskBullets = [...next.riskBullets, `Missing nice-to-haves: ${listSkills(overlap.missingOptional, overlap, true)}`];
+  }
+  return next;
+}
@@ -0,0 +1,284 @@
+/**
+ * Bundled skill taxonomy: canonical skill names, the aliases postings and resumes use for them, and the
+ * family each belongs to. Aliases are matched case-insensitively on word boundaries; an alias written as
+ * `=Name` is matched case-sensitively and not before a hyphen (for short or everyday words such as "Go" or
+ * "Spring", so "go-to-market" is not Go). When a row lists `=` + its own name, the name is only matched
+ * that way; single-letter names (C, R) are only matched through their aliases.
+ */
+
+export type SkillFamily =
+  | 'language'
+  | 'frontend'
+  | 'backend'
+  | 'mobile'
+  | 'database'
+  | 'cloud'
+  | 'devops'
+  | 'data'
+  | 'ml'
+  | 'testing'
+  | 'security'
+  | 'design'
+  | 'practice';
+
+export const SKILL_FAMILY_LABELS: Record<SkillFamily, string> = {
+  language: 'Languages',
+  frontend: 'Frontend',
+  backend: 'Backend',
+  mobile: 'Mobile',
+  database: 'Databases',
+  cloud: 'Cloud',
+  devops: 'DevOps',
+  data: 'Data engineering',
+  ml: 'ML / AI',
+  testing: 'Testing',
+  security: 'Security',
+  design: 'Design',
+  practice: 'Practices',
+};
+
+export interface Skill {
+  name: string;
+  family: SkillFamily;
+  aliases: string[];
+}
+
+type SkillRow = [name: string, aliases?: string[]];
+
+const ROWS: Record<SkillFamily, SkillRow[]> = {
+  language: [
+    ['JavaScript', ['js', 'ecmascript', 'es6', 'es2015']],
+    ['TypeScript', ['=TS']],
+    ['Python', ['python3', 'python 3']],
+    ['Java', ['java 8', 'java 11', 'java 17', 'java 21']],
+    ['Kotlin'],
+    ['Scala'],
+    ['Go', ['=Go', 'golang']],
+    ['Rust'],
+    ['C', ['c programming', 'ansi c', 'embedded c', 'c/c++']],
+    ['C++', ['cpp', 'c/c++', 'modern c++']],
+    ['C#', ['csharp', 'c sharp']],
+    ['Ruby'],
+    ['PHP'],
+    ['Swift', ['=Swift']],
+    ['Objective-C', ['objective c', 'objc']],
+    ['Dart'],
+    ['Elixir'],
+    ['Erlang'],
+    ['Haskell'],
+    ['Clojure'],
+    ['F#', ['fsharp']],
+    ['OCaml'],
+    ['R', ['r programming', 'r language', 'rstudio']],
+    ['MATLAB'],
+    ['Julia', ['=Julia']],
+    ['Perl'],
+    ['Lua'],
+    ['Bash', ['shell scripting', 'shell script', 'zsh']],
+    ['PowerShell'],
+    ['SQL', ['t-sql', 'pl/sql', 'plsql']],
+    ['Solidity'],
+    ['Groovy'],
+    ['Zig'],
+    ['COBOL'],
+    ['Fortran'],
+    ['Assembly', ['assembler', 'x86 assembly', 'arm assembly']],
+  ],
+  frontend: [
+    ['React', ['react.js', 'reactjs', 'react 18']],
+    ['Angular', ['angularjs', 'angular.js']],
+    ['Vue.js', ['vue', 'vuejs', 'vue 3']],
+    ['Svelte', ['sveltekit']],
+    ['Next.js', ['nextjs']],
+    ['Nuxt', ['nuxt.js', 'nuxtjs']],
+    ['Remix', ['=Remix', 'remix.run']],
+    ['Astro', ['=Astro', 'astro.build']],
+    ['Ember.js', ['emberjs', '=Ember']],
+    ['jQuery'],
+    ['Redux', ['redux toolkit', 'rtk']],
+    ['HTML', ['html5']],
+    ['CSS', ['css3']],
+    ['Sass', ['scss']],
+    ['Tailwind CSS', ['tailwind', 'tailwindcss']],
+    ['Webpack'],
+    ['Vite', ['=Vite', 'vitejs']],
+    ['Storybook'],
+    ['Three.js', ['threejs', 'webgl']],
+    ['D3.js', ['d3', 'd3js']],
+    ['WebAssembly', ['wasm']],
+    ['Web Components', ['custom elements', 'lit element']],
+    ['Accessibility', ['a11y', 'wcag']],
+  ],
+  backend: [
+    ['Node.js', ['=Node', 'nodejs']],
+    ['Express', ['=Express', 'express.js', 'expressjs']],
+    ['NestJS', ['nest.js']],
+    ['Deno'],
+    ['Django'],
+    ['Flask', ['=Flask']],
+    ['FastAPI'],
+    ['Spring', ['=Spring', 'spring boot', 'spring framework', 'springboot']],
+    ['Hibernate'],
+    ['Quarkus'],
+    ['Ruby on Rails', ['=Rails', 'ror']],
+    ['Laravel'],
+    ['Symfony'],
+    ['.NET', ['dotnet', '.net core', '.net framework', '.net 8']],
+    ['ASP.NET', ['asp.net core', 'asp.net mvc']],
+    ['Phoenix', ['=Phoenix']],
+    ['GraphQL', ['apollo graphql']],
+    ['REST APIs', ['=REST', 'restful', 'rest api', 'rest apis', 'restful apis']],
+    ['gRPC', ['protobuf', 'protocol buffers']],
+    ['tRPC'],
+    ['WebSockets', ['websocket', 'socket.io']],
+    ['Microservices', ['microservice', 'micro-services', 'microservice architecture']],
+    ['Kafka', ['apache kafka']],
+    ['RabbitMQ'],
+    ['Celery'],
+    ['Event-driven architecture', ['event driven architecture', 'event sourcing', 'cqrs']],
+  ],
+  mobile: [
+    ['iOS', ['=iOS', 'ios development']],
+    ['Android', ['android sdk', 'android development']],
+    ['React Native'],
+    ['Flutter'],
+    ['SwiftUI'],
+    ['UIKit'],
+    ['Jetpack Compose'],
+    ['Xamarin'],
+    ['Ionic', ['=Ionic']],
+    ['Expo', ['=Expo']],
+  ],
+  database: [
+    ['PostgreSQL', ['postgres', 'postgresql', 'psql']],
+    ['MySQL'],
+    ['MariaDB'],
+    ['SQLite'],
+    ['SQL Server', ['mssql', 'microsoft sql server', 'ms sql']],
+    ['Oracle Database', ['=Oracle', 'oracle db', 'oracle sql']],
+    ['MongoDB', ['mongo', 'mongoose']],
+    ['Redis'],
+    ['Elasticsearch', ['elastic search', 'elk stack', 'elk']],
+    ['OpenSearch'],
+    ['Cassandra', ['apache cassandra']],
+    ['DynamoDB'],
+    ['Firebase', ['firestore']],
+    ['Supabase'],
+    ['Neo4j'],
+    ['ClickHouse'],
+    ['CockroachDB'],
+    ['Prisma', ['=Prisma', 'prisma orm']],
+    ['Sequelize'],
+    ['TypeORM'],
+    ['SQLAlchemy'],
+  ],
+  cloud: [
+    ['AWS', ['amazon web services', 'aws lambda', 'ec2', 's3']],
+    ['Azure', ['microsoft azure']],
+    ['Google Cloud', ['gcp', 'google cloud platform']],
+    ['Serverless', ['serverless framework', 'faas']],
+    ['Cloudflare', ['cloudflare workers']],
+    ['Heroku'],
+    ['Vercel'],
+    ['Netlify'],
+    ['DigitalOcean', ['digital ocean']],
+  ],
+  devops: [
+    ['Docker', ['dockerfile', 'docker compose', 'docker-compose']],
+    ['Kubernetes', ['k8s', 'eks', 'gke', 'aks']],
+    ['Helm', ['=Helm', 'helm charts']],
+    ['Terraform'],
+    ['Pulumi'],
+    ['Ansible'],
+    ['Chef', ['=Chef']],
+    ['Puppet', ['=Puppet']],
+    ['CloudFormation', ['aws cloudformation']],
+    ['Jenkins'],
+    ['GitHub Actions'],
+    ['GitLab CI', ['gitlab ci/cd', 'gitlab-ci']],
+    ['CircleCI'],
+    ['Argo CD', ['argocd']],
+    ['CI/CD', ['continuous integration', 'continuous delivery', 'continuous deployment']],
+    ['Git', ['=Git', 'github', 'gitlab', 'bitbucket']],
+    ['Linux', ['unix', 'ubuntu', 'debian', 'centos', 'rhel']],
+    ['Nginx'],
+    ['Prometheus'],
+    ['Grafana'],
+    ['Datadog'],
+    ['OpenTelemetry', ['otel']],
+    ['Istio', ['service mesh']],
+    ['Bazel'],
+    ['Site Reliability Engineering', ['=SRE', 'site reliability']],
+  ],
+  data: [
+    ['Apache Spark', ['=Spark', 'pyspark', 'spark sql']],
+    ['Hadoop', ['hdfs', '=Hive', 'mapreduce']],
+    ['Airflow', ['apache airflow']],
+    ['dbt', ['=dbt', 'data build tool']],
+    ['Flink', ['apache flink']],
+    ['Pandas'],
+    ['NumPy'],
+    ['Databricks'],
+    ['Snowflake'],
+    ['BigQuery'],
+    ['Redshift', ['amazon redshift']],
+    ['Tableau'],
+    ['Power BI', ['powerbi']],
+    ['Looker', ['looker studio']],
+    ['ETL', ['=ETL', '=ELT', 'data pipelines', 'data pipeline']],
+    ['Data warehousing', ['data warehouse', 'data warehouses']],
+  ],
+  ml: [
+    ['Machine learning', ['=ML', 'machine-learning']],
+    ['Deep learning', ['neural networks']],
+    ['PyTorch'],
+    ['TensorFlow'],
+    ['Keras'],
+    ['scikit-learn', ['sklearn', 'scikit learn']],
+    ['XGBoost', ['lightgbm']],
+    ['NLP', ['=NLP', 'natural language processing']],
+    ['Computer vision'],
+    ['OpenCV'],
+    ['LLMs', ['=LLM', '=LLMs', 'large language models', 'large language model']],
+    ['Generative AI', ['genai', 'gen ai', 'generative ai']],
+    ['RAG', ['=RAG', 'retrieval-augmented generation', 'retrieval augmented generation']],
+    ['LangChain'],
+    ['Hugging Face', ['huggingface']],
+    ['MLOps', ['ml ops', 'mlflow', 'kubeflow']],
+  ],
+  testing: [
+    ['Jest'],
+    ['Vitest'],
+    ['Mocha', ['=Mocha']],
+    ['Testing Library', ['react testing library']],
+    ['Cypress'],
+    ['Playwright'],
+    ['Selenium', ['webdriver']],
+    ['JUnit'],
+    ['pytest'],
+    ['TDD', ['=TDD', 'test-driven development', 'test driven development']],
+  ],
+  security: [
+    ['OAuth', ['oauth2', 'oauth 2.0', 'openid connect', 'oidc']],
+    ['OWASP'],
+    ['Penetration testing', ['pentesting', 'pen testing', 'pentest']],
+    ['SIEM', ['=SIEM', 'splunk']],
+    ['Identity and access management', ['=IAM', 'identity management']],
+    ['Cryptography', ['encryption']],
+  ],
+  design: [
+    ['Figma'],
+    ['Sketch', ['=Sketch']],
+    ['UX design', ['ux', 'user experience', 'ui/ux', 'ux/ui']],
+  ],
+  practice: [
+    ['Agile', ['=Agile', 'agile methodologies']],
+    ['Scrum'],
+    ['Domain-driven design', ['=DDD', 'domain driven design']],
+    ['System design', ['distributed systems', 'systems design']],
+  ],
+};
+
+export const SKILLS: Skill[] = (Object.keys(ROWS) as SkillFamily[]).flatMap((family) =>
+  ROWS[family].map(([name, aliases = []]) => ({ name, family, aliases }))
+);
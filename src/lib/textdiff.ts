@@ -0,0 +1,51 @@
+/**
+ * Line diff between two versions of a text, for the resume history: the longest common subsequence of lines,
+ * after the shared first and last lines are set aside.
+ */
+
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  // lcs[i][j]: common lines of a[i..endA) and b[j..endB)
+  const rows = endA - start;
+  const cols = endB - start;
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = a[start + i] === b[start + j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map((text) => ({ kind: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      lines.push({ kind: 'same', text: a[start + i] });
+      i++;
+      j++;
+    } else if (i < rows && (j === cols || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ kind: 'removed', text: a[start + i] });
+      i++;
+    } else {
+      lines.push({ kind: 'added', text: b[start + j] });
+      j++;
+    }
+  }
+  for (const text of a.slice(endA)) lines.push({ kind: 'same', text });
+  return lines;
+}
@@ -1,3 +1,5 @@
+import type { ApiProvider } from './providers';
+
 /** Job data read from the current LinkedIn job page (visible DOM only). */
 export interface JobData {
   id: string;
@@ -6,14 +8,138 @@ export interface JobData {
   location: string;
   /** Company name when present (job detail or card). */
   company?: string;
+  /** Facts read from the page (JSON-LD, insight chips, description); the model fills the gaps. */
+  facts?: JobFacts;
+}
+
+export type SalaryPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+export type EmploymentType = 'full_time' | 'part_time' | 'contract' | 'temporary' | 'internship' | 'volunteer';
+
+export interface SalaryRange {
+  min: number | null;
+  max: number | null;
+  /** ISO 4217 code, e.g. "USD". */
+  currency: string | null;
+  period: SalaryPeriod | null;
 }
 
+/** Structured facts about a posting. A missing or null field means the posting does not say. */
+export interface JobFacts {
+  salary?: SalaryRange | null;
+  employmentType?: EmploymentType | null;
+  workplaceType?: WorkplaceType | null;
+  seniority?: SeniorityLevel | null;
+  /** Minimum years of experience asked for. */
+  yearsRequired?: number | null;
+  /** Spoken languages the posting requires. */
+  languages?: string[];
+  /** true = sponsorship offered, false = ruled out. */
+  visaSponsorship?: boolean | null;
+  /** Required security clearance, e.g. "Secret". */
+  securityClearance?: string | null;
+}
+
+/** Where each fact came from: the page itself or the model's reading of the description. */
+export type JobFactSources = Partial<Record<keyof JobFacts, 'page' | 'model'>>;
+
 /** One resume stored locally (parsed text + label). */
 export interface ResumeRecord {
   id: string;
   label: string;
   text: string;
   createdAt: number;
+  /** Condensed form sent to small-context local models instead of `text` (absent on older records). */
+  summary?: ResumeSummary;
+  /** Sections and entries read from the file's layout, editable in the Resumes tab (see resumeparse.ts). */
+  structured?: StructuredResume;
+  /** Raised by every update (absent on records saved before versioning, which are version 1). */
+  version?: number;
+  /** When the current version was saved. */
+  updatedAt?: number;
+}
+
+/** A resume as it was before an update; the current version is the record itself. */
+export interface ResumeVersion {
+  resumeId: string;
+  version: number;
+  savedAt: number;
+  label: string;
+  text: string;
+  structured?: StructuredResume;
+}
+
+/** A resume by id and the version an evaluation saw; the label is as it was then. */
+export interface ResumeRef {
+  id: string;
+  version: number;
+  label: string;
+}
+
+/** Month precision: "2021-03", or "2021" when the resume gives only the year. */
+export type ResumeDate = string;
+
+export interface ResumeContact {
+  name: string;
+  email: string;
+  phone: string;
+  location: string;
+  links: string[];
+}
+
+export interface ResumeExperience {
+  title: string;
+  employer: string;
+  location: string;
+  start: ResumeDate | null;
+  /** Null with `current` set for an ongoing role, or when no end date was found. */
+  end: ResumeDate | null;
+  current: boolean;
+  bullets: string[];
+}
+
+export interface ResumeEducation {
+  institution: string;
+  degree: string;
+  start: ResumeDate | null;
+  end: ResumeDate | null;
+}
+
+/** A resume split into its sections. */
+export interface StructuredResume {
+  contact: ResumeContact;
+  summary: string;
+  experience: ResumeExperience[];
+  education: ResumeEducation[];
+  /** As written in the skills section. */
+  skills: string[];
+  certifications: string[];
+  /**
+   * Parser version that built it; absent when it was imported from structured data or edited by the user,
+   * so it is never re-parsed over.
+   */
+  version?: number;
+}
+
+/** Years of experience from a structured resume's dated roles. */
+export interface ExperienceYears {
+  /** Span of all roles, overlaps counted once; null without dated roles. */
+  total: number | null;
+  /** Per taxonomy skill named in a role's title or bullets, most years first. */
+  bySkill: Array<{ skill: string; years: number }>;
+}
+
+/** What a resume boils down to, read locally from its text (see resumesummary.ts). */
+export interface ResumeSummary {
+  titles: string[];
+  /** From a stated figure or the span of dated roles; null when neither is found. */
+  years: number | null;
+  domains: string[];
+  /** Canonical taxonomy names, in order of first mention. */
+  skills: string[];
+  /** The rendering used in the prompt, within RESUME_SUMMARY_MAX_TOKENS. */
+  text: string;
+  /** Condenser version that built it; older summaries are rebuilt. */
+  version: number;
 }
 
 /** Settings stored in IndexedDB (key-value by key). */
@@ -26,9 +152,230 @@ export interface SettingsRecord {
   ollamaModel: string;
   /** Per-provider model override; when empty for a provider, app uses default model. */
   providerModels?: Partial<Record<ApiProvider, string>>;
+  /** Providers tried in order after `apiProvider` hits a rate limit, timeout or auth failure. */
+  fallbackProviders?: ApiProvider[];
+  /** Connection details for the `custom` OpenAI-compatible provider. */
+  customEndpoint?: CustomEndpointSettings;
+  retryPolicy?: RetryPolicy;
+  /** Per-provider request/token budgets; a missing entry uses the provider's default. */
+  rateLimits?: Partial<Record<ApiProvider, ProviderRateLimit>>;
+  /** Estimated spend (USD) per calendar month after which paid evaluations are refused; null = no limit. */
+  monthlyBudgetUsd?: number | null;
+  /** Prompt template version used for new evaluations; 0 = built-in prompt. */
+  activePromptVersion?: number;
+  /** Scoring criteria and weights; the overall score is computed from the model's per-criterion scores. */
+  rubric?: RubricCriterion[];
+  /** Deterministic deal-breaker rules checked before any LLM call. */
+  prefilterRules?: PrefilterRule[];
+  /** Pay expectations; a posting whose whole range is below `minimum` is a hard rejection. */
+  compensation?: CompensationExpectation | null;
+  /** Currency conversion table used to compare salaries (see DEFAULT_FX_RATES). */
+  fxRates?: Record<string, number>;
+  /** Home base, commute radius, relocation countries and remote time-zone needs. */
+  locationProfile?: LocationProfile | null;
+  /** Two-stage mode for bulk runs: a quick pass on a small model, then a full evaluation for jobs that pass. */
+  triage?: TriageSettings;
+  /** Self-consistency mode: several evaluations per job, aggregated into one result. */
+  ensemble?: EnsembleSettings;
+  /** Raw-to-calibrated score mapping fitted from the user's feedback; null until there is enough feedback. */
+  calibration?: ScoreCalibration | null;
+  /** Context window (tokens) per `provider:model`, overriding the built-in table in contextbudget.ts. */
+  contextWindows?: Record<string, number>;
+}
+
+/** Thumbs up/down on a result, or whether the user applied to the job. */
+export type FeedbackKind = 'up' | 'down' | 'applied' | 'would_not_apply';
+
+/** The user's judgement of one evaluated job (one per job; newer feedback replaces older). */
+export interface FeedbackRecord {
+  /** Cache key of the evaluation the feedback is about. */
+  cacheKey: string;
+  kind: FeedbackKind;
+  comment?: string;
+  job: { title: string; company?: string; location: string };
+  /**
+   * Model score before calibration, which the calibration is fitted on; null when no model scored the job
+   * (a pre-filter rejection, or a job marked bad before it was evaluated).
+   */
+  rawScore: number | null;
+  verdict: EvaluationResult['verdict'];
+  explanation: string;
+  createdAt: number;
+}
+
+/** Monotone mapping from the model's score to one that matches how the user judged similar scores. */
+export interface ScoreCalibration {
+  /** [raw, calibrated] knots in ascending raw order, from 0 to 100; linear in between. */
+  points: Array<[number, number]>;
+  /** Feedback entries the mapping was fitted on. */
+  sampleSize: number;
+  fittedAt: number;
+}
+
+/** A provider and model used for some of an ensemble's samples; blank model = the provider's configured model. */
+export interface EnsembleMember {
+  provider: ApiProvider;
+  model: string;
+}
+
+export interface EnsembleSettings {
+  enabled: boolean;
+  /** Evaluations per job, including the one on the main provider. */
+  samples: number;
+  /** Models the samples after the first rotate through; empty = repeat the main provider and model. */
+  members: EnsembleMember[];
+}
+
+export const DEFAULT_ENSEMBLE_SETTINGS: EnsembleSettings = {
+  enabled: false,
+  samples: 3,
+  members: [],
+};
+
+/** First pass used when a whole job list is scored; the full evaluation runs on the main provider and model. */
+export interface TriageSettings {
+  enabled: boolean;
+  /** Provider for the quick pass; null = the main provider. */
+  provider: ApiProvider | null;
+  /** Model for the quick pass; blank = the provider's configured model. */
+  model: string;
+  /** Triage score (0–100) a job needs for the full evaluation. */
+  threshold: number;
+}
+
+export const DEFAULT_TRIAGE_SETTINGS: TriageSettings = {
+  enabled: false,
+  provider: null,
+  model: '',
+  threshold: 50,
+};
+
+/** Budgets the evaluation queue enforces before dispatching to a provider; null = unlimited. */
+export interface ProviderRateLimit {
+  requestsPerMinute: number | null;
+  tokensPerMinute: number | null;
 }
 
-export type ApiProvider = 'ollama' | 'openai' | 'anthropic' | 'openrouter' | 'google' | 'groq';
+/** How the service worker retries rate-limited or overloaded requests before giving up. */
+export interface RetryPolicy {
+  /** Total attempts per evaluation, including the first. */
+  maxAttempts: number;
+  /** Delay before the first retry when the provider gives no Retry-After hint; doubles each retry. */
+  baseDelayMs: number;
+  /** Upper bound on a single wait; longer Retry-After hints fail the evaluation instead. */
+  maxDelayMs: number;
+  /** Random spread applied to each delay (0.25 = ±25%). */
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 2_000,
+  maxDelayMs: 120_000,
+  jitter: 0.25,
+};
+
+/** One scoring criterion; the model rates each 0–100 and the overall score is their weighted average. */
+export interface RubricCriterion {
+  /** Key used in the model's `criterionScores` object. */
+  id: string;
+  label: string;
+  /** Tells the model what to rate. */
+  description: string;
+  /** Relative weight; 0 disables the criterion. */
+  weight: number;
+}
+
+export const DEFAULT_RUBRIC: RubricCriterion[] = [
+  { id: 'techStack', label: 'Tech stack', description: "Overlap between required skills/tools and the user's skills and resumes", weight: 30 },
+  { id: 'seniority', label: 'Seniority', description: "Level and years of experience asked vs. the user's level", weight: 20 },
+  { id: 'compensation', label: 'Compensation', description: 'Stated or likely pay vs. what the user wants', weight: 10 },
+  { id: 'remotePolicy', label: 'Remote policy', description: "Remote/hybrid/on-site terms and location vs. the user's preferences", weight: 15 },
+  { id: 'domain', label: 'Domain', description: "Industry and product area vs. the user's experience and interests", weight: 15 },
+  { id: 'growth', label: 'Growth', description: "Learning, scope and career progression the role offers for the user's goals", weight: 10 },
+];
+
+export type PrefilterField = 'title' | 'description' | 'location' | 'company';
+export type SeniorityLevel = 'intern' | 'junior' | 'mid' | 'senior' | 'lead' | 'manager';
+export type WorkplaceType = 'remote' | 'hybrid' | 'onsite';
+
+/**
+ * Local rule checked before the LLM is called; a match rejects the job without a model call.
+ * `keyword` matches text (or a case-insensitive regex) in the chosen fields; `seniority` and `workplace`
+ * reject the listed values as detected from the posting; `visa` rejects postings that rule out sponsorship.
+ */
+export type PrefilterRule = { id: string; enabled: boolean } & (
+  | { kind: 'keyword'; fields: PrefilterField[]; pattern: string; regex: boolean }
+  | { kind: 'seniority'; levels: SeniorityLevel[] }
+  | { kind: 'workplace'; types: WorkplaceType[] }
+  | { kind: 'visa' }
+);
+
+export type CompensationPeriod = 'year' | 'hour';
+
+/** What the user wants to earn, in their own currency; either bound may be left unset. */
+export interface CompensationExpectation {
+  currency: string;
+  period: CompensationPeriod;
+  minimum: number | null;
+  target: number | null;
+}
+
+/** Where the user lives and how far a role may be from there; locations are matched offline (see geodata.ts). */
+export interface LocationProfile {
+  /** Free text such as "Utrecht, Netherlands", resolved against the bundled geodata. */
+  home: string;
+  /** Longest acceptable distance to an on-site or hybrid office, straight-line; null = not checked. */
+  maxCommuteKm: number | null;
+  /** ISO country codes the user would move to for an on-site or hybrid role. */
+  relocateCountries: string[];
+  /** Working hours a remote role must share with the user's day (9–17 local); null = not checked. */
+  minTimezoneOverlapHours: number | null;
+}
+
+/** Value of one unit of each currency in USD, maintained by the user (no network lookups). */
+export const DEFAULT_FX_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  CAD: 0.73,
+  AUD: 0.66,
+  NZD: 0.6,
+  CHF: 1.12,
+  SEK: 0.095,
+  NOK: 0.094,
+  DKK: 0.145,
+  PLN: 0.25,
+  INR: 0.012,
+  SGD: 0.74,
+  JPY: 0.0067,
+};
+
+/** User-supplied OpenAI-compatible server (vLLM, LM Studio, llama.cpp, …). */
+export interface CustomEndpointSettings {
+  /** Base URL such as http://localhost:8000/v1; `/chat/completions` is appended when missing. */
+  baseUrl: string;
+  /** Extra request headers (e.g. for a reverse proxy). */
+  headers: Record<string, string>;
+}
+
+/** System prompt and user-prompt template (with `{{variables}}`) sent for each evaluation. */
+export interface PromptTemplate {
+  system: string;
+  user: string;
+}
+
+/** A saved prompt template; versions are immutable and numbered from 1 (0 is the built-in prompt). */
+export interface PromptTemplateVersion {
+  version: number;
+  createdAt: number;
+  /** Optional note describing what changed. */
+  note?: string;
+  template: PromptTemplate;
+}
+
+/** Provider ids come from the adapter registry in providers.ts. */
+export type { ApiProvider };
 
 /** Default settings keys and values. */
 export const DEFAULT_SETTINGS: SettingsRecord = {
@@ -39,6 +386,21 @@ export const DEFAULT_SETTINGS: SettingsRecord = {
   apiKeys: {},
   ollamaModel: 'llama3.1:8b',
   providerModels: {},
+  customEndpoint: { baseUrl: '', headers: {} },
+  fallbackProviders: [],
+  retryPolicy: DEFAULT_RETRY_POLICY,
+  rateLimits: {},
+  monthlyBudgetUsd: null,
+  activePromptVersion: 0,
+  rubric: DEFAULT_RUBRIC,
+  prefilterRules: [],
+  compensation: null,
+  fxRates: DEFAULT_FX_RATES,
+  locationProfile: null,
+  triage: DEFAULT_TRIAGE_SETTINGS,
+  ensemble: DEFAULT_ENSEMBLE_SETTINGS,
+  calibration: null,
+  contextWindows: {},
 };
 
 /** Result of the evaluation (from LLM, parsed JSON). */
@@ -51,6 +413,145 @@ export interface EvaluationResult {
   bestResumeLabel: string | null;
   explanation: string;
   extraInfo?: Record<string, unknown> | null;
+  /** The resume `bestResumeLabel` named, so the link survives renames and updates. */
+  bestResume?: ResumeRef;
+  /** Provider that produced this result (may be a fallback when the primary failed). */
+  provider?: ApiProvider;
+  /** Model that produced this result. */
+  model?: string;
+  /** Tokens billed for the call that produced this result. */
+  usage?: TokenUsage;
+  /** Prompt template version that produced this result (0 = built-in prompt). */
+  promptVersion?: number;
+  /** Per-criterion scores behind `score`, in rubric order (absent when the rubric was empty or the model skipped it). */
+  criteria?: CriterionScore[];
+  /** Set when a pre-filter rule rejected the job locally; no model was called. */
+  prefilterRuleId?: string;
+  /** Posting facts: page-extracted values, with the model's reading for anything the page lacked. */
+  facts?: JobFacts;
+  factSources?: JobFactSources;
+  /** The posting's salary annualized in the user's currency and compared with their expectations. */
+  compensation?: CompensationCheck;
+  /** The job's location matched against the user's location profile. */
+  locationCheck?: LocationCheck;
+  /** Skills named in the posting compared with the user's, from the local skill taxonomy. */
+  skillOverlap?: SkillOverlap;
+  /** Quick first pass in two-stage mode; when it did not pass, this result is the triage itself. */
+  triage?: TriageOutcome;
+  /** Set when this result aggregates several samples (self-consistency mode). */
+  ensemble?: EnsembleSummary;
+  /** The model's score when `score` was calibrated to the user's feedback, or replaced by Mark as bad. */
+  rawScore?: number;
+  /** Set when the user marked the job as bad: `score` is 0 and `rawScore` keeps the model's, if there was one. */
+  markedBad?: boolean;
+  /** Set when the prompt had to be shortened to fit the model's context window. */
+  promptTrim?: PromptTrim;
+}
+
+/** How a prompt was shortened to fit the model's context window. */
+export interface PromptTrim {
+  contextTokens: number;
+  /** Estimated prompt size (system and user prompt) before and after trimming. */
+  fullTokens: number;
+  promptTokens: number;
+  /** What was removed or shortened, in the order it was done. */
+  steps: string[];
+}
+
+/** How the samples behind an aggregated result agreed. */
+export interface EnsembleSummary {
+  samples: Array<{
+    provider: ApiProvider;
+    model: string;
+    score: number;
+    verdict: EvaluationResult['verdict'];
+    usage?: TokenUsage;
+  }>;
+  /** Population standard deviation of the sample scores. */
+  scoreStdDev: number;
+  /** Share of samples whose verdict is the aggregated one (0–1). */
+  verdictAgreement: number;
+  /** Low when scores spread widely or the verdict was split. */
+  confidence: 'high' | 'medium' | 'low';
+}
+
+/** The quick first pass of a two-stage evaluation (title, location, facts and an excerpt; no resumes). */
+export interface TriageOutcome {
+  score: number;
+  verdict: 'worth' | 'maybe' | 'not_worth';
+  explanation: string;
+  /** Threshold in force when it ran; `passed` = score at or above it and no hard rejection. */
+  threshold: number;
+  passed: boolean;
+  provider: ApiProvider;
+  model: string;
+  usage?: TokenUsage;
+}
+
+/** Canonical skill names (see skilltaxonomy.ts) from the posting, split by whether the user has them. */
+export interface SkillOverlap {
+  matched: string[];
+  /** Skills the posting asks for that the user lacks. */
+  missing: string[];
+  /** Lacking skills the posting lists as nice to have. */
+  missingOptional: string[];
+  /** For lacking skills: the user's skills from the same family ("Vue.js" → ["React"]). */
+  adjacent: Record<string, string[]>;
+}
+
+export interface CompensationCheck {
+  annualMin: number;
+  annualMax: number;
+  /** The user's currency, which the figures above are in. */
+  currency: string;
+  /** True when the posting gave no pay period and one was inferred from the amount. */
+  periodAssumed: boolean;
+  status: 'below_minimum' | 'below_target' | 'meets_target' | 'no_expectation';
+}
+
+/** A LinkedIn location string split into its parts and resolved against the offline geodata. */
+export interface ParsedLocation {
+  city: string | null;
+  region: string | null;
+  /** Multi-country area such as "Europe" or "LATAM". */
+  area: string | null;
+  /** ISO codes the location covers: one for a city or country, several for an area, none when unknown. */
+  countries: string[];
+  /** From a "(Remote)" / "(Hybrid)" / "(On-site)" badge in the string. */
+  workplaceType: WorkplaceType | null;
+  /** Set when the city is in the geodata table. */
+  coordinates: { lat: number; lon: number } | null;
+  /** Westernmost and easternmost standard UTC offsets the location spans. */
+  utcOffsets: [number, number] | null;
+}
+
+export interface LocationCheck {
+  /** The job location as resolved, e.g. "Amsterdam, Netherlands" or "Europe". */
+  place: string;
+  workplaceType: WorkplaceType | null;
+  /** Straight-line distance from home, when both ends are known cities. */
+  distanceKm: number | null;
+  /** Best-case shared working hours for a remote role, when both time zones are known. */
+  timezoneOverlapHours: number | null;
+  status: 'commutable' | 'relocation' | 'too_far' | 'remote' | 'remote_restricted' | 'timezone_mismatch' | 'unknown';
+}
+
+/** A criterion's score as used for one result; label and weight are copied so old results stay readable. */
+export interface CriterionScore {
+  id: string;
+  label: string;
+  weight: number;
+  score: number;
+}
+
+/** Token counts for one LLM call, as reported by the provider (or estimated when it reports none). */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** USD; provider-reported when available (OpenRouter), else from the local price table; null = unknown price. */
+  costUsd: number | null;
+  /** True when the provider sent no usage and the counts were estimated from text length. */
+  estimated?: boolean;
 }
 
 /** Raw LLM response shape (before mapping to EvaluationResult). */
@@ -62,5 +563,14 @@ export interface EvaluationResultRaw {
   riskBullets?: string[];
   bestResumeLabel?: string | null;
   explanation?: string;
+  /** Criterion id → 0–100, when the rubric is in use. */
+  criterionScores?: Record<string, number>;
+  /** Facts the model read from the posting (loosely checked; see normalizeModelFacts). */
+  jobFacts?: unknown;
   extraInfo?: Record<string, unknown> | null;
 }
+
+/** Fields picked out of a still-streaming LLM response; any of them may be missing or incomplete. */
+export type PartialEvaluation = Partial<
+  Pick<EvaluationResult, 'score' | 'verdict' | 'explanation' | 'matchBullets' | 'riskBullets'>
+>;
@@ -0,0 +1,132 @@
+/**
+ * Token cost accounting: list prices per model, cost estimates for a call, and spend summaries for the
+ * dashboard and the monthly budget. Prices are USD per 1M tokens and only approximate; free tiers are
+ * not detected, so Groq/Gemini calls are valued at their paid rates.
+ */
+
+import type { UsageLogEntry } from './db';
+import type { ApiProvider, TokenUsage } from './types';
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+/** Checked in order; the first entry whose provider matches and whose pattern prefixes the model wins. */
+const MODEL_PRICES: Array<{ provider: ApiProvider; model: string; price: ModelPrice }> = [
+  { provider: 'openai', model: 'gpt-4o-mini', price: { input: 0.15, output: 0.6 } },
+  { provider: 'openai', model: 'gpt-4o', price: { input: 2.5, output: 10 } },
+  { provider: 'openai', model: 'gpt-4.1-nano', price: { input: 0.1, output: 0.4 } },
+  { provider: 'openai', model: 'gpt-4.1-mini', price: { input: 0.4, output: 1.6 } },
+  { provider: 'openai', model: 'gpt-4.1', price: { input: 2, output: 8 } },
+  { provider: 'openai', model: 'gpt-5-nano', price: { input: 0.05, output: 0.4 } },
+  { provider: 'openai', model: 'gpt-5-mini', price: { input: 0.25, output: 2 } },
+  { provider: 'openai', model: 'gpt-5', price: { input: 1.25, output: 10 } },
+  { provider: 'anthropic', model: 'claude-haiku-4-5', price: { input: 1, output: 5 } },
+  { provider: 'anthropic', model: 'claude-3-5-haiku', price: { input: 0.8, output: 4 } },
+  { provider: 'anthropic', model: 'claude-sonnet-4', price: { input: 3, output: 15 } },
+  { provider: 'anthropic', model: 'claude-opus-4', price: { input: 15, output: 75 } },
+  { provider: 'groq', model: 'openai/gpt-oss-120b', price: { input: 0.15, output: 0.75 } },
+  { provider: 'groq', model: 'openai/gpt-oss-20b', price: { input: 0.1, output: 0.5 } },
+  { provider: 'groq', model: 'llama-3.1-8b-instant', price: { input: 0.05, output: 0.08 } },
+  { provider: 'groq', model: 'llama-3.3-70b-versatile', price: { input: 0.59, output: 0.79 } },
+  { provider: 'google', model: 'gemini-3-flash', price: { input: 0.5, output: 3 } },
+  { provider: 'google', model: 'gemini-3-pro', price: { input: 2, output: 12 } },
+  { provider: 'google', model: 'gemini-2.5-flash-lite', price: { input: 0.1, output: 0.4 } },
+  { provider: 'google', model: 'gemini-2.5-flash', price: { input: 0.3, output: 2.5 } },
+  { provider: 'google', model: 'gemini-2.5-pro', price: { input: 1.25, output: 10 } },
+];
+
+/** Price for a model, or null when it is not in the table (custom endpoints, unknown models). */
+export function getModelPrice(provider: ApiProvider, model: string): ModelPrice | null {
+  if (provider === 'ollama') return FREE;
+  if (provider === 'openrouter' && model.endsWith(':free')) return FREE;
+  const entry = MODEL_PRICES.find((p) => p.provider === provider && model.startsWith(p.model));
+  return entry?.price ?? null;
+}
+
+export function isFreeModel(provider: ApiProvider, model: string): boolean {
+  const price = getModelPrice(provider, model);
+  return price != null && price.input === 0 && price.output === 0;
+}
+
+export function estimateCostUsd(
+  provider: ApiProvider,
+  model: string,
+  usage: Pick<TokenUsage, 'promptTokens' | 'completionTokens'>
+): number | null {
+  const price = getModelPrice(provider, model);
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/** Local midnight on the 1st of the month containing `now`. */
+export function getMonthStart(now = Date.now()): number {
+  const d = new Date(now);
+  return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+}
+
+function localDay(ts: number): string {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export interface SpendBucket {
+  key: string;
+  evaluations: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  /** Calls whose model has no known price (not included in `costUsd`). */
+  unpriced: number;
+}
+
+export interface SpendSummary {
+  total: SpendBucket;
+  /** Newest day first. */
+  byDay: SpendBucket[];
+  /** Most expensive first. */
+  byProvider: SpendBucket[];
+  byModel: SpendBucket[];
+}
+
+function emptyBucket(key: string): SpendBucket {
+  return { key, evaluations: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, unpriced: 0 };
+}
+
+function addToBucket(buckets: Map<string, SpendBucket>, key: string, entry: UsageLogEntry): void {
+  const bucket = buckets.get(key) ?? emptyBucket(key);
+  bucket.evaluations++;
+  bucket.promptTokens += entry.promptTokens;
+  bucket.completionTokens += entry.completionTokens;
+  if (entry.costUsd == null) bucket.unpriced++;
+  else bucket.costUsd += entry.costUsd;
+  buckets.set(key, bucket);
+}
+
+export function summarizeSpend(entries: UsageLogEntry[]): SpendSummary {
+  const total = new Map<string, SpendBucket>();
+  const byDay = new Map<string, SpendBucket>();
+  const byProvider = new Map<string, SpendBucket>();
+  const byModel = new Map<string, SpendBucket>();
+  for (const entry of entries) {
+    addToBucket(total, 'total', entry);
+    addToBucket(byDay, localDay(entry.at), entry);
+    addToBucket(byProvider, entry.provider, entry);
+    addToBucket(byModel, entry.model || '(default)', entry);
+  }
+  const byCost = (a: SpendBucket, b: SpendBucket) => b.costUsd - a.costUsd || b.evaluations - a.evaluations;
+  return {
+    total: total.get('total') ?? emptyBucket('total'),
+    byDay: [...byDay.values()].sort((a, b) => b.key.localeCompare(a.key)),
+    byProvider: [...byProvider.values()].sort(byCost),
+    byModel: [...byModel.values()].sort(byCost),
+  };
+}
+
+export function formatUsd(value: number): string {
+  if (value === 0) return '$0.00';
+  return value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
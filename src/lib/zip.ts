@@ -0,0 +1,58 @@
+/**
+ * Minimal ZIP reading for resume imports (ODT documents, LinkedIn data exports): the central directory is
+ * walked and stored or deflated entries are extracted with the browser's DecompressionStream. No ZIP64 or
+ * encryption, which neither format uses.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+/** End record (22 bytes) plus the longest archive comment. */
+const END_SEARCH_BYTES = 22 + 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+async function inflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Contents of the entries whose path `wanted` accepts, by path. */
+export async function readZipEntries(data: ArrayBuffer, wanted: (path: string) => boolean): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(data);
+  let end = -1;
+  for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - END_SEARCH_BYTES); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a ZIP archive.');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Uint8Array>();
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new Error('The ZIP archive is damaged.');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(new Uint8Array(data, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/') || !wanted(path)) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error('The ZIP archive is damaged.');
+    // The local header's name and extra field lengths can differ from the central directory's
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const bytes = new Uint8Array(data, start, compressedSize);
+    if (method === STORED) entries.set(path, bytes);
+    else if (method === DEFLATED) entries.set(path, await inflateRaw(bytes));
+    else throw new Error(`Unsupported ZIP compression (method ${method}) for ${path}.`);
+  }
+  return entries;
+}
@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Settings, FileText, Bug, Info } from 'lucide-react';
+import { Settings, FileText, ScrollText, Bug, Info } from 'lucide-react';
 import { JobIntelligencePanel } from './components/JobIntelligencePanel';
 import { SettingsPanel } from './components/SettingsPanel';
 import { ResumesPanel } from './components/ResumesPanel';
+import { PromptTemplatePanel } from './components/PromptTemplatePanel';
 import { DebugPanel } from './components/DebugPanel';
 import { Button } from './components/ui/button';
 import { cn } from './lib/utils';
@@ -11,7 +12,7 @@ import { getAllResumes } from '@/lib/db';
 const MAX_DEBUG_ENTRIES = 200;
 type DebugEntry = { ts: string; msg: string; level: 'info' | 'warn' | 'error' };
 
-export type TabId = 'main' | 'settings' | 'resumes' | 'debug';
+export type TabId = 'main' | 'settings' | 'resumes' | 'prompts' | 'debug';
 
 export default function App() {
   const [tab, setTab] = useState<TabId>('main');
@@ -83,6 +84,14 @@ export default function App() {
           >
             <FileText className="h-4 w-4" />
           </Button>
+          <Button
+            variant={tab === 'prompts' ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setTab('prompts')}
+            aria-label="Prompt templates"
+          >
+            <ScrollText className="h-4 w-4" />
+          </Button>
           <Button
             variant={tab === 'debug' ? 'secondary' : 'ghost'}
             size="sm"
@@ -127,6 +136,7 @@ export default function App() {
             }}
           />
         )}
+        {tab === 'prompts' && <PromptTemplatePanel onBack={() => setTab('main')} />}
         {tab === 'debug' && (
           <DebugPanel entries={debugEntries} onClear={clearDebugLog} onBack={() => setTab('main')} />
         )}
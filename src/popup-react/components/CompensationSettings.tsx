@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from './ui/button';
+import { DEFAULT_FX_RATES } from '@/lib/types';
+import type { CompensationPeriod } from '@/lib/types';
+
+const INPUT_CLASS =
+  'rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export interface CompensationForm {
+  currency: string;
+  period: CompensationPeriod;
+  /** Raw input text; blank = not set. */
+  minimum: string;
+  target: string;
+}
+
+/** Minimum/target pay inputs plus the editable currency rate table used to compare salaries. */
+export function CompensationSettings({
+  form,
+  onFormChange,
+  rates,
+  onRatesChange,
+}: {
+  form: CompensationForm;
+  onFormChange: (form: CompensationForm) => void;
+  rates: Record<string, number>;
+  onRatesChange: (rates: Record<string, number>) => void;
+}) {
+  const [newCode, setNewCode] = useState('');
+  const [newRate, setNewRate] = useState('');
+  const codes = Object.keys(rates).sort((a, b) => (a === 'USD' ? -1 : b === 'USD' ? 1 : a.localeCompare(b)));
+  const code = newCode.trim().toUpperCase();
+  const canAdd = /^[A-Z]{3}$/.test(code) && !(code in rates) && Number(newRate) > 0;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Compensation</label>
+      <p className="mt-1 text-xs text-gray-500">
+        Posted salaries are converted to a yearly figure in your currency. A job whose whole range is below your minimum
+        is rejected; falling short of the target is listed as a risk. Leave blank to skip.
+      </p>
+      <div className="mt-2 grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-600">
+          Minimum
+          <input
+            type="number"
+            min={0}
+            className={`mt-1 w-full ${INPUT_CLASS}`}
+            value={form.minimum}
+            onChange={(e) => onFormChange({ ...form, minimum: e.target.value })}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Target
+          <input
+            type="number"
+            min={0}
+            className={`mt-1 w-full ${INPUT_CLASS}`}
+            value={form.target}
+            onChange={(e) => onFormChange({ ...form, target: e.target.value })}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Currency
+          <select
+            className={`mt-1 w-full ${INPUT_CLASS}`}
+            value={form.currency}
+            onChange={(e) => onFormChange({ ...form, currency: e.target.value })}
+          >
+            {codes.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Per
+          <select
+            className={`mt-1 w-full ${INPUT_CLASS}`}
+            value={form.period}
+            onChange={(e) => onFormChange({ ...form, period: e.target.value as CompensationPeriod })}
+          >
+            <option value="year">Year</option>
+            <option value="hour">Hour</option>
+          </select>
+        </label>
+      </div>
+
+      <details className="mt-2 rounded-md border border-gray-200 bg-white p-2 text-xs text-gray-600">
+        <summary className="cursor-pointer font-medium text-gray-700">Exchange rates</summary>
+        <p className="mt-1">Value of one unit in USD. Rates are not fetched online; update them yourself when they drift.</p>
+        <ul className="mt-2 space-y-1">
+          {codes.map((c) => (
+            <li key={c} className="flex items-center gap-2">
+              <span className="w-16">1 {c} =</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                className={`w-24 ${INPUT_CLASS}`}
+                value={rates[c]}
+                disabled={c === 'USD'}
+                onChange={(e) => onRatesChange({ ...rates, [c]: Number(e.target.value) })}
+                aria-label={`${c} rate`}
+              />
+              <span>USD</span>
+              {c !== 'USD' && c !== form.currency && (
+                <button
+                  type="button"
+                  className="ml-auto rounded p-0.5 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+                  aria-label={`Remove ${c}`}
+                  onClick={() => {
+                    const next = { ...rates };
+                    delete next[c];
+                    onRatesChange(next);
+                  }}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <div className="mt-2 flex items-center gap-2">
+          <input
+            type="text"
+            className={`w-16 ${INPUT_CLASS}`}
+            placeholder="HKD"
+            maxLength={3}
+            value={newCode}
+            onChange={(e) => setNewCode(e.target.value)}
+            aria-label="Currency code"
+          />
+          <input
+            type="number"
+            min={0}
+            step="any"
+            className={`w-24 ${INPUT_CLASS}`}
+            placeholder="0.128"
+            value={newRate}
+            onChange={(e) => setNewRate(e.target.value)}
+            aria-label="Rate in USD"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!canAdd}
+            onClick={() => {
+              onRatesChange({ ...rates, [code]: Number(newRate) });
+              setNewCode('');
+              setNewRate('');
+            }}
+          >
+            Add
+          </Button>
+          <button type="button" className="ml-auto text-blue-600 hover:underline" onClick={() => onRatesChange(DEFAULT_FX_RATES)}>
+            Reset
+          </button>
+        </div>
+      </details>
+    </div>
+  );
+}
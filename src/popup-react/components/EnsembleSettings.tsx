@@ -0,0 +1,98 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+import { MAX_ENSEMBLE_SAMPLES } from '@/lib/ensemble';
+import { PROVIDER_LABELS, PROVIDER_MODELS } from '@/lib/providers';
+import type { ApiProvider, EnsembleMember } from '@/lib/types';
+
+const INPUT_CLASS =
+  'rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export interface EnsembleForm {
+  enabled: boolean;
+  /** Raw input text. */
+  samples: string;
+  members: EnsembleMember[];
+}
+
+/** Samples per evaluation and the providers/models they rotate through; no members repeats the main provider. */
+export function EnsembleSettings({
+  form,
+  mainProvider,
+  onChange,
+}: {
+  form: EnsembleForm;
+  mainProvider: ApiProvider;
+  onChange: (form: EnsembleForm) => void;
+}) {
+  const updateMember = (index: number, patch: Partial<EnsembleMember>) =>
+    onChange({ ...form, members: form.members.map((m, i) => (i === index ? { ...m, ...patch } : m)) });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <label className="block text-sm font-medium text-gray-700">Self-consistency</label>
+        <Switch checked={form.enabled} onCheckedChange={(enabled) => onChange({ ...form, enabled })} />
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        Runs every full evaluation several times and combines them: median score, majority verdict, merged bullets. The
+        result card shows how much the samples disagreed. Each sample is a model call and counts against rate limits and
+        budget. Samples after the first rotate through the members below; with none, they repeat the provider above.
+      </p>
+      {form.enabled && (
+        <div className="mt-2 space-y-2">
+          <label className="block text-xs text-gray-600">
+            Samples per job (2–{MAX_ENSEMBLE_SAMPLES})
+            <input
+              type="number"
+              min={2}
+              max={MAX_ENSEMBLE_SAMPLES}
+              className={`mt-1 w-full ${INPUT_CLASS}`}
+              value={form.samples}
+              onChange={(e) => onChange({ ...form, samples: e.target.value })}
+            />
+          </label>
+          {form.members.map((member, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <select
+                className={`w-2/5 ${INPUT_CLASS}`}
+                value={member.provider}
+                onChange={(e) => updateMember(i, { provider: e.target.value as ApiProvider })}
+              >
+                {Object.entries(PROVIDER_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                className={`min-w-0 flex-1 ${INPUT_CLASS}`}
+                placeholder={PROVIDER_MODELS[member.provider] ? `Blank: ${PROVIDER_MODELS[member.provider]}` : 'Model name'}
+                value={member.model}
+                onChange={(e) => updateMember(i, { model: e.target.value })}
+              />
+              <button
+                type="button"
+                className="text-gray-400 hover:text-red-600"
+                aria-label="Remove sample provider"
+                onClick={() => onChange({ ...form, members: form.members.filter((_, j) => j !== i) })}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...form, members: [...form.members, { provider: mainProvider, model: '' }] })}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add sample provider
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
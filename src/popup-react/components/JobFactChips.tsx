@@ -0,0 +1,25 @@
+import { cn } from '../lib/utils';
+import { jobFactChips } from '@/lib/jobfacts';
+import type { JobFacts, JobFactSources } from '@/lib/types';
+
+/** Posting facts as chips; facts the model inferred (not stated on the page) get a dashed outline. */
+export function JobFactChips({ facts, sources }: { facts?: JobFacts; sources?: JobFactSources }) {
+  const chips = jobFactChips(facts, sources);
+  if (chips.length === 0) return null;
+  return (
+    <ul className="mt-2 flex flex-wrap gap-1" aria-label="Job facts">
+      {chips.map((chip) => (
+        <li
+          key={chip.key}
+          className={cn(
+            'rounded-full border bg-gray-50 px-2 py-0.5 text-xs text-gray-700',
+            chip.source === 'model' ? 'border-dashed border-gray-400' : 'border-gray-200'
+          )}
+          title={chip.source === 'model' ? 'Read from the description by the model' : 'Stated on the job page'}
+        >
+          {chip.label}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,13 +1,43 @@
 import { useState, useEffect, useRef } from 'react';
-import { Check, Circle, ChevronDown, CheckCircle2, AlertTriangle, X } from 'lucide-react';
+import {
+  Check,
+  Circle,
+  ChevronDown,
+  CheckCircle2,
+  AlertTriangle,
+  X,
+  ArrowUpToLine,
+  Square,
+  ThumbsUp,
+  ThumbsDown,
+  Send,
+  Ban,
+} from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { Switch } from './ui/switch';
 import { Progress } from './ui/progress';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
-import { useEvaluation } from '../hooks/useEvaluation';
+import { useEvaluation, isAwaitingResult } from '../hooks/useEvaluation';
 import { cn } from '../lib/utils';
 import { getSettings, getJobEvaluationStats } from '@/lib/db';
+import { getProviderAdapter, PROVIDER_LABELS } from '@/lib/providers';
+import { formatUsd } from '@/lib/usage';
+import { SpendDashboard } from './SpendDashboard';
+import { ScoreBreakdown } from './ScoreBreakdown';
+import { SkillOverlapCard } from './SkillOverlapCard';
+import { JobFactChips } from './JobFactChips';
+import { formatAnnualRange } from '@/lib/compensation';
+import { FEEDBACK_LABELS, isPositiveFeedback } from '@/lib/feedback';
+import type {
+  CompensationCheck,
+  EnsembleSummary,
+  EvaluationResult,
+  FeedbackKind,
+  LocationCheck,
+  ResumeRecord,
+} from '@/lib/types';
+import { WORKPLACE_LABELS } from '@/lib/jobfacts';
 
 const VERDICT_LABELS: Record<string, string> = {
   worth: 'Worth Reviewing',
@@ -15,8 +45,53 @@ const VERDICT_LABELS: Record<string, string> = {
   not_worth: 'Not worth applying',
 };
 
+const COMPENSATION_STATUS: Record<CompensationCheck['status'], { label: string; className: string }> = {
+  below_minimum: { label: 'below your minimum', className: 'text-red-600' },
+  below_target: { label: 'below your target', className: 'text-amber-600' },
+  meets_target: { label: 'meets your target', className: 'text-green-700' },
+  no_expectation: { label: '', className: 'text-gray-500' },
+};
+
+const LOCATION_STATUS: Record<LocationCheck['status'], { label: string; className: string }> = {
+  commutable: { label: 'within your commute', className: 'text-green-700' },
+  relocation: { label: 'relocation country', className: 'text-green-700' },
+  remote: { label: '', className: 'text-gray-500' },
+  too_far: { label: 'out of reach', className: 'text-red-600' },
+  remote_restricted: { label: 'remote elsewhere only', className: 'text-amber-600' },
+  timezone_mismatch: { label: 'too little time-zone overlap', className: 'text-amber-600' },
+  unknown: { label: 'location not recognized', className: 'text-gray-500' },
+};
+
+const ENSEMBLE_CONFIDENCE: Record<EnsembleSummary['confidence'], { label: string; className: string }> = {
+  high: { label: 'High', className: 'text-gray-500' },
+  medium: { label: 'Medium', className: 'text-gray-500' },
+  low: { label: 'Low, samples disagree', className: 'text-amber-600' },
+};
+
+const FEEDBACK_BUTTONS: Array<{ kind: FeedbackKind; Icon: typeof ThumbsUp }> = [
+  { kind: 'up', Icon: ThumbsUp },
+  { kind: 'down', Icon: ThumbsDown },
+  { kind: 'applied', Icon: Send },
+  { kind: 'would_not_apply', Icon: Ban },
+];
+
 const MINUTES_SAVED_PER_JOB = 4;
 
+/** "Best resume: Frontend (v2)", found by id so renames show, with a note when it was updated or removed since. */
+function bestResumeText(result: EvaluationResult, resumes: ResumeRecord[]): string | null {
+  const ref = result.bestResume;
+  if (!ref) return result.bestResumeLabel ? `Best resume: ${result.bestResumeLabel}` : null;
+  const current = resumes.find((r) => r.id === ref.id);
+  const currentVersion = current?.version ?? 1;
+  return [
+    `Best resume: ${current?.label ?? ref.label} (v${ref.version})`,
+    !current && 'since removed',
+    current && currentVersion > ref.version && `updated since (now v${currentVersion})`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
 function formatHoursSaved(totalJobs: number): string {
   const minutes = totalJobs * MINUTES_SAVED_PER_JOB;
   const hours = minutes / 60;
@@ -42,6 +117,22 @@ function FooterStats({ onResultChange }: { onResultChange: unknown }) {
   );
 }
 
+/** "Retry 2/4 in 12s" for a rate-limited job waiting in the background queue; ticks every second. */
+function RetryCountdown({ retryAt, attempt, maxAttempts }: { retryAt: number; attempt?: number; maxAttempts?: number }) {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, []);
+  const seconds = Math.max(0, Math.ceil((retryAt - now) / 1000));
+  const attemptLabel = attempt != null && maxAttempts != null ? ` ${attempt}/${maxAttempts}` : '';
+  return (
+    <span className="shrink-0 text-xs font-medium text-orange-600" title="Rate limited; retrying automatically">
+      {seconds > 0 ? `Retry${attemptLabel} in ${seconds}s` : `Retrying${attemptLabel}…`}
+    </span>
+  );
+}
+
 export function JobIntelligencePanel({
   selectedResumeIds,
   setSelectedResumeIds,
@@ -53,8 +144,10 @@ export function JobIntelligencePanel({
 }) {
   const [autoEvaluate, setAutoEvaluate] = useState(true);
   const [hint, setHint] = useState<string>('Open a LinkedIn job page to evaluate.');
-  const [showMarkBadInput, setShowMarkBadInput] = useState(false);
-  const [markBadReason, setMarkBadReason] = useState('');
+  /** Negative feedback (or "Mark as bad") waiting for its optional reason. */
+  const [feedbackDraft, setFeedbackDraft] = useState<FeedbackKind | 'bad' | null>(null);
+  const [feedbackComment, setFeedbackComment] = useState('');
+  const [triageEnabled, setTriageEnabled] = useState(false);
 
   const {
     resumes,
@@ -62,12 +155,20 @@ export function JobIntelligencePanel({
     loading,
     error,
     jobTitle,
+    partial,
     runEvaluation,
     reRun,
+    triageListPage,
+    feedback,
+    giveFeedback,
+    clearFeedback,
     markAsBad,
     refetchResumes,
     processingJobs,
     removeFromProcessingList,
+    cancelEvaluation,
+    cancelAllEvaluations,
+    prioritizeEvaluation,
   } = useEvaluation(selectedResumeIds, onDebugLog);
 
   useEffect(() => {
@@ -79,12 +180,17 @@ export function JobIntelligencePanel({
         return;
       }
       const settings = await getSettings();
-      const needKey = settings.apiProvider !== 'ollama';
+      setTriageEnabled(!!settings.triage?.enabled);
+      const needKey = getProviderAdapter(settings.apiProvider).requiresApiKey;
       const hasKey = !!settings.apiKeys?.[settings.apiProvider]?.trim();
       if (needKey && !hasKey) {
         setHint('Set your API key in Settings.');
         return;
       }
+      if (settings.apiProvider === 'custom' && !settings.customEndpoint?.baseUrl.trim()) {
+        setHint('Set your endpoint URL in Settings.');
+        return;
+      }
       setHint(jobTitle?.trim() || 'Open a LinkedIn job page to evaluate.');
     })();
   }, [jobTitle]);
@@ -130,6 +236,14 @@ export function JobIntelligencePanel({
     }
   };
 
+  const submitFeedbackDraft = () => {
+    if (feedbackDraft === 'bad') markAsBad(feedbackComment);
+    else if (feedbackDraft) giveFeedback(feedbackDraft, feedbackComment);
+    setFeedbackComment('');
+    setFeedbackDraft(null);
+  };
+
+  const bestResumeNote = result ? bestResumeText(result, resumes) : null;
   const confidenceLabel = result
     ? result.score >= 70
       ? 'High'
@@ -195,14 +309,34 @@ export function JobIntelligencePanel({
           {resumes.length === 0 && (
             <p className="text-xs text-gray-500">No resumes yet. Add some in Resumes.</p>
           )}
+          {triageEnabled && (
+            <Button
+              variant="secondary"
+              size="sm"
+              className="w-full"
+              title="Quick triage for every job in the list; jobs that pass get the full evaluation"
+              onClick={() => triageListPage()}
+            >
+              Triage job list
+            </Button>
+          )}
         </CardContent>
       </Card>
 
       {/* Processing jobs queue */}
       {processingJobs.length > 0 && (
         <Card>
-          <CardHeader className="py-2">
+          <CardHeader className="flex-row items-center justify-between space-y-0 py-2">
             <CardTitle className="text-sm font-normal">Processing jobs</CardTitle>
+            {processingJobs.some((j) => isAwaitingResult(j.status)) && (
+              <button
+                type="button"
+                className="text-xs text-gray-500 hover:text-red-600 hover:underline"
+                onClick={() => cancelAllEvaluations()}
+              >
+                Cancel all
+              </button>
+            )}
           </CardHeader>
           <CardContent className="space-y-1 pt-0">
             {processingJobs.map((j) => (
@@ -234,23 +368,62 @@ export function JobIntelligencePanel({
                 </span>
                 {j.status === 'rate_limited' ? (
                   <span className="shrink-0 text-xs font-medium text-orange-600">Rate limited</span>
+                ) : j.status === 'queued' ? (
+                  <span className="shrink-0 text-xs text-gray-500" title="Waiting for the provider's per-minute budget">
+                    Queued (rate budget)
+                  </span>
+                ) : j.status === 'retrying' && j.retryAt != null ? (
+                  <RetryCountdown retryAt={j.retryAt} attempt={j.attempt} maxAttempts={j.maxAttempts} />
                 ) : j.status === 'done' ? (
                   <span className="shrink-0 text-xs text-gray-500">{j.score != null ? `${j.score}/100` : '—'}</span>
+                ) : j.stage === 'triage' ? (
+                  <span className="shrink-0 text-xs text-blue-600">Triage…</span>
                 ) : (
-                  <span className="shrink-0 text-xs text-blue-600">Evaluating…</span>
+                  <span className="shrink-0 text-xs text-blue-600">
+                    {j.triageScore != null ? `Triage ${j.triageScore} · Evaluating…` : 'Evaluating…'}
+                  </span>
+                )}
+                {isAwaitingResult(j.status) && !j.running && (
+                  <button
+                    type="button"
+                    className="shrink-0 rounded p-0.5 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+                    aria-label="Evaluate next"
+                    title="Evaluate next"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      prioritizeEvaluation(j.cacheKey);
+                    }}
+                  >
+                    <ArrowUpToLine className="h-4 w-4" />
+                  </button>
+                )}
+                {isAwaitingResult(j.status) ? (
+                  <button
+                    type="button"
+                    className="shrink-0 rounded p-0.5 text-gray-400 hover:bg-gray-200 hover:text-red-600"
+                    aria-label="Cancel evaluation"
+                    title="Cancel evaluation"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      cancelEvaluation(j.cacheKey);
+                    }}
+                  >
+                    <Square className="h-4 w-4" />
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className="shrink-0 rounded p-0.5 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+                    aria-label="Remove from list"
+                    title="Remove from list"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      removeFromProcessingList(j.cacheKey);
+                    }}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
                 )}
-                <button
-                  type="button"
-                  className="shrink-0 rounded p-0.5 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
-                  aria-label="Remove from list"
-                  title="Remove from list"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    removeFromProcessingList(j.cacheKey);
-                  }}
-                >
-                  <X className="h-4 w-4" />
-                </button>
               </div>
             ))}
           </CardContent>
@@ -262,8 +435,30 @@ export function JobIntelligencePanel({
         <Card>
           <CardContent className="flex items-center gap-3 py-6">
             <div className="h-5 w-5 animate-spin rounded-full border-2 border-gray-300 border-t-blue-600" />
-            <span className="text-sm text-gray-600">Evaluating job fit…</span>
+            <span className="text-sm text-gray-600">
+              {partial?.score != null ? `Evaluating job fit… ${partial.score}/100 so far` : 'Evaluating job fit…'}
+            </span>
           </CardContent>
+          {/* Streamed fields arrive before the full JSON is complete */}
+          {partial && !!(partial.explanation || partial.matchBullets?.length || partial.riskBullets?.length) && (
+            <CardContent className="space-y-2 pt-0">
+              {partial.explanation && <p className="text-xs text-gray-700">{partial.explanation}</p>}
+              <ul className="space-y-1.5">
+                {partial.matchBullets?.map((b, i) => (
+                  <li key={`m${i}`} className="flex items-start gap-2 text-xs text-gray-800">
+                    <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+                    <span>{b}</span>
+                  </li>
+                ))}
+                {partial.riskBullets?.map((b, i) => (
+                  <li key={`r${i}`} className="flex items-start gap-2 text-xs text-gray-800">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-red-500" />
+                    <span>{b}</span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          )}
         </Card>
       )}
       {error && (result || loading) && (
@@ -291,9 +486,82 @@ export function JobIntelligencePanel({
                 <span className="text-3xl font-bold">{result.score}</span>
                 <span className="text-sm text-gray-600">{VERDICT_LABELS[result.verdict] ?? result.verdict}</span>
               </div>
-              {confidenceLabel && (
+              {result.rawScore != null && result.rawScore !== result.score && !result.markedBad && (
+                <p className="mt-1 text-xs text-gray-500">Model score {result.rawScore}, calibrated to your feedback</p>
+              )}
+              {result.ensemble ? (
+                <p
+                  className={cn('mt-1 text-xs', ENSEMBLE_CONFIDENCE[result.ensemble.confidence].className)}
+                  title={result.ensemble.samples
+                    .map((x) => `${PROVIDER_LABELS[x.provider] ?? x.provider} · ${x.model}: ${x.score} (${VERDICT_LABELS[x.verdict] ?? x.verdict})`)
+                    .join('\n')}
+                >
+                  Confidence: {ENSEMBLE_CONFIDENCE[result.ensemble.confidence].label} · {result.ensemble.samples.length}{' '}
+                  samples ({result.ensemble.samples.map((x) => x.score).join(', ')}, ±{result.ensemble.scoreStdDev}) ·{' '}
+                  {Math.round(result.ensemble.verdictAgreement * result.ensemble.samples.length)}/
+                  {result.ensemble.samples.length} agree on the verdict
+                </p>
+              ) : (
+                confidenceLabel && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Confidence: {confidenceLabel} ({result.score}%)
+                  </p>
+                )
+              )}
+              {result.prefilterRuleId && (
+                <p className="mt-1 text-xs text-gray-500">Rejected by a pre-filter rule · no model call</p>
+              )}
+              {result.provider && (
                 <p className="mt-1 text-xs text-gray-500">
-                  Confidence: {confidenceLabel} ({result.score}%)
+                  via {PROVIDER_LABELS[result.provider] ?? result.provider}
+                  {result.model ? ` · ${result.model}` : ''}
+                  {result.promptVersion ? ` · prompt v${result.promptVersion}` : ''}
+                  {result.usage &&
+                    ` · ${(result.usage.promptTokens + result.usage.completionTokens).toLocaleString()}${result.usage.estimated ? '~' : ''} tokens` +
+                      (result.usage.costUsd != null ? ` · ${formatUsd(result.usage.costUsd)}` : '')}
+                </p>
+              )}
+              {result.triage && (
+                <p className={cn('mt-1 text-xs', result.triage.passed ? 'text-gray-500' : 'text-amber-600')}>
+                  {result.triage.passed
+                    ? `Passed triage with ${result.triage.score}/100 (threshold ${result.triage.threshold}) via ${result.triage.model}`
+                    : `Stopped at triage (threshold ${result.triage.threshold}); Re-evaluate runs the full evaluation.`}
+                </p>
+              )}
+              {result.promptTrim && (
+                <p
+                  className="mt-1 flex items-start gap-1 text-xs text-amber-600"
+                  title={`Estimated prompt: ${result.promptTrim.fullTokens.toLocaleString()} → ${result.promptTrim.promptTokens.toLocaleString()} tokens`}
+                >
+                  <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                  <span>
+                    Prompt was truncated to fit the model's {result.promptTrim.contextTokens.toLocaleString()}-token context:{' '}
+                    {result.promptTrim.steps.join('; ')}.
+                  </span>
+                </p>
+              )}
+              {bestResumeNote && <p className="mt-1 text-xs text-gray-600">{bestResumeNote}</p>}
+              <JobFactChips facts={result.facts} sources={result.factSources} />
+              {result.compensation && (
+                <p className={cn('mt-1 text-xs', COMPENSATION_STATUS[result.compensation.status].className)}>
+                  ≈ {formatAnnualRange(result.compensation)}
+                  {COMPENSATION_STATUS[result.compensation.status].label &&
+                    ` · ${COMPENSATION_STATUS[result.compensation.status].label}`}
+                  {result.compensation.periodAssumed && ' (pay period assumed)'}
+                </p>
+              )}
+              {result.locationCheck && (
+                <p className={cn('mt-1 text-xs', LOCATION_STATUS[result.locationCheck.status].className)}>
+                  {[
+                    result.locationCheck.place,
+                    result.locationCheck.workplaceType && WORKPLACE_LABELS[result.locationCheck.workplaceType],
+                    result.locationCheck.distanceKm != null && `${result.locationCheck.distanceKm.toLocaleString()} km`,
+                    result.locationCheck.timezoneOverlapHours != null &&
+                      `~${result.locationCheck.timezoneOverlapHours} h overlap`,
+                    LOCATION_STATUS[result.locationCheck.status].label,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
                 </p>
               )}
               <Progress value={result.score} className="mt-2 h-2" />
@@ -301,6 +569,10 @@ export function JobIntelligencePanel({
             </CardContent>
           </Card>
 
+          {result.criteria && result.criteria.length > 0 && <ScoreBreakdown criteria={result.criteria} />}
+
+          {result.skillOverlap && <SkillOverlapCard overlap={result.skillOverlap} />}
+
           {/* Strength & Risk Signals */}
           {(result.matchBullets?.length > 0 || result.riskBullets?.length > 0) && (
             <Collapsible defaultOpen={false}>
@@ -365,41 +637,68 @@ export function JobIntelligencePanel({
             <button
               type="button"
               className="text-xs text-gray-500 underline underline-offset-2 hover:text-gray-700"
-              onClick={() => setShowMarkBadInput((v) => !v)}
+              onClick={() => {
+                setFeedbackComment('');
+                setFeedbackDraft((d) => (d === 'bad' ? null : 'bad'));
+              }}
             >
               Mark as bad
             </button>
+            <div className="ml-auto flex items-center gap-1">
+              {FEEDBACK_BUTTONS.map(({ kind, Icon }) => (
+                <button
+                  key={kind}
+                  type="button"
+                  title={FEEDBACK_LABELS[kind]}
+                  aria-label={FEEDBACK_LABELS[kind]}
+                  aria-pressed={feedback?.kind === kind}
+                  className={cn(
+                    'rounded p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-700',
+                    (feedback?.kind === kind || feedbackDraft === kind) && 'bg-gray-100 text-gray-900'
+                  )}
+                  onClick={() => {
+                    setFeedbackComment('');
+                    if (feedback?.kind === kind) {
+                      setFeedbackDraft(null);
+                      clearFeedback();
+                    } else if (isPositiveFeedback(kind)) {
+                      setFeedbackDraft(null);
+                      giveFeedback(kind);
+                    } else {
+                      setFeedbackDraft((d) => (d === kind ? null : kind));
+                    }
+                  }}
+                >
+                  <Icon className="h-4 w-4" />
+                </button>
+              ))}
+            </div>
           </div>
-          {showMarkBadInput && (
+          {feedbackDraft && (
             <div className="flex items-start gap-2">
               <input
                 type="text"
-                placeholder="Why is this job bad? (optional)"
-                value={markBadReason}
-                onChange={(e) => setMarkBadReason(e.target.value)}
+                placeholder={
+                  feedbackDraft === 'bad' ? 'Why is this job bad? (optional)' : 'Why? (optional, e.g. wrong location, no remote)'
+                }
+                value={feedbackComment}
+                onChange={(e) => setFeedbackComment(e.target.value)}
                 className="min-w-0 flex-1 rounded border border-gray-300 px-2 py-1.5 text-xs focus:border-blue-500 focus:outline-none"
                 onKeyDown={(e) => {
-                  if (e.key === 'Enter') {
-                    markAsBad(markBadReason);
-                    setMarkBadReason('');
-                    setShowMarkBadInput(false);
-                  }
+                  if (e.key === 'Enter') submitFeedbackDraft();
                 }}
               />
-              <Button
-                variant="secondary"
-                size="sm"
-                className="shrink-0 text-xs"
-                onClick={() => {
-                  markAsBad(markBadReason);
-                  setMarkBadReason('');
-                  setShowMarkBadInput(false);
-                }}
-              >
+              <Button variant="secondary" size="sm" className="shrink-0 text-xs" onClick={submitFeedbackDraft}>
                 Save
               </Button>
             </div>
           )}
+          {feedback && !feedbackDraft && (
+            <p className="text-xs text-gray-500">
+              Your feedback: {FEEDBACK_LABELS[feedback.kind]}
+              {feedback.comment && ` (${feedback.comment})`} · click it again to take it back
+            </p>
+          )}
         </>
       )}
 
@@ -419,6 +718,7 @@ export function JobIntelligencePanel({
       )}
 
       {/* Footer */}
+      <SpendDashboard onResultChange={result} />
       <FooterStats onResultChange={result} />
     </div>
   );
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from './ui/button';
+import { countryName, GEO_COUNTRIES } from '@/lib/geodata';
+import { formatParsedLocation, parseLocation } from '@/lib/location';
+
+const INPUT_CLASS =
+  'rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export interface LocationForm {
+  home: string;
+  /** Raw input text; blank = not set. */
+  maxCommuteKm: string;
+  relocateCountries: string[];
+  minTimezoneOverlapHours: string;
+}
+
+function formatUtcOffset(offset: number): string {
+  const sign = offset < 0 ? '−' : '+';
+  const abs = Math.abs(offset);
+  const hours = Math.floor(abs);
+  const minutes = Math.round((abs - hours) * 60);
+  return `UTC${sign}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+}
+
+/** Home base with live lookup in the offline geodata, commute radius, relocation countries and time-zone overlap. */
+export function LocationSettings({ form, onChange }: { form: LocationForm; onChange: (form: LocationForm) => void }) {
+  const [pick, setPick] = useState('');
+  const home = form.home.trim() ? parseLocation(form.home) : null;
+  const offsets = home?.utcOffsets;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Location</label>
+      <p className="mt-1 text-xs text-gray-500">
+        Job locations are matched on this device against a built-in list of cities and countries. An on-site or hybrid
+        job beyond your commute and outside your relocation countries is rejected. Leave the home location blank to skip.
+      </p>
+      <input
+        type="text"
+        className={`mt-2 w-full ${INPUT_CLASS}`}
+        placeholder="e.g. Utrecht, Netherlands"
+        value={form.home}
+        onChange={(e) => onChange({ ...form, home: e.target.value })}
+        aria-label="Home location"
+      />
+      {home && (
+        <p className={`mt-1 text-xs ${home.coordinates ? 'text-gray-500' : 'text-amber-600'}`}>
+          {home.coordinates
+            ? `Found: ${formatParsedLocation(home)}${offsets ? ` · ${formatUtcOffset(offsets[0])}` : ''}`
+            : home.countries.length > 0
+              ? `City not in the built-in list; matching by country (${formatParsedLocation(home)}) only, so commute distance is not checked.`
+              : 'Not recognized. Try "City, Country".'}
+        </p>
+      )}
+      <div className="mt-2 grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-600">
+          Max commute (km)
+          <input
+            type="number"
+            min={0}
+            className={`mt-1 w-full ${INPUT_CLASS}`}
+            value={form.maxCommuteKm}
+            onChange={(e) => onChange({ ...form, maxCommuteKm: e.target.value })}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Remote: min. shared hours
+          <input
+            type="number"
+            min={0}
+            max={8}
+            className={`mt-1 w-full ${INPUT_CLASS}`}
+            value={form.minTimezoneOverlapHours}
+            onChange={(e) => onChange({ ...form, minTimezoneOverlapHours: e.target.value })}
+          />
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-gray-600">Would relocate to (include your own country to accept moves within it)</p>
+      {form.relocateCountries.length > 0 && (
+        <ul className="mt-1 flex flex-wrap gap-1">
+          {form.relocateCountries.map((code) => (
+            <li key={code} className="flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+              {countryName(code)}
+              <button
+                type="button"
+                className="rounded-full text-gray-400 hover:text-gray-700"
+                aria-label={`Remove ${countryName(code)}`}
+                onClick={() => onChange({ ...form, relocateCountries: form.relocateCountries.filter((c) => c !== code) })}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-1 flex gap-2">
+        <select
+          className={`min-w-0 flex-1 ${INPUT_CLASS}`}
+          value={pick}
+          onChange={(e) => setPick(e.target.value)}
+          aria-label="Country to add"
+        >
+          <option value="">Choose a country…</option>
+          {GEO_COUNTRIES.filter((c) => !form.relocateCountries.includes(c.code))
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map((c) => (
+              <option key={c.code} value={c.code}>
+                {c.name}
+              </option>
+            ))}
+        </select>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!pick}
+          onClick={() => {
+            onChange({ ...form, relocateCountries: [...form.relocateCountries, pick] });
+            setPick('');
+          }}
+        >
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
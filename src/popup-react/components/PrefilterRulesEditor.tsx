@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+import { checkRulePattern, describePrefilterRule, PREFILTER_FIELD_LABELS } from '@/lib/prefilter';
+import { SENIORITY_LABELS, WORKPLACE_LABELS } from '@/lib/jobfacts';
+import type { PrefilterField, PrefilterRule, SeniorityLevel, WorkplaceType } from '@/lib/types';
+
+type RuleKind = PrefilterRule['kind'];
+
+const KIND_LABELS: Record<RuleKind, string> = {
+  keyword: 'Keyword / regex',
+  seniority: 'Seniority',
+  workplace: 'On-site / remote',
+  visa: 'No visa sponsorship',
+};
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+function CheckboxGroup<T extends string>({
+  labels,
+  value,
+  onChange,
+}: {
+  labels: Record<T, string>;
+  value: T[];
+  onChange: (next: T[]) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1">
+      {(Object.keys(labels) as T[]).map((key) => (
+        <label key={key} className="flex items-center gap-1 text-xs text-gray-700">
+          <input type="checkbox" checked={value.includes(key)} onChange={() => onChange(toggle(value, key))} />
+          {labels[key]}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/** List of pre-filter rules with an enable switch each, plus a form to add a rule of any kind. */
+export function PrefilterRulesEditor({
+  rules,
+  onChange,
+}: {
+  rules: PrefilterRule[];
+  onChange: (rules: PrefilterRule[]) => void;
+}) {
+  const [kind, setKind] = useState<RuleKind>('keyword');
+  const [pattern, setPattern] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [fields, setFields] = useState<PrefilterField[]>(['title', 'description']);
+  const [levels, setLevels] = useState<SeniorityLevel[]>([]);
+  const [types, setTypes] = useState<WorkplaceType[]>([]);
+
+  const patternError = kind === 'keyword' && regex && pattern ? checkRulePattern(pattern) : null;
+  const canAdd =
+    kind === 'keyword'
+      ? pattern.trim() !== '' && fields.length > 0 && !patternError
+      : kind === 'seniority'
+        ? levels.length > 0
+        : kind === 'workplace'
+          ? types.length > 0
+          : !rules.some((r) => r.kind === 'visa');
+
+  const addRule = () => {
+    const base = { id: `rule_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`, enabled: true };
+    let rule: PrefilterRule;
+    if (kind === 'keyword') rule = { ...base, kind, fields, pattern: pattern.trim(), regex };
+    else if (kind === 'seniority') rule = { ...base, kind, levels };
+    else if (kind === 'workplace') rule = { ...base, kind, types };
+    else rule = { ...base, kind };
+    onChange([...rules, rule]);
+    setPattern('');
+    setLevels([]);
+    setTypes([]);
+  };
+
+  return (
+    <div>
+      {rules.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {rules.map((rule) => (
+            <li
+              key={rule.id}
+              className="flex items-center justify-between gap-2 rounded border border-gray-200 bg-white px-2 py-1 text-sm"
+            >
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => onChange(rules.map((r) => (r.id === rule.id ? { ...r, enabled } : r)))}
+                aria-label="Enable rule"
+              />
+              <span className={`min-w-0 flex-1 break-words ${rule.enabled ? '' : 'text-gray-400'}`}>
+                Reject if {describePrefilterRule(rule)}
+              </span>
+              <button
+                type="button"
+                className="rounded p-0.5 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+                aria-label="Remove rule"
+                onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-2 space-y-2 rounded border border-dashed border-gray-300 p-2">
+        <select
+          className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as RuleKind)}
+          aria-label="Rule type"
+        >
+          {(Object.keys(KIND_LABELS) as RuleKind[]).map((k) => (
+            <option key={k} value={k}>
+              {KIND_LABELS[k]}
+            </option>
+          ))}
+        </select>
+        {kind === 'keyword' && (
+          <>
+            <input
+              type="text"
+              className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              placeholder={regex ? 'e.g. fluent (dutch|german)' : 'e.g. Fluent Dutch'}
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+            />
+            <CheckboxGroup labels={PREFILTER_FIELD_LABELS} value={fields} onChange={setFields} />
+            <label className="flex items-center gap-1 text-xs text-gray-700">
+              <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} />
+              Regular expression (case-insensitive)
+            </label>
+            {patternError && <p className="text-xs text-red-600">Invalid regex: {patternError}</p>}
+          </>
+        )}
+        {kind === 'seniority' && <CheckboxGroup labels={SENIORITY_LABELS} value={levels} onChange={setLevels} />}
+        {kind === 'workplace' && <CheckboxGroup labels={WORKPLACE_LABELS} value={types} onChange={setTypes} />}
+        {kind === 'visa' && (
+          <p className="text-xs text-gray-500">Rejects postings that say they cannot sponsor a visa.</p>
+        )}
+        <Button variant="outline" size="sm" onClick={addRule} disabled={!canAdd}>
+          Add rule
+        </Button>
+      </div>
+    </div>
+  );
+}
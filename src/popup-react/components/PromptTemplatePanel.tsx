@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Home } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  BUILT_IN_PROMPT_VERSION,
+  getPromptTemplateVersions,
+  getSettings,
+  savePromptTemplateVersion,
+  saveSettings,
+} from '@/lib/db';
+import { findUnknownPromptVariables, PROMPT_VARIABLES } from '@/lib/prompts';
+import type { PromptTemplateVersion } from '@/lib/types';
+
+const TEXTAREA_CLASS =
+  'w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-xs focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+function versionLabel(v: PromptTemplateVersion): string {
+  if (v.version === 0) return 'v0 · Built-in';
+  const date = new Date(v.createdAt).toLocaleDateString();
+  return `v${v.version} · ${date}${v.note ? ` · ${v.note}` : ''}`;
+}
+
+/** Edit the evaluation prompt. Every save creates a new version; older versions stay selectable. */
+export function PromptTemplatePanel({ onBack }: { onBack: () => void }) {
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([BUILT_IN_PROMPT_VERSION]);
+  const [activeVersion, setActiveVersion] = useState(0);
+  const [selectedVersion, setSelectedVersion] = useState(0);
+  const [system, setSystem] = useState(BUILT_IN_PROMPT_VERSION.template.system);
+  const [user, setUser] = useState(BUILT_IN_PROMPT_VERSION.template.user);
+  const [note, setNote] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const [saved, settings] = await Promise.all([getPromptTemplateVersions(), getSettings()]);
+    const all = [...saved, BUILT_IN_PROMPT_VERSION];
+    const active = all.some((v) => v.version === settings.activePromptVersion) ? settings.activePromptVersion ?? 0 : 0;
+    setVersions(all);
+    setActiveVersion(active);
+    return { all, active };
+  }, []);
+
+  const selectVersion = useCallback((all: PromptTemplateVersion[], version: number) => {
+    const v = all.find((x) => x.version === version) ?? BUILT_IN_PROMPT_VERSION;
+    setSelectedVersion(v.version);
+    setSystem(v.template.system);
+    setUser(v.template.user);
+  }, []);
+
+  useEffect(() => {
+    load()
+      .then(({ all, active }) => selectVersion(all, active))
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [load, selectVersion]);
+
+  const selected = versions.find((v) => v.version === selectedVersion) ?? BUILT_IN_PROMPT_VERSION;
+  const dirty = system !== selected.template.system || user !== selected.template.user;
+  const unknown = [...new Set([...findUnknownPromptVariables(system), ...findUnknownPromptVariables(user)])];
+
+  const flash = (message: string) => {
+    setStatus(message);
+    setTimeout(() => setStatus(null), 1500);
+  };
+
+  const activate = async (version: number) => {
+    setError(null);
+    try {
+      await saveSettings({ activePromptVersion: version });
+      setActiveVersion(version);
+      flash(version === 0 ? 'Using built-in prompt' : `Using v${version}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleSaveVersion = async () => {
+    setError(null);
+    if (!user.trim()) {
+      setError('The user prompt cannot be empty.');
+      return;
+    }
+    try {
+      const saved = await savePromptTemplateVersion({ system, user }, note);
+      await saveSettings({ activePromptVersion: saved.version });
+      const { all } = await load();
+      selectVersion(all, saved.version);
+      setNote('');
+      flash(`Saved as v${saved.version}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Version</label>
+        <select
+          className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          value={selectedVersion}
+          onChange={(e) => selectVersion(versions, Number(e.target.value))}
+        >
+          {versions.map((v) => (
+            <option key={v.version} value={v.version}>
+              {versionLabel(v)}
+              {v.version === activeVersion ? ' (in use)' : ''}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          New evaluations use the version marked "in use". Each result records the version that produced it.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">System prompt</label>
+        <textarea className={TEXTAREA_CLASS} rows={6} value={system} onChange={(e) => setSystem(e.target.value)} />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">User prompt</label>
+        <textarea className={TEXTAREA_CLASS} rows={14} value={user} onChange={(e) => setUser(e.target.value)} />
+        {unknown.length > 0 && (
+          <p className="mt-1 text-xs text-amber-700" role="alert">
+            Unknown variable{unknown.length > 1 ? 's' : ''}: {unknown.map((v) => `{{${v}}}`).join(', ')} (rendered as empty)
+          </p>
+        )}
+      </div>
+
+      <details className="rounded-md border border-gray-200 bg-white p-2 text-xs text-gray-600">
+        <summary className="cursor-pointer font-medium text-gray-700">Variables</summary>
+        <ul className="mt-2 space-y-1">
+          {PROMPT_VARIABLES.map((v) => (
+            <li key={v.name}>
+              <code className="text-gray-900">{`{{${v.name}}}`}</code> – {v.description}
+            </li>
+          ))}
+        </ul>
+        <p className="mt-2">
+          Conditional text: <code>{'{{#if name}}…{{else}}…{{/if}}'}</code> (the else part is optional).
+        </p>
+      </details>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Version note (optional)</label>
+        <input
+          type="text"
+          className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          placeholder="e.g. stricter on seniority"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={handleSaveVersion} disabled={!dirty}>
+          {status ?? 'Save as new version'}
+        </Button>
+        {!dirty && selectedVersion !== activeVersion && (
+          <Button variant="outline" size="sm" onClick={() => activate(selectedVersion)}>
+            Use this version
+          </Button>
+        )}
+        {dirty && (
+          <Button variant="outline" size="sm" onClick={() => selectVersion(versions, selectedVersion)}>
+            Discard changes
+          </Button>
+        )}
+        {activeVersion !== 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              selectVersion(versions, 0);
+              activate(0);
+            }}
+          >
+            Reset to built-in
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={onBack}>
+          <Home className="mr-1 h-4 w-4" />
+          Home
+        </Button>
+      </div>
+    </div>
+  );
+}
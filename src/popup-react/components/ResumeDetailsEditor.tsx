@@ -0,0 +1,327 @@
+import { useMemo, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { computeExperienceYears, parseResumeDate } from '@/lib/resumeparse';
+import type { ResumeContact, StructuredResume } from '@/lib/types';
+
+const INPUT_CLASS =
+  'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/** Raw input text; lists are one item per line (skills comma-separated). */
+interface RoleForm {
+  title: string;
+  employer: string;
+  location: string;
+  start: string;
+  end: string;
+  current: boolean;
+  bullets: string;
+}
+
+interface EducationForm {
+  institution: string;
+  degree: string;
+  start: string;
+  end: string;
+}
+
+interface ResumeForm {
+  contact: Omit<ResumeContact, 'links'> & { links: string };
+  summary: string;
+  experience: RoleForm[];
+  education: EducationForm[];
+  skills: string;
+  certifications: string;
+}
+
+const EMPTY_ROLE: RoleForm = { title: '', employer: '', location: '', start: '', end: '', current: false, bullets: '' };
+const EMPTY_EDUCATION: EducationForm = { institution: '', degree: '', start: '', end: '' };
+
+function toForm(resume: StructuredResume): ResumeForm {
+  return {
+    contact: { ...resume.contact, links: resume.contact.links.join('\n') },
+    summary: resume.summary,
+    experience: resume.experience.map((r) => ({
+      ...r,
+      start: r.start ?? '',
+      end: r.end ?? '',
+      bullets: r.bullets.join('\n'),
+    })),
+    education: resume.education.map((e) => ({ ...e, start: e.start ?? '', end: e.end ?? '' })),
+    skills: resume.skills.join(', '),
+    certifications: resume.certifications.join('\n'),
+  };
+}
+
+function toLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+/** The edited resume; no parser version, so it is kept as the user left it. */
+function fromForm(form: ResumeForm): StructuredResume {
+  return {
+    contact: {
+      name: form.contact.name.trim(),
+      email: form.contact.email.trim(),
+      phone: form.contact.phone.trim(),
+      location: form.contact.location.trim(),
+      links: toLines(form.contact.links),
+    },
+    summary: form.summary.trim(),
+    experience: form.experience
+      .filter((r) => r.title.trim() || r.employer.trim())
+      .map((r) => ({
+        title: r.title.trim(),
+        employer: r.employer.trim(),
+        location: r.location.trim(),
+        start: parseResumeDate(r.start),
+        end: r.current ? null : parseResumeDate(r.end),
+        current: r.current,
+        bullets: toLines(r.bullets),
+      })),
+    education: form.education
+      .filter((e) => e.institution.trim() || e.degree.trim())
+      .map((e) => ({
+        institution: e.institution.trim(),
+        degree: e.degree.trim(),
+        start: parseResumeDate(e.start),
+        end: parseResumeDate(e.end),
+      })),
+    skills: form.skills
+      .split(/[,\n]/)
+      .map((s) => s.trim())
+      .filter(Boolean),
+    certifications: toLines(form.certifications),
+  };
+}
+
+/** Editor for a resume's parsed sections, with the years per skill its roles add up to. */
+export function ResumeDetailsEditor({
+  resume,
+  onSave,
+  onCancel,
+}: {
+  resume: StructuredResume;
+  onSave: (resume: StructuredResume) => void;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState<ResumeForm>(() => toForm(resume));
+  const experienceYears = useMemo(() => computeExperienceYears(fromForm(form)), [form]);
+
+  const updateContact = (patch: Partial<ResumeForm['contact']>) => setForm({ ...form, contact: { ...form.contact, ...patch } });
+  const updateRole = (index: number, patch: Partial<RoleForm>) =>
+    setForm({ ...form, experience: form.experience.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+  const updateEducation = (index: number, patch: Partial<EducationForm>) =>
+    setForm({ ...form, education: form.education.map((e, i) => (i === index ? { ...e, ...patch } : e)) });
+
+  return (
+    <div className="mt-2 space-y-3 border-t border-gray-100 pt-2 text-sm">
+      <div>
+        <p className="text-xs font-medium text-gray-700">Contact</p>
+        <div className="mt-1 grid grid-cols-2 gap-2">
+          {(['name', 'email', 'phone', 'location'] as const).map((field) => (
+            <input
+              key={field}
+              type="text"
+              className={INPUT_CLASS}
+              placeholder={field[0].toUpperCase() + field.slice(1)}
+              value={form.contact[field]}
+              onChange={(e) => updateContact({ [field]: e.target.value })}
+            />
+          ))}
+          <textarea
+            className={`col-span-2 ${INPUT_CLASS}`}
+            rows={2}
+            placeholder="Links, one per line"
+            value={form.contact.links}
+            onChange={(e) => updateContact({ links: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <label className="block text-xs font-medium text-gray-700">
+        Summary
+        <textarea
+          className={`mt-1 ${INPUT_CLASS}`}
+          rows={3}
+          value={form.summary}
+          onChange={(e) => setForm({ ...form, summary: e.target.value })}
+        />
+      </label>
+
+      <div>
+        <p className="text-xs font-medium text-gray-700">Experience</p>
+        {form.experience.map((role, i) => (
+          <div key={i} className="mt-1 space-y-1 rounded border border-gray-200 p-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                className={INPUT_CLASS}
+                placeholder="Title"
+                value={role.title}
+                onChange={(e) => updateRole(i, { title: e.target.value })}
+              />
+              <button
+                type="button"
+                className="text-gray-400 hover:text-red-600"
+                aria-label="Remove role"
+                onClick={() => setForm({ ...form, experience: form.experience.filter((_, j) => j !== i) })}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-1">
+              <input
+                type="text"
+                className={INPUT_CLASS}
+                placeholder="Employer"
+                value={role.employer}
+                onChange={(e) => updateRole(i, { employer: e.target.value })}
+              />
+              <input
+                type="text"
+                className={INPUT_CLASS}
+                placeholder="Location"
+                value={role.location}
+                onChange={(e) => updateRole(i, { location: e.target.value })}
+              />
+              <input
+                type="text"
+                className={INPUT_CLASS}
+                placeholder="Start (e.g. 2021-03)"
+                value={role.start}
+                onChange={(e) => updateRole(i, { start: e.target.value })}
+              />
+              <input
+                type="text"
+                className={INPUT_CLASS}
+                placeholder="End (e.g. 2023-06)"
+                disabled={role.current}
+                value={role.current ? '' : role.end}
+                onChange={(e) => updateRole(i, { end: e.target.value })}
+              />
+            </div>
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input type="checkbox" checked={role.current} onChange={(e) => updateRole(i, { current: e.target.checked })} />
+              Current role
+            </label>
+            <textarea
+              className={INPUT_CLASS}
+              rows={3}
+              placeholder="What you did, one bullet per line"
+              value={role.bullets}
+              onChange={(e) => updateRole(i, { bullets: e.target.value })}
+            />
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="mt-1"
+          onClick={() => setForm({ ...form, experience: [...form.experience, EMPTY_ROLE] })}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add role
+        </Button>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-gray-700">Education</p>
+        {form.education.map((entry, i) => (
+          <div key={i} className="mt-1 grid grid-cols-[1fr_1fr_auto] items-center gap-1">
+            <input
+              type="text"
+              className={INPUT_CLASS}
+              placeholder="Institution"
+              value={entry.institution}
+              onChange={(e) => updateEducation(i, { institution: e.target.value })}
+            />
+            <input
+              type="text"
+              className={INPUT_CLASS}
+              placeholder="Degree"
+              value={entry.degree}
+              onChange={(e) => updateEducation(i, { degree: e.target.value })}
+            />
+            <button
+              type="button"
+              className="text-gray-400 hover:text-red-600"
+              aria-label="Remove education"
+              onClick={() => setForm({ ...form, education: form.education.filter((_, j) => j !== i) })}
+            >
+              <X className="h-4 w-4" />
+            </button>
+            <input
+              type="text"
+              className={INPUT_CLASS}
+              placeholder="Start"
+              value={entry.start}
+              onChange={(e) => updateEducation(i, { start: e.target.value })}
+            />
+            <input
+              type="text"
+              className={INPUT_CLASS}
+              placeholder="End"
+              value={entry.end}
+              onChange={(e) => updateEducation(i, { end: e.target.value })}
+            />
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="mt-1"
+          onClick={() => setForm({ ...form, education: [...form.education, EMPTY_EDUCATION] })}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add education
+        </Button>
+      </div>
+
+      <label className="block text-xs font-medium text-gray-700">
+        Skills (comma-separated)
+        <textarea
+          className={`mt-1 ${INPUT_CLASS}`}
+          rows={2}
+          value={form.skills}
+          onChange={(e) => setForm({ ...form, skills: e.target.value })}
+        />
+      </label>
+
+      <label className="block text-xs font-medium text-gray-700">
+        Certifications (one per line)
+        <textarea
+          className={`mt-1 ${INPUT_CLASS}`}
+          rows={2}
+          value={form.certifications}
+          onChange={(e) => setForm({ ...form, certifications: e.target.value })}
+        />
+      </label>
+
+      <div className="rounded bg-gray-50 p-2 text-xs text-gray-600">
+        <p className="font-medium text-gray-700">
+          Years of experience{experienceYears.total != null ? `: ${experienceYears.total} in total` : ''}
+        </p>
+        {experienceYears.bySkill.length > 0 ? (
+          <p className="mt-1">{experienceYears.bySkill.map((s) => `${s.skill} ${s.years} yrs`).join(' · ')}</p>
+        ) : (
+          <p className="mt-1">Add dated roles that mention your skills to see years per skill.</p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => onSave(fromForm(form))}>
+          Save details
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { cn } from '../lib/utils';
+import { getResumeVersions } from '@/lib/db';
+import { diffLines, type DiffLine } from '@/lib/textdiff';
+import type { ResumeRecord, ResumeVersion } from '@/lib/types';
+
+/** Unchanged lines shown around each change. */
+const CONTEXT_LINES = 1;
+
+/** Changed lines with a little context; `null` stands for a run of unchanged lines left out. */
+function changedHunks(lines: DiffLine[]): Array<DiffLine | null> {
+  const keep = lines.map((l) => l.kind !== 'same');
+  const near = lines.map((_, i) =>
+    keep.slice(Math.max(0, i - CONTEXT_LINES), i + CONTEXT_LINES + 1).some(Boolean)
+  );
+  const hunks: Array<DiffLine | null> = [];
+  lines.forEach((line, i) => {
+    if (near[i]) hunks.push(line);
+    else if (hunks[hunks.length - 1] !== null) hunks.push(null);
+  });
+  return hunks;
+}
+
+function versionLabel(v: Pick<ResumeVersion, 'version' | 'savedAt'>): string {
+  return `v${v.version} · ${new Date(v.savedAt).toLocaleString()}`;
+}
+
+/** What changed in `version` compared with the one before it. */
+function VersionChanges({ before, version }: { before: ResumeVersion; version: ResumeVersion }) {
+  const hunks = before.text === version.text ? [] : changedHunks(diffLines(before.text, version.text));
+  return (
+    <div className="mt-1 space-y-1">
+      {before.label !== version.label && (
+        <p className="text-xs text-gray-600">
+          Renamed from “{before.label}” to “{version.label}”
+        </p>
+      )}
+      {hunks.length > 0 ? (
+        <pre className="max-h-48 overflow-auto rounded bg-gray-50 p-2 font-mono text-[11px] leading-4">
+          {hunks.map((line, i) =>
+            line ? (
+              <div
+                key={i}
+                className={cn(
+                  'whitespace-pre-wrap',
+                  line.kind === 'added' && 'bg-green-50 text-green-800',
+                  line.kind === 'removed' && 'bg-red-50 text-red-700 line-through'
+                )}
+              >
+                {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '− ' : '  '}
+                {line.text}
+              </div>
+            ) : (
+              <div key={i} className="text-gray-400">
+                …
+              </div>
+            )
+          )}
+        </pre>
+      ) : (
+        before.text === version.text && <p className="text-xs text-gray-500">Text unchanged; details edited.</p>
+      )}
+    </div>
+  );
+}
+
+/** A resume's versions, newest first, each with the changes it made; earlier ones can be restored. */
+export function ResumeHistory({
+  resume,
+  onRestore,
+  onClose,
+}: {
+  resume: ResumeRecord;
+  onRestore: (version: ResumeVersion) => void;
+  onClose: () => void;
+}) {
+  const [versions, setVersions] = useState<ResumeVersion[] | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  useEffect(() => {
+    getResumeVersions(resume.id)
+      .then(setVersions)
+      .catch(() => setVersions([]));
+  }, [resume.id, resume.version]);
+
+  const current: ResumeVersion = {
+    resumeId: resume.id,
+    version: resume.version ?? 1,
+    savedAt: resume.updatedAt ?? resume.createdAt,
+    label: resume.label,
+    text: resume.text,
+    structured: resume.structured,
+  };
+  const all = [current, ...(versions ?? [])];
+
+  return (
+    <div className="mt-2 space-y-2 border-t border-gray-100 pt-2 text-sm">
+      {versions === null && <p className="text-xs text-gray-500">Loading history…</p>}
+      {versions?.length === 0 && <p className="text-xs text-gray-500">No earlier versions yet.</p>}
+      {versions && versions.length > 0 && (
+        <ul className="space-y-1">
+          {all.map((v, i) => {
+            const before = all[i + 1];
+            return (
+              <li key={v.version} className="rounded border border-gray-200 px-2 py-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-gray-700">
+                    {versionLabel(v)}
+                    {i === 0 && ' · current'}
+                  </span>
+                  <div className="flex shrink-0">
+                    {before && (
+                      <Button variant="ghost" size="sm" onClick={() => setExpanded(expanded === v.version ? null : v.version)}>
+                        {expanded === v.version ? 'Hide changes' : 'Changes'}
+                      </Button>
+                    )}
+                    {i > 0 && (
+                      <Button variant="ghost" size="sm" onClick={() => onRestore(v)}>
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {before && expanded === v.version && <VersionChanges before={before} version={v} />}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <Button variant="ghost" size="sm" onClick={onClose}>
+        Close
+      </Button>
+    </div>
+  );
+}
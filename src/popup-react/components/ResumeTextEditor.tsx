@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import type { ResumeRecord } from '@/lib/types';
+
+/** Edit a resume's label and text in place; saving stores a new version. */
+export function ResumeTextEditor({
+  resume,
+  onSave,
+  onCancel,
+}: {
+  resume: ResumeRecord;
+  onSave: (changes: { label: string; text: string }) => void;
+  onCancel: () => void;
+}) {
+  const [label, setLabel] = useState(resume.label);
+  const [text, setText] = useState(resume.text);
+  const dirty = label.trim() !== resume.label || text !== resume.text;
+
+  return (
+    <div className="mt-2 space-y-2 border-t border-gray-100 pt-2 text-sm">
+      <input
+        type="text"
+        className="w-40 rounded-md border border-gray-300 px-2 py-1 text-sm"
+        placeholder="Label"
+        maxLength={50}
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+      />
+      <textarea
+        className="w-full rounded-md border border-gray-300 px-2 py-1 font-mono text-xs focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        rows={14}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <div className="flex gap-2">
+        <Button size="sm" disabled={!dirty || !label.trim() || text.trim().length < 50} onClick={() => onSave({ label: label.trim(), text })}>
+          Save as v{(resume.version ?? 1) + 1}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,53 @@
 import { useState, useEffect } from 'react';
 import { Home } from 'lucide-react';
 import { Button } from './ui/button';
+import { ResumeDetailsEditor } from './ResumeDetailsEditor';
+import { ResumeHistory } from './ResumeHistory';
+import { ResumeTextEditor } from './ResumeTextEditor';
 import {
   getAllResumes,
   addResume,
   deleteResume,
   generateResumeId,
+  restoreResumeVersion,
+  updateResume,
+  type ResumeChanges,
 } from '@/lib/db';
+import { readResumeFile, RESUME_FILE_ACCEPT, type ParsedResumeFile } from '@/lib/resumefile';
+import { getStructuredResume } from '@/lib/resumeparse';
+import { getResumeSummary } from '@/lib/resumesummary';
+import type { ResumeRecord, ResumeSummary, ResumeVersion, StructuredResume } from '@/lib/types';
+
+type ResumeListItem = ResumeRecord & { summary: ResumeSummary; structured: StructuredResume };
+
+function toListItem(r: ResumeRecord): ResumeListItem {
+  return { ...r, summary: getResumeSummary(r), structured: getStructuredResume(r) };
+}
+
+/** What is open under a saved resume. */
+type ResumeView = 'text' | 'details' | 'history';
+
+/** What the parser found, for the preview before saving. */
+function describeStructure(structured: StructuredResume): string {
+  const count = (n: number, one: string, many = `${one}s`) => `${n} ${n === 1 ? one : many}`;
+  return [
+    count(structured.experience.length, 'role'),
+    count(structured.education.length, 'education entry', 'education entries'),
+    count(structured.skills.length, 'listed skill'),
+    count(structured.certifications.length, 'certification'),
+  ].join(', ');
+}
+
+/** One line describing what a local model sees of the resume. */
+function describeSummary(summary: ResumeSummary): string {
+  const parts = [
+    summary.titles[0],
+    summary.years != null && `~${summary.years} yrs`,
+    `${summary.skills.length} skills`,
+    summary.domains.length > 0 && summary.domains.join(', '),
+  ].filter(Boolean);
+  return parts.join(' · ');
+}
 
 export function ResumesPanel({
   onBack,
@@ -15,20 +56,30 @@ export function ResumesPanel({
   onBack: () => void;
   onResumesChange: () => void;
 }) {
-  const [resumes, setResumes] = useState<{ id: string; label: string }[]>([]);
+  const [resumes, setResumes] = useState<ResumeListItem[]>([]);
   const [label, setLabel] = useState('');
+  /** Saved resume the parsed file replaces; empty to add a new one. */
+  const [replaceId, setReplaceId] = useState('');
   const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [preview, setPreview] = useState<{ meta: string; text: string } | null>(null);
+  const [preview, setPreview] = useState<{ meta: string; text: string; structure: string } | null>(null);
+  const [parsed, setParsed] = useState<ParsedResumeFile | null>(null);
   const [saved, setSaved] = useState(false);
+  const [open, setOpen] = useState<{ id: string; view: ResumeView } | null>(null);
 
-  useEffect(() => {
+  const reload = () =>
     getAllResumes().then((list) =>
-      setResumes(list.map((r) => ({ id: r.id, label: r.label })))
-    ).catch(() => setResumes([]));
+      setResumes(list.map(toListItem))
+    );
+
+  useEffect(() => {
+    reload().catch(() => setResumes([]));
   }, []);
 
+  const toggleView = (id: string, view: ResumeView) =>
+    setOpen(open?.id === id && open.view === view ? null : { id, view });
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0];
     setFile(f ?? null);
@@ -38,59 +89,27 @@ export function ResumesPanel({
 
   const handleParse = async () => {
     if (!label.trim() || !file) {
-      setError(!label.trim() ? 'Enter a label.' : 'Choose a PDF or DOCX file.');
-      return;
-    }
-    const ext = file.name.toLowerCase().slice(-4);
-    if (ext !== '.pdf' && file.name.toLowerCase().slice(-5) !== '.docx') {
-      setError('Only PDF and DOCX are supported.');
+      setError(!label.trim() ? 'Enter a label.' : 'Choose a resume file.');
       return;
     }
     setLoading(true);
     setError(null);
     setPreview(null);
+    setParsed(null);
     try {
-      const buf = await file.arrayBuffer();
-      let text: string;
-      if (ext === '.pdf') {
-        let workerUrl = '';
-        try {
-          if (typeof chrome !== 'undefined' && chrome.runtime?.getURL) {
-            workerUrl = chrome.runtime.getURL('pdf.worker.mjs');
-          }
-        } catch {
-          workerUrl = '';
-        }
-        if (!workerUrl || workerUrl.includes('invalid')) {
-          throw new Error(
-            'PDF parsing unavailable (extension context invalid). Reopen the panel or use DOCX.'
-          );
-        }
-        const pdfjsLib = await import('pdfjs-dist');
-        pdfjsLib.GlobalWorkerOptions.workerSrc = workerUrl;
-        const pdf = await pdfjsLib.getDocument({ data: buf, useSystemFonts: true }).promise;
-        const parts: string[] = [];
-        for (let i = 1; i <= pdf.numPages; i++) {
-          const page = await pdf.getPage(i);
-          const content = await page.getTextContent();
-          const pageText = content.items.map((it: { str?: string }) => it.str ?? '').join(' ');
-          parts.push(pageText);
-        }
-        text = parts.join('\n').replace(/\s+/g, ' ').trim();
-      } else {
-        const mammoth = await import('mammoth');
-        const result = await mammoth.extractRawText({ arrayBuffer: buf });
-        text = result.value.replace(/\s+/g, ' ').trim();
-      }
+      const result = await readResumeFile(file);
+      const { text } = result;
       if (!text || text.length < 50) {
         setError('Could not extract enough text from the file.');
         setLoading(false);
         return;
       }
       const words = text.trim().split(/\s+/).filter(Boolean).length;
+      setParsed(result);
       setPreview({
         meta: `"${label}" — ${text.length.toLocaleString()} characters, ~${words.toLocaleString()} words extracted.`,
         text: text.trim().slice(0, 220) + (text.length > 220 ? '…' : ''),
+        structure: describeStructure(result.structured),
       });
     } catch (e) {
       setError((e as Error).message);
@@ -100,42 +119,51 @@ export function ResumesPanel({
   };
 
   const handleSaveResume = async () => {
-    if (!preview || !label.trim()) return;
+    if (!preview || !parsed || !label.trim()) return;
     setError(null);
     try {
-      const buf = await file!.arrayBuffer();
-      let text: string;
-      const ext = file!.name.toLowerCase().slice(-4);
-      if (ext === '.pdf') {
-        const pdfjsLib = await import('pdfjs-dist');
-        const workerUrl = chrome.runtime.getURL('pdf.worker.mjs');
-        pdfjsLib.GlobalWorkerOptions.workerSrc = workerUrl;
-        const pdf = await pdfjsLib.getDocument({ data: buf, useSystemFonts: true }).promise;
-        const parts: string[] = [];
-        for (let i = 1; i <= pdf.numPages; i++) {
-          const page = await pdf.getPage(i);
-          const content = await page.getTextContent();
-          parts.push(content.items.map((it: { str?: string }) => it.str ?? '').join(' '));
-        }
-        text = parts.join('\n').replace(/\s+/g, ' ').trim();
+      if (replaceId) {
+        await updateResume(replaceId, { label: label.trim(), text: parsed.text, structured: parsed.structured });
       } else {
-        const mammoth = await import('mammoth');
-        const result = await mammoth.extractRawText({ arrayBuffer: buf });
-        text = result.value.replace(/\s+/g, ' ').trim();
+        await addResume({
+          id: generateResumeId(),
+          label: label.trim(),
+          text: parsed.text,
+          structured: parsed.structured,
+        });
       }
-      await addResume({
-        id: generateResumeId(),
-        label: label.trim(),
-        text,
-      });
       setLabel('');
+      setReplaceId('');
       setFile(null);
       setPreview(null);
+      setParsed(null);
       setSaved(true);
       setTimeout(() => setSaved(false), 1500);
-      getAllResumes().then((list) =>
-        setResumes(list.map((r) => ({ id: r.id, label: r.label })))
-      );
+      reload();
+      onResumesChange();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  /** Save edited text, label or details as the resume's next version. */
+  const handleUpdate = async (id: string, changes: ResumeChanges) => {
+    setError(null);
+    try {
+      await updateResume(id, changes);
+      setOpen(null);
+      reload();
+      onResumesChange();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleRestore = async (version: ResumeVersion) => {
+    setError(null);
+    try {
+      await restoreResumeVersion(version);
+      reload();
       onResumesChange();
     } catch (e) {
       setError((e as Error).message);
@@ -146,6 +174,7 @@ export function ResumesPanel({
     try {
       await deleteResume(id);
       setResumes((prev) => prev.filter((r) => r.id !== id));
+      if (replaceId === id) setReplaceId('');
       onResumesChange();
     } catch (e) {
       setError((e as Error).message);
@@ -154,7 +183,7 @@ export function ResumesPanel({
 
   return (
     <div className="space-y-4 p-4">
-      <p className="text-sm text-gray-600">Add up to 5 resumes (PDF or DOCX). Label each (e.g. Frontend, Full-stack).</p>
+      <p className="text-sm text-gray-600">Add up to 5 resumes (PDF, DOCX, ODT, RTF, TXT, Markdown, JSON Resume or a LinkedIn data export .zip). Label each (e.g. Frontend, Full-stack).</p>
       <div className="flex flex-wrap items-end gap-2">
         <input
           type="text"
@@ -164,10 +193,28 @@ export function ResumesPanel({
           value={label}
           onChange={(e) => setLabel(e.target.value)}
         />
+        {resumes.length > 0 && (
+          <select
+            className="rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+            value={replaceId}
+            onChange={(e) => {
+              setReplaceId(e.target.value);
+              const target = resumes.find((r) => r.id === e.target.value);
+              if (target && !label.trim()) setLabel(target.label);
+            }}
+          >
+            <option value="">Add as new resume</option>
+            {resumes.map((r) => (
+              <option key={r.id} value={r.id}>
+                Replace {r.label}
+              </option>
+            ))}
+          </select>
+        )}
         <input
           type="file"
           className="text-sm"
-          accept=".pdf,.docx"
+          accept={RESUME_FILE_ACCEPT}
           onChange={handleFileChange}
         />
         <Button
@@ -184,7 +231,16 @@ export function ResumesPanel({
         <div className="rounded border border-gray-200 bg-gray-50 p-3 text-sm">
           <p className="font-medium text-gray-700">{preview.meta}</p>
           <p className="mt-1 text-gray-600">{preview.text}</p>
-          <p className="mt-2 text-xs text-gray-500">This text will be sent to the model when you evaluate a job.</p>
+          <p className="mt-1 text-xs text-gray-600">Found {preview.structure}; you can correct them after saving.</p>
+          {replaceId && (
+            <p className="mt-1 text-xs text-gray-600">
+              Replaces “{resumes.find((r) => r.id === replaceId)?.label}”; its current text stays in the resume's history.
+            </p>
+          )}
+          <p className="mt-2 text-xs text-gray-500">
+            This text will be sent to the model when you evaluate a job. Ollama gets a short summary of it instead (titles,
+            years, domains, skills), shown under each saved resume.
+          </p>
           <Button className="mt-2" size="sm" onClick={handleSaveResume}>
             {saved ? 'Saved ✓' : 'Save CV'}
           </Button>
@@ -194,14 +250,43 @@ export function ResumesPanel({
       <p className="text-sm font-medium text-gray-700">Your resumes</p>
       <ul className="space-y-2">
         {resumes.map((r) => (
-          <li
-            key={r.id}
-            className="flex items-center justify-between rounded border border-gray-200 bg-white px-3 py-2"
-          >
-            <span className="text-sm font-medium">{r.label}</span>
-            <Button variant="ghost" size="sm" onClick={() => handleDelete(r.id)}>
-              Remove
-            </Button>
+          <li key={r.id} className="rounded border border-gray-200 bg-white px-3 py-2">
+            <div className="flex items-center justify-between">
+              <div className="min-w-0">
+                <span className="text-sm font-medium">{r.label}</span>
+                <span className="ml-1 text-xs text-gray-400">v{r.version ?? 1}</span>
+                <p className="truncate text-xs text-gray-500" title={r.summary.text}>
+                  {describeSummary(r.summary)}
+                </p>
+              </div>
+              <div className="flex shrink-0">
+                <Button variant="ghost" size="sm" onClick={() => toggleView(r.id, 'text')}>
+                  Edit
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => toggleView(r.id, 'details')}>
+                  Details
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => toggleView(r.id, 'history')}>
+                  History
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(r.id)}>
+                  Remove
+                </Button>
+              </div>
+            </div>
+            {open?.id === r.id && open?.view === 'text' && (
+              <ResumeTextEditor resume={r} onSave={(changes) => handleUpdate(r.id, changes)} onCancel={() => setOpen(null)} />
+            )}
+            {open?.id === r.id && open?.view === 'details' && (
+              <ResumeDetailsEditor
+                resume={r.structured}
+                onSave={(structured) => handleUpdate(r.id, { structured })}
+                onCancel={() => setOpen(null)}
+              />
+            )}
+            {open?.id === r.id && open?.view === 'history' && (
+              <ResumeHistory resume={r} onRestore={handleRestore} onClose={() => setOpen(null)} />
+            )}
           </li>
         ))}
       </ul>
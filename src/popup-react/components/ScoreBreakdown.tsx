@@ -0,0 +1,46 @@
+import { ChevronDown } from 'lucide-react';
+import { Card, CardTitle, CardContent } from './ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { cn } from '../lib/utils';
+import type { CriterionScore } from '@/lib/types';
+
+function barColor(score: number): string {
+  if (score >= 70) return 'bg-green-500';
+  if (score >= 40) return 'bg-amber-400';
+  return 'bg-red-500';
+}
+
+/** Bar per rubric criterion: its 0–100 score and its share of the overall score. */
+export function ScoreBreakdown({ criteria }: { criteria: CriterionScore[] }) {
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  if (criteria.length === 0 || totalWeight <= 0) return null;
+  return (
+    <Collapsible defaultOpen>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <button type="button" className="flex w-full items-center justify-between p-4 text-left hover:bg-gray-50">
+            <CardTitle className="text-sm font-normal">Score breakdown</CardTitle>
+            <ChevronDown className="h-4 w-4 shrink-0 text-gray-500" />
+          </button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-2 pt-0">
+            {criteria.map((c) => (
+              <div key={c.id} className="text-xs text-gray-700">
+                <div className="flex items-center justify-between">
+                  <span>{c.label}</span>
+                  <span className="text-gray-500">
+                    {c.score} · {Math.round((c.weight / totalWeight) * 100)}% weight
+                  </span>
+                </div>
+                <div className="mt-0.5 h-1.5 w-full overflow-hidden rounded-full bg-gray-200">
+                  <div className={cn('h-full rounded-full', barColor(c.score))} style={{ width: `${c.score}%` }} />
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
@@ -1,69 +1,304 @@
-import { useState, useEffect } from 'react';
-import { Home } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Home, ArrowUp, ArrowDown, X } from 'lucide-react';
 import { Button } from './ui/button';
+import { PrefilterRulesEditor } from './PrefilterRulesEditor';
+import { CompensationSettings, type CompensationForm } from './CompensationSettings';
+import { LocationSettings, type LocationForm } from './LocationSettings';
+import { TwoStageSettings, type TwoStageForm } from './TwoStageSettings';
+import { EnsembleSettings, type EnsembleForm } from './EnsembleSettings';
 import { getSettings, saveSettings } from '@/lib/db';
-import { PROVIDER_MODELS } from '@/lib/llm';
-import type { ApiProvider, SettingsRecord } from '@/lib/types';
-
-const PROVIDER_LABELS: Record<ApiProvider, string> = {
-  ollama: 'Ollama (local)',
-  groq: 'Groq',
-  google: 'Google (Gemini)',
-  openai: 'OpenAI',
-  anthropic: 'Anthropic',
-  openrouter: 'OpenRouter',
-};
+import { contextWindowKey, getDefaultContextWindow } from '@/lib/contextbudget';
+import { MAX_ENSEMBLE_SAMPLES } from '@/lib/ensemble';
+import { getCustomEndpointOriginPattern, getProviderAdapter, PROVIDER_LABELS, PROVIDER_MODELS } from '@/lib/providers';
+import { criterionIdFromLabel } from '@/lib/rubric';
+import { extractSkills } from '@/lib/skills';
+import {
+  DEFAULT_ENSEMBLE_SETTINGS,
+  DEFAULT_FX_RATES,
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_RUBRIC,
+  DEFAULT_TRIAGE_SETTINGS,
+} from '@/lib/types';
+import type {
+  ApiProvider,
+  PrefilterRule,
+  ProviderRateLimit,
+  RetryPolicy,
+  RubricCriterion,
+  SettingsRecord,
+} from '@/lib/types';
+
+/** Parse "Header-Name: value" lines into a header map (blank and malformed lines are skipped). */
+function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const idx = line.indexOf(':');
+    if (idx <= 0) continue;
+    const name = line.slice(0, idx).trim();
+    const value = line.slice(idx + 1).trim();
+    if (name) headers[name] = value;
+  }
+  return headers;
+}
+
+/** Blank = provider default, 0 = unlimited, otherwise a per-minute budget. */
+function parseLimitInput(text: string, fallback: number | null): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return fallback;
+  const n = Math.floor(Number(trimmed));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function formatLimitInput(value: number | null | undefined): string {
+  return value === undefined ? '' : value === null ? '0' : String(value);
+}
+
+function formatHeaderLines(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
 
 export function SettingsPanel({ onBack }: { onBack: () => void }) {
   const [profileIntent, setProfileIntent] = useState('');
   const [skillsTechStack, setSkillsTechStack] = useState('');
+  const recognizedSkills = useMemo(() => extractSkills(skillsTechStack), [skillsTechStack]);
   const [negativeFilters, setNegativeFilters] = useState('');
+  const [prefilterRules, setPrefilterRules] = useState<PrefilterRule[]>([]);
+  const [compensationForm, setCompensationForm] = useState<CompensationForm>({
+    currency: 'USD',
+    period: 'year',
+    minimum: '',
+    target: '',
+  });
+  const [fxRates, setFxRates] = useState<Record<string, number>>(DEFAULT_FX_RATES);
+  const [locationForm, setLocationForm] = useState<LocationForm>({
+    home: '',
+    maxCommuteKm: '',
+    relocateCountries: [],
+    minTimezoneOverlapHours: '',
+  });
   const [apiProvider, setApiProvider] = useState<ApiProvider>('ollama');
   const [apiKey, setApiKey] = useState('');
   const [model, setModel] = useState('');
   const [apiKeys, setApiKeys] = useState<Partial<Record<ApiProvider, string>>>({});
   const [providerModels, setProviderModels] = useState<Partial<Record<ApiProvider, string>>>({});
+  /** Raw context window inputs by `provider:model`. */
+  const [contextWindows, setContextWindows] = useState<Record<string, string>>({});
+  const [fallbackProviders, setFallbackProviders] = useState<ApiProvider[]>([]);
+  const [twoStageForm, setTwoStageForm] = useState<TwoStageForm>({
+    enabled: false,
+    provider: '',
+    model: '',
+    threshold: String(DEFAULT_TRIAGE_SETTINGS.threshold),
+  });
+  const [ensembleForm, setEnsembleForm] = useState<EnsembleForm>({
+    enabled: false,
+    samples: String(DEFAULT_ENSEMBLE_SETTINGS.samples),
+    members: [],
+  });
+  const [rateLimits, setRateLimits] = useState<Partial<Record<ApiProvider, ProviderRateLimit>>>({});
+  const [rpmInput, setRpmInput] = useState('');
+  const [tpmInput, setTpmInput] = useState('');
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
+  const [monthlyBudget, setMonthlyBudget] = useState('');
+  const [rubric, setRubric] = useState<RubricCriterion[]>(DEFAULT_RUBRIC);
+  const [newCriterion, setNewCriterion] = useState('');
+  const [customBaseUrl, setCustomBaseUrl] = useState('');
+  const [customHeaders, setCustomHeaders] = useState('');
   const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     getSettings().then((s: SettingsRecord) => {
       setProfileIntent(s.profileIntent);
       setSkillsTechStack(s.skillsTechStack);
       setNegativeFilters(s.negativeFilters);
+      setPrefilterRules(s.prefilterRules ?? []);
+      setCompensationForm({
+        currency: s.compensation?.currency ?? 'USD',
+        period: s.compensation?.period ?? 'year',
+        minimum: s.compensation?.minimum != null ? String(s.compensation.minimum) : '',
+        target: s.compensation?.target != null ? String(s.compensation.target) : '',
+      });
+      setFxRates(s.fxRates ?? DEFAULT_FX_RATES);
+      setLocationForm({
+        home: s.locationProfile?.home ?? '',
+        maxCommuteKm: s.locationProfile?.maxCommuteKm != null ? String(s.locationProfile.maxCommuteKm) : '',
+        relocateCountries: s.locationProfile?.relocateCountries ?? [],
+        minTimezoneOverlapHours:
+          s.locationProfile?.minTimezoneOverlapHours != null ? String(s.locationProfile.minTimezoneOverlapHours) : '',
+      });
       setApiProvider(s.apiProvider);
       setApiKeys(s.apiKeys ?? {});
       setProviderModels(s.providerModels ?? {});
       setApiKey(s.apiKeys?.[s.apiProvider] ?? '');
       setModel(s.providerModels?.[s.apiProvider] ?? '');
+      setContextWindows(
+        Object.fromEntries(Object.entries(s.contextWindows ?? {}).map(([key, tokens]) => [key, String(tokens)]))
+      );
+      setFallbackProviders(s.fallbackProviders ?? []);
+      const triage = s.triage ?? DEFAULT_TRIAGE_SETTINGS;
+      setTwoStageForm({
+        enabled: triage.enabled,
+        provider: triage.provider ?? '',
+        model: triage.model,
+        threshold: String(triage.threshold),
+      });
+      const ensemble = s.ensemble ?? DEFAULT_ENSEMBLE_SETTINGS;
+      setEnsembleForm({ enabled: ensemble.enabled, samples: String(ensemble.samples), members: ensemble.members });
+      setRetryPolicy(s.retryPolicy ?? DEFAULT_RETRY_POLICY);
+      setMonthlyBudget(s.monthlyBudgetUsd != null ? String(s.monthlyBudgetUsd) : '');
+      setRubric(s.rubric ?? DEFAULT_RUBRIC);
+      setRateLimits(s.rateLimits ?? {});
+      setRpmInput(formatLimitInput(s.rateLimits?.[s.apiProvider]?.requestsPerMinute));
+      setTpmInput(formatLimitInput(s.rateLimits?.[s.apiProvider]?.tokensPerMinute));
+      setCustomBaseUrl(s.customEndpoint?.baseUrl ?? '');
+      setCustomHeaders(formatHeaderLines(s.customEndpoint?.headers ?? {}));
     });
   }, []);
 
   useEffect(() => {
     setApiKey(apiKeys[apiProvider] ?? '');
     setModel(providerModels[apiProvider] ?? '');
+    setRpmInput(formatLimitInput(rateLimits[apiProvider]?.requestsPerMinute));
+    setTpmInput(formatLimitInput(rateLimits[apiProvider]?.tokensPerMinute));
   }, [apiProvider]);
 
-  const needApiKey = apiProvider !== 'ollama';
+  const adapter = getProviderAdapter(apiProvider);
+  const needApiKey = adapter.requiresApiKey;
+  const showApiKey = adapter.auth.type !== 'none';
+  const effectiveModel = model.trim() || PROVIDER_MODELS[apiProvider];
+  const contextKey = contextWindowKey(apiProvider, effectiveModel);
+
+  const moveFallback = (index: number, delta: number) => {
+    setFallbackProviders((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const updateCriterion = (id: string, patch: Partial<RubricCriterion>) => {
+    setRubric((prev) => prev.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+  };
+
+  const addCriterion = () => {
+    const label = newCriterion.trim();
+    if (!label) return;
+    setRubric((prev) => [...prev, { id: criterionIdFromLabel(label, prev), label, description: '', weight: 10 }]);
+    setNewCriterion('');
+  };
+
+  const rubricWeight = rubric.reduce((sum, c) => sum + Math.max(0, c.weight || 0), 0);
 
   const handleSave = async () => {
+    setError(null);
+    // chrome.permissions.request needs the click's user gesture, so it must run before any other await
+    if (apiProvider === 'custom') {
+      if (!model.trim()) {
+        setError('Enter the model name your endpoint expects.');
+        return;
+      }
+      let origin: string;
+      try {
+        origin = getCustomEndpointOriginPattern(customBaseUrl);
+      } catch (e) {
+        setError((e as Error).message);
+        return;
+      }
+      const granted = await chrome.permissions.request({ origins: [origin] }).catch(() => false);
+      if (!granted) {
+        setError(`Access to ${origin.replace(/\/\*$/, '')} was not granted, so the extension cannot reach the endpoint.`);
+        return;
+      }
+    }
     const nextApiKeys = { ...apiKeys };
     if (apiKey.trim()) nextApiKeys[apiProvider] = apiKey.trim();
     else delete nextApiKeys[apiProvider];
     const nextProviderModels = { ...providerModels };
     if (model.trim()) nextProviderModels[apiProvider] = model.trim();
     else delete nextProviderModels[apiProvider];
+    const nextRateLimits = { ...rateLimits };
+    if (rpmInput.trim() || tpmInput.trim()) {
+      nextRateLimits[apiProvider] = {
+        requestsPerMinute: parseLimitInput(rpmInput, adapter.defaultRateLimit.requestsPerMinute),
+        tokensPerMinute: parseLimitInput(tpmInput, adapter.defaultRateLimit.tokensPerMinute),
+      };
+    } else {
+      delete nextRateLimits[apiProvider];
+    }
 
     await saveSettings({
       profileIntent: profileIntent.trim(),
       skillsTechStack: skillsTechStack.trim(),
       negativeFilters: negativeFilters.trim(),
+      prefilterRules,
+      compensation:
+        Number(compensationForm.minimum) > 0 || Number(compensationForm.target) > 0
+          ? {
+              currency: compensationForm.currency,
+              period: compensationForm.period,
+              minimum: Number(compensationForm.minimum) > 0 ? Number(compensationForm.minimum) : null,
+              target: Number(compensationForm.target) > 0 ? Number(compensationForm.target) : null,
+            }
+          : null,
+      fxRates: Object.fromEntries(Object.entries(fxRates).filter(([, rate]) => rate > 0)),
+      locationProfile: locationForm.home.trim()
+        ? {
+            home: locationForm.home.trim(),
+            maxCommuteKm: locationForm.maxCommuteKm.trim() ? Math.max(0, Number(locationForm.maxCommuteKm)) : null,
+            relocateCountries: locationForm.relocateCountries,
+            minTimezoneOverlapHours: locationForm.minTimezoneOverlapHours.trim()
+              ? Math.min(8, Math.max(0, Number(locationForm.minTimezoneOverlapHours)))
+              : null,
+          }
+        : null,
       apiProvider,
       apiKeys: nextApiKeys,
       ollamaModel: nextProviderModels.ollama ?? 'llama3.1:8b',
       providerModels: nextProviderModels,
+      contextWindows: Object.fromEntries(
+        Object.entries(contextWindows)
+          .filter(([, tokens]) => Number(tokens) > 0)
+          .map(([key, tokens]) => [key, Math.round(Number(tokens))])
+      ),
+      customEndpoint: { baseUrl: customBaseUrl.trim(), headers: parseHeaderLines(customHeaders) },
+      fallbackProviders: fallbackProviders.filter((p) => p !== apiProvider),
+      triage: {
+        enabled: twoStageForm.enabled,
+        provider: twoStageForm.provider && twoStageForm.provider !== apiProvider ? twoStageForm.provider : null,
+        model: twoStageForm.model.trim(),
+        threshold: twoStageForm.threshold.trim()
+          ? Math.min(100, Math.max(0, Math.round(Number(twoStageForm.threshold)) || 0))
+          : DEFAULT_TRIAGE_SETTINGS.threshold,
+      },
+      ensemble: {
+        enabled: ensembleForm.enabled,
+        samples: Math.min(MAX_ENSEMBLE_SAMPLES, Math.max(2, Math.round(Number(ensembleForm.samples)) || 2)),
+        members: ensembleForm.members.map((m) => ({ provider: m.provider, model: m.model.trim() })),
+      },
+      rateLimits: nextRateLimits,
+      retryPolicy: {
+        ...retryPolicy,
+        maxAttempts: Math.max(1, Math.round(retryPolicy.maxAttempts) || 1),
+        baseDelayMs: Math.max(0, retryPolicy.baseDelayMs || 0),
+        maxDelayMs: Math.max(retryPolicy.baseDelayMs || 0, retryPolicy.maxDelayMs || 0),
+        jitter: Math.min(1, Math.max(0, retryPolicy.jitter || 0)),
+      },
+      monthlyBudgetUsd: Number(monthlyBudget) > 0 ? Number(monthlyBudget) : null,
+      rubric: rubric.map((c) => ({
+        ...c,
+        label: c.label.trim() || c.id,
+        description: c.description.trim(),
+        weight: Math.max(0, Number(c.weight) || 0),
+      })),
     });
     setApiKeys(nextApiKeys);
     setProviderModels(nextProviderModels);
+    setRateLimits(nextRateLimits);
     setSaved(true);
     setTimeout(() => setSaved(false), 1500);
   };
@@ -87,6 +322,9 @@ export function SettingsPanel({ onBack }: { onBack: () => void }) {
         value={skillsTechStack}
         onChange={(e) => setSkillsTechStack(e.target.value)}
       />
+      {recognizedSkills.length > 0 && (
+        <p className="text-xs text-gray-500">Recognized: {recognizedSkills.join(' · ')}</p>
+      )}
 
       <label className="block text-sm font-medium text-gray-700">Negative filters (deal-breakers)</label>
       <textarea
@@ -97,6 +335,91 @@ export function SettingsPanel({ onBack }: { onBack: () => void }) {
         onChange={(e) => setNegativeFilters(e.target.value)}
       />
 
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Pre-filter rules</label>
+        <p className="mt-1 text-xs text-gray-500">
+          Checked locally before the model is called. A job that matches an enabled rule is marked Not worth applying
+          instantly, with no API call.
+        </p>
+        <PrefilterRulesEditor rules={prefilterRules} onChange={setPrefilterRules} />
+      </div>
+
+      <CompensationSettings
+        form={compensationForm}
+        onFormChange={setCompensationForm}
+        rates={fxRates}
+        onRatesChange={setFxRates}
+      />
+
+      <LocationSettings form={locationForm} onChange={setLocationForm} />
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-medium text-gray-700">Scoring rubric</label>
+          <button type="button" className="text-xs text-blue-600 hover:underline" onClick={() => setRubric(DEFAULT_RUBRIC)}>
+            Reset to defaults
+          </button>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          The model rates each criterion 0–100; the overall score is their weighted average. Weight 0 turns a criterion off.
+        </p>
+        <ul className="mt-2 space-y-1">
+          {rubric.map((c) => (
+            <li key={c.id} className="rounded border border-gray-200 bg-white px-2 py-1">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  className="min-w-0 flex-1 rounded border border-gray-200 px-1.5 py-0.5 text-sm focus:border-blue-500 focus:outline-none"
+                  aria-label="Criterion name"
+                  value={c.label}
+                  onChange={(e) => updateCriterion(c.id, { label: e.target.value })}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  className="w-16 rounded border border-gray-200 px-1.5 py-0.5 text-sm focus:border-blue-500 focus:outline-none"
+                  aria-label={`${c.label} weight`}
+                  value={c.weight}
+                  onChange={(e) => updateCriterion(c.id, { weight: Number(e.target.value) })}
+                />
+                <span className="w-9 text-right text-xs text-gray-500">
+                  {rubricWeight > 0 ? `${Math.round((Math.max(0, c.weight || 0) / rubricWeight) * 100)}%` : '–'}
+                </span>
+                <button
+                  type="button"
+                  className="rounded p-0.5 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+                  aria-label="Remove criterion"
+                  onClick={() => setRubric((prev) => prev.filter((x) => x.id !== c.id))}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              <input
+                type="text"
+                className="mt-1 w-full rounded border border-gray-100 px-1.5 py-0.5 text-xs text-gray-600 focus:border-blue-500 focus:outline-none"
+                placeholder="What the model should rate"
+                aria-label={`${c.label} description`}
+                value={c.description}
+                onChange={(e) => updateCriterion(c.id, { description: e.target.value })}
+              />
+            </li>
+          ))}
+        </ul>
+        <div className="mt-2 flex gap-2">
+          <input
+            type="text"
+            className="min-w-0 flex-1 rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            placeholder="New criterion, e.g. Team size"
+            value={newCriterion}
+            onChange={(e) => setNewCriterion(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addCriterion()}
+          />
+          <Button variant="outline" size="sm" onClick={addCriterion} disabled={!newCriterion.trim()}>
+            Add
+          </Button>
+        </div>
+      </div>
+
       <label className="block text-sm font-medium text-gray-700">Provider</label>
       <select
         className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
@@ -115,15 +438,84 @@ export function SettingsPanel({ onBack }: { onBack: () => void }) {
         <input
           type="text"
           className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-          placeholder={`e.g. ${PROVIDER_MODELS[apiProvider]}`}
+          placeholder={PROVIDER_MODELS[apiProvider] ? `e.g. ${PROVIDER_MODELS[apiProvider]}` : 'Model name served by your endpoint'}
           value={model}
           onChange={(e) => setModel(e.target.value)}
         />
       </div>
 
-      {needApiKey && (
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Context window (tokens, optional)</label>
+        <input
+          type="number"
+          min={0}
+          className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          placeholder={`${getDefaultContextWindow(apiProvider, effectiveModel).toLocaleString()} for this model`}
+          value={contextWindows[contextKey] ?? ''}
+          onChange={(e) => setContextWindows((prev) => ({ ...prev, [contextKey]: e.target.value }))}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Prompts that would not fit are shortened: boilerplate in the description first, then resumes, then the rest
+          of the description. For Ollama, set this to the model's num_ctx if you raised it.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Rate budget (optional)</label>
+        <div className="mt-1 grid grid-cols-2 gap-2">
+          <input
+            type="number"
+            min={0}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            placeholder={`Requests/min (${adapter.defaultRateLimit.requestsPerMinute ?? 'no limit'})`}
+            value={rpmInput}
+            onChange={(e) => setRpmInput(e.target.value)}
+          />
+          <input
+            type="number"
+            min={0}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            placeholder={`Tokens/min (${adapter.defaultRateLimit.tokensPerMinute ?? 'no limit'})`}
+            value={tpmInput}
+            onChange={(e) => setTpmInput(e.target.value)}
+          />
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          Bulk evaluations are paced to stay under these per-minute limits. Blank uses the default shown; 0 means no limit.
+        </p>
+      </div>
+
+      {apiProvider === 'custom' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Endpoint base URL</label>
+            <input
+              type="url"
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              placeholder="e.g. http://localhost:8000/v1"
+              value={customBaseUrl}
+              onChange={(e) => setCustomBaseUrl(e.target.value)}
+            />
+            <p className="mt-1 text-xs text-gray-500">vLLM, LM Studio, llama.cpp or any OpenAI-compatible server. Chrome asks for access to this host when you save.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Extra headers (optional)</label>
+            <textarea
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-xs focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              rows={2}
+              placeholder="X-Header-Name: value (one per line)"
+              value={customHeaders}
+              onChange={(e) => setCustomHeaders(e.target.value)}
+            />
+          </div>
+        </>
+      )}
+
+      {showApiKey && (
         <div>
-          <label className="block text-sm font-medium text-gray-700">{PROVIDER_LABELS[apiProvider]} API key</label>
+          <label className="block text-sm font-medium text-gray-700">
+            {PROVIDER_LABELS[apiProvider]} API key{needApiKey ? '' : ' (optional)'}
+          </label>
           <input
             type="password"
             className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
@@ -135,6 +527,140 @@ export function SettingsPanel({ onBack }: { onBack: () => void }) {
         </div>
       )}
 
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Fallback providers (optional)</label>
+        <p className="mt-1 text-xs text-gray-500">
+          Tried in order when {PROVIDER_LABELS[apiProvider]} is rate limited, times out or rejects the key. Each needs its own key saved.
+        </p>
+        {fallbackProviders.filter((p) => p !== apiProvider).length > 0 && (
+          <ol className="mt-2 space-y-1">
+            {fallbackProviders
+              .filter((p) => p !== apiProvider)
+              .map((p) => {
+                const i = fallbackProviders.indexOf(p);
+                return (
+                  <li
+                    key={p}
+                    className="flex items-center justify-between gap-2 rounded border border-gray-200 bg-white px-2 py-1 text-sm"
+                  >
+                    <span className="min-w-0 flex-1 truncate">
+                      {i + 1}. {PROVIDER_LABELS[p]}
+                      {getProviderAdapter(p).requiresApiKey && !apiKeys[p] && (
+                        <span className="ml-1 text-xs text-orange-600">(no key saved)</span>
+                      )}
+                    </span>
+                    <button
+                      type="button"
+                      className="rounded p-0.5 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+                      aria-label="Move up"
+                      onClick={() => moveFallback(i, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      className="rounded p-0.5 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+                      aria-label="Move down"
+                      onClick={() => moveFallback(i, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      className="rounded p-0.5 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+                      aria-label="Remove fallback"
+                      onClick={() => setFallbackProviders((prev) => prev.filter((x) => x !== p))}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </li>
+                );
+              })}
+          </ol>
+        )}
+        <select
+          className="mt-2 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          value=""
+          onChange={(e) => {
+            const p = e.target.value as ApiProvider;
+            if (p) setFallbackProviders((prev) => (prev.includes(p) ? prev : [...prev, p]));
+          }}
+        >
+          <option value="">Add fallback…</option>
+          {Object.entries(PROVIDER_LABELS)
+            .filter(([value]) => value !== apiProvider && !fallbackProviders.includes(value as ApiProvider))
+            .map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+        </select>
+      </div>
+
+      <TwoStageSettings form={twoStageForm} mainProvider={apiProvider} onChange={setTwoStageForm} />
+
+      <EnsembleSettings form={ensembleForm} mainProvider={apiProvider} onChange={setEnsembleForm} />
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Retries when rate limited</label>
+        <p className="mt-1 text-xs text-gray-500">
+          Waits as long as the provider asks (Retry-After), otherwise backs off exponentially from the base delay.
+        </p>
+        <div className="mt-2 grid grid-cols-3 gap-2">
+          <label className="text-xs text-gray-600">
+            Max attempts
+            <input
+              type="number"
+              min={1}
+              max={10}
+              className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none"
+              value={retryPolicy.maxAttempts}
+              onChange={(e) => setRetryPolicy((p) => ({ ...p, maxAttempts: Number(e.target.value) }))}
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Base delay (s)
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none"
+              value={retryPolicy.baseDelayMs / 1000}
+              onChange={(e) => setRetryPolicy((p) => ({ ...p, baseDelayMs: Number(e.target.value) * 1000 }))}
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Jitter (%)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none"
+              value={Math.round(retryPolicy.jitter * 100)}
+              onChange={(e) => setRetryPolicy((p) => ({ ...p, jitter: Number(e.target.value) / 100 }))}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Monthly budget (USD, optional)</label>
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          placeholder="No limit"
+          value={monthlyBudget}
+          onChange={(e) => setMonthlyBudget(e.target.value)}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Evaluations with paid models stop once this month's estimated spend reaches the budget. Local and free models are not affected.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
       <div className="flex gap-2">
         <Button onClick={handleSave}>{saved ? 'Saved' : 'Save settings'}</Button>
         <Button variant="outline" size="sm" onClick={onBack}>
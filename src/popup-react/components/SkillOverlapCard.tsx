@@ -0,0 +1,78 @@
+import { ChevronDown } from 'lucide-react';
+import { Card, CardTitle, CardContent } from './ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { cn } from '../lib/utils';
+import { skillByName } from '@/lib/skills';
+import { SKILL_FAMILY_LABELS } from '@/lib/skilltaxonomy';
+import type { SkillOverlap } from '@/lib/types';
+
+function SkillChips({ names, className, adjacent }: { names: string[]; className: string; adjacent?: Record<string, string[]> }) {
+  return (
+    <ul className="mt-1 flex flex-wrap gap-1">
+      {names.map((name) => {
+        const family = skillByName(name)?.family;
+        const related = adjacent?.[name];
+        return (
+          <li
+            key={name}
+            className={cn('rounded-full border px-2 py-0.5 text-xs', className)}
+            title={[family && SKILL_FAMILY_LABELS[family], related && `You know ${related.join(', ')}`]
+              .filter(Boolean)
+              .join(' · ')}
+          >
+            {name}
+            {related && <span className="text-gray-500"> ~</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+/** Posting skills the user has and lacks, matched locally; "~" marks a lacking skill with a related one the user has. */
+export function SkillOverlapCard({ overlap }: { overlap: SkillOverlap }) {
+  return (
+    <Collapsible defaultOpen={false}>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <button type="button" className="flex w-full items-center justify-between p-4 text-left hover:bg-gray-50">
+            <CardTitle className="text-sm font-normal">
+              Skills · {overlap.matched.length} matched, {overlap.missing.length} missing
+            </CardTitle>
+            <ChevronDown className="h-4 w-4 shrink-0 text-gray-500" />
+          </button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-2 pt-0 text-xs text-gray-700">
+            {overlap.matched.length > 0 && (
+              <div>
+                You have
+                <SkillChips names={overlap.matched} className="border-green-200 bg-green-50 text-green-800" />
+              </div>
+            )}
+            {overlap.missing.length > 0 && (
+              <div>
+                Missing
+                <SkillChips
+                  names={overlap.missing}
+                  className="border-red-200 bg-red-50 text-red-800"
+                  adjacent={overlap.adjacent}
+                />
+              </div>
+            )}
+            {overlap.missingOptional.length > 0 && (
+              <div>
+                Missing nice-to-haves
+                <SkillChips
+                  names={overlap.missingOptional}
+                  className="border-amber-200 bg-amber-50 text-amber-800"
+                  adjacent={overlap.adjacent}
+                />
+              </div>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Card, CardTitle, CardContent } from './ui/card';
+import { Progress } from './ui/progress';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { getSettings, getUsageLog } from '@/lib/db';
+import { PROVIDER_LABELS, isApiProvider } from '@/lib/providers';
+import { formatUsd, getMonthStart, summarizeSpend, type SpendBucket, type SpendSummary } from '@/lib/usage';
+
+const DAYS_SHOWN = 14;
+
+function formatTokens(n: number): string {
+  return n >= 10_000 ? `${Math.round(n / 1000)}k` : n.toLocaleString();
+}
+
+function SpendTable({ title, rows, label }: { title: string; rows: SpendBucket[]; label?: (key: string) => string }) {
+  if (rows.length === 0) return null;
+  return (
+    <div>
+      <p className="mb-1 text-xs font-medium text-gray-600">{title}</p>
+      <table className="w-full text-xs text-gray-700">
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.key} className="border-t border-gray-100">
+              <td className="max-w-0 truncate py-0.5 pr-2" title={r.key}>
+                {label ? label(r.key) : r.key}
+              </td>
+              <td className="whitespace-nowrap py-0.5 pr-2 text-right text-gray-500">{r.evaluations}×</td>
+              <td className="whitespace-nowrap py-0.5 pr-2 text-right text-gray-500">
+                {formatTokens(r.promptTokens + r.completionTokens)} tok
+              </td>
+              <td className="whitespace-nowrap py-0.5 text-right">
+                {formatUsd(r.costUsd)}
+                {r.unpriced > 0 && <span title={`${r.unpriced} call(s) with unknown price`}>*</span>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/** This month's estimated LLM spend, broken down by day, provider and model, against the optional budget. */
+export function SpendDashboard({ onResultChange }: { onResultChange: unknown }) {
+  const [summary, setSummary] = useState<SpendSummary | null>(null);
+  const [budget, setBudget] = useState<number | null>(null);
+  useEffect(() => {
+    Promise.all([getUsageLog(getMonthStart()), getSettings()])
+      .then(([entries, settings]) => {
+        setSummary(summarizeSpend(entries));
+        setBudget(settings.monthlyBudgetUsd ?? null);
+      })
+      .catch(() => setSummary(null));
+  }, [onResultChange]);
+
+  if (!summary || (summary.total.evaluations === 0 && budget == null)) return null;
+  const { total } = summary;
+  const overBudget = budget != null && total.costUsd >= budget;
+  return (
+    <Collapsible defaultOpen={false}>
+      <Card>
+        <CollapsibleTrigger asChild>
+          <button type="button" className="flex w-full items-center justify-between p-3 text-left hover:bg-gray-50">
+            <CardTitle className="text-sm font-normal">
+              Spend this month: <span className={overBudget ? 'text-red-600' : undefined}>{formatUsd(total.costUsd)}</span>
+              {budget != null && <span className="text-gray-500"> of {formatUsd(budget)}</span>}
+            </CardTitle>
+            <ChevronDown className="h-4 w-4 shrink-0 text-gray-500" />
+          </button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-3 pt-0">
+            {budget != null && <Progress value={Math.min(100, (total.costUsd / budget) * 100)} className="h-1.5" />}
+            <p className="text-xs text-gray-500">
+              {total.evaluations} evaluations · {formatTokens(total.promptTokens)} prompt + {formatTokens(total.completionTokens)}{' '}
+              completion tokens. Costs are estimates at list prices{total.unpriced > 0 ? '; * = model with unknown price' : ''}.
+            </p>
+            <SpendTable title="By day" rows={summary.byDay.slice(0, DAYS_SHOWN)} />
+            <SpendTable
+              title="By provider"
+              rows={summary.byProvider}
+              label={(key) => (isApiProvider(key) ? PROVIDER_LABELS[key] : key)}
+            />
+            <SpendTable title="By model" rows={summary.byModel} />
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,83 @@
+import { Switch } from './ui/switch';
+import { PROVIDER_LABELS, PROVIDER_MODELS } from '@/lib/providers';
+import type { ApiProvider } from '@/lib/types';
+
+const INPUT_CLASS =
+  'rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export interface TwoStageForm {
+  enabled: boolean;
+  /** '' = the main provider. */
+  provider: ApiProvider | '';
+  model: string;
+  /** Raw input text. */
+  threshold: string;
+}
+
+/** Triage provider, model and pass threshold for "Triage job list"; the full evaluation uses the main provider. */
+export function TwoStageSettings({
+  form,
+  mainProvider,
+  onChange,
+}: {
+  form: TwoStageForm;
+  mainProvider: ApiProvider;
+  onChange: (form: TwoStageForm) => void;
+}) {
+  const provider = form.provider || mainProvider;
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <label className="block text-sm font-medium text-gray-700">Two-stage list triage</label>
+        <Switch checked={form.enabled} onCheckedChange={(enabled) => onChange({ ...form, enabled })} />
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        Adds "Triage job list" to the panel: every job in the list gets a quick, short-prompt score from a small model,
+        and only jobs scoring at least the threshold get the full evaluation with your resumes on the provider above. A
+        different triage provider needs its own key saved.
+      </p>
+      {form.enabled && (
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-600">
+            Triage provider
+            <select
+              className={`mt-1 w-full ${INPUT_CLASS}`}
+              value={form.provider}
+              onChange={(e) => onChange({ ...form, provider: e.target.value as ApiProvider | '' })}
+            >
+              <option value="">Same as above ({PROVIDER_LABELS[mainProvider]})</option>
+              {Object.entries(PROVIDER_LABELS)
+                .filter(([value]) => value !== mainProvider)
+                .map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-600">
+            Pass threshold (0–100)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              className={`mt-1 w-full ${INPUT_CLASS}`}
+              value={form.threshold}
+              onChange={(e) => onChange({ ...form, threshold: e.target.value })}
+            />
+          </label>
+          <label className="col-span-2 text-xs text-gray-600">
+            Triage model (optional)
+            <input
+              type="text"
+              className={`mt-1 w-full ${INPUT_CLASS}`}
+              placeholder={PROVIDER_MODELS[provider] ? `Blank uses the provider's model, e.g. ${PROVIDER_MODELS[provider]}` : 'Model name'}
+              value={form.model}
+              onChange={(e) => onChange({ ...form, model: e.target.value })}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
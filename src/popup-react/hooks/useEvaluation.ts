@@ -4,13 +4,30 @@ import {
   saveJobEvaluation,
   getAllResumes,
   getSettings,
+  saveSettings,
+  getFeedback,
+  saveFeedback,
+  deleteFeedback,
+  getAllFeedback,
+  getEvalQueueTask,
+  getEvalQueueTasks,
+  type EvalQueueRecord,
 } from '@/lib/db';
 import {
   getCacheKeyForJob,
   isLinkedInJobPage,
   isJobListPage,
 } from '@/lib/linkedin';
-import type { EvaluationResult, JobData, ResumeRecord } from '@/lib/types';
+import { fitCalibration, modelScoreOf } from '@/lib/feedback';
+import type {
+  EvaluationResult,
+  FeedbackKind,
+  FeedbackRecord,
+  JobData,
+  PartialEvaluation,
+  ResumeRecord,
+  TriageOutcome,
+} from '@/lib/types';
 
 export type EvaluationState = {
   result: EvaluationResult | null;
@@ -18,6 +35,8 @@ export type EvaluationState = {
   error: string | null;
   jobTitle: string | null;
   cacheKey: string | null;
+  /** Streamed fields of the in-flight evaluation for `cacheKey`; cleared when it completes. */
+  partial: PartialEvaluation | null;
   pendingRerun: { cacheKey: string; job: JobData | null; resumeIds: string[] | undefined } | null;
 };
 
@@ -25,8 +44,19 @@ export type ProcessingJob = {
   cacheKey: string;
   jobId: string;
   title: string;
-  status: 'pending' | 'done' | 'rate_limited';
+  status: 'pending' | 'queued' | 'retrying' | 'done' | 'rate_limited';
   score?: number;
+  /** Set while status is 'retrying': when the background will try again, and which attempt that is. */
+  retryAt?: number;
+  /** Set while status is 'queued': earliest start once the provider's rate budget refills. */
+  startAt?: number;
+  attempt?: number;
+  maxAttempts?: number;
+  /** The background has dispatched the request (it can be cancelled but no longer reordered). */
+  running?: boolean;
+  /** Two-stage runs: which pass the job is in, and its triage score once it has passed. */
+  stage?: 'triage' | 'deep';
+  triageScore?: number;
 };
 
 const PROCESSING_TITLE_MAX = 45;
@@ -35,6 +65,27 @@ const REMOVE_DONE_MS = 10 * 1000;
 const REMOVE_FAILED_MS = 20 * 1000;
 const HIGH_SCORE_KEEP = 75;
 
+/** Still queued or running in the background (shows the "Evaluating…" badge on LinkedIn). */
+export function isAwaitingResult(status: ProcessingJob['status']): boolean {
+  return status === 'pending' || status === 'queued' || status === 'retrying';
+}
+
+/** Processing-list row for a task found in the persisted background queue. */
+function toProcessingJob(task: EvalQueueRecord, now: number): ProcessingJob {
+  const entry: ProcessingJob = {
+    cacheKey: task.cacheKey,
+    jobId: task.job.id,
+    title: shortenTitle(task.job.title || task.job.id),
+    status: 'pending',
+    running: task.status === 'running',
+    ...(task.stage ? { stage: task.stage, triageScore: task.triage?.score } : {}),
+  };
+  if (task.status === 'queued' && task.notBefore > now) {
+    return { ...entry, status: 'retrying', retryAt: task.notBefore, attempt: task.attempt + 1 };
+  }
+  return entry;
+}
+
 function shortenTitle(title: string): string {
   const t = (title || '').trim();
   if (t.length <= PROCESSING_TITLE_MAX) return t;
@@ -52,9 +103,12 @@ export function useEvaluation(
     error: null,
     jobTitle: null,
     cacheKey: null,
+    partial: null,
     pendingRerun: null,
   });
   const [processingJobs, setProcessingJobs] = useState<ProcessingJob[]>([]);
+  /** The user's feedback on the job in `state.cacheKey`. */
+  const [feedback, setFeedback] = useState<FeedbackRecord | null>(null);
   const pendingTimeoutsRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
 
   const log = useCallback(
@@ -68,6 +122,20 @@ export function useEvaluation(
     getAllResumes().then(setResumes).catch(() => setResumes([]));
   }, []);
 
+  useEffect(() => {
+    if (!state.cacheKey) {
+      setFeedback(null);
+      return;
+    }
+    let stale = false;
+    getFeedback(state.cacheKey)
+      .then((f) => !stale && setFeedback(f))
+      .catch(() => !stale && setFeedback(null));
+    return () => {
+      stale = true;
+    };
+  }, [state.cacheKey]);
+
   const sendEvaluatingIdsToTab = useCallback(async (jobIds: string[], tabId?: number) => {
     const tab =
       tabId != null
@@ -82,7 +150,7 @@ export function useEvaluation(
   }, []);
 
   const sendEvaluatingJobsToTab = useCallback(async (tabId?: number) => {
-    const ids = processingJobs.filter((j) => j.status === 'pending').map((j) => j.jobId);
+    const ids = processingJobs.filter((j) => isAwaitingResult(j.status)).map((j) => j.jobId);
     await sendEvaluatingIdsToTab(ids, tabId);
   }, [processingJobs, sendEvaluatingIdsToTab]);
 
@@ -103,6 +171,122 @@ export function useEvaluation(
     sendEvaluatingJobsToTab();
   }, [processingJobs, sendEvaluatingJobsToTab]);
 
+  /**
+   * If no completion message arrives within `ms`, check the persisted queue: keep waiting while the task
+   * is still queued or running (nudging a stopped worker to resume it), otherwise mark it done and drop it.
+   */
+  const armPendingTimeout = useCallback((cacheKey: string, ms: number) => {
+    const arm = (delayMs: number) => {
+      const existing = pendingTimeoutsRef.current.get(cacheKey);
+      if (existing) clearTimeout(existing);
+      const id = setTimeout(async () => {
+        pendingTimeoutsRef.current.delete(cacheKey);
+        const task = await getEvalQueueTask(cacheKey).catch(() => null);
+        if (task && (task.status === 'queued' || task.status === 'running')) {
+          chrome.runtime.sendMessage({ type: 'RESUME_EVALUATION_QUEUE' }).catch(() => {});
+          arm(PENDING_TIMEOUT_MS);
+          return;
+        }
+        const score = task?.status === 'done' ? (await getJobEvaluation(cacheKey).catch(() => null))?.score : undefined;
+        setProcessingJobs((p) => {
+          const next = p.map((x) => (x.cacheKey === cacheKey ? { ...x, status: 'done' as const, score } : x));
+          setTimeout(() => setProcessingJobs((n) => n.filter((x) => x.cacheKey !== cacheKey)), REMOVE_FAILED_MS);
+          return next;
+        });
+      }, delayMs);
+      pendingTimeoutsRef.current.set(cacheKey, id);
+    };
+    arm(ms);
+  }, []);
+
+  // Evaluations keep running in the background while the panel is closed; show the ones still in the queue
+  useEffect(() => {
+    getEvalQueueTasks()
+      .then((tasks) => {
+        const now = Date.now();
+        const active = tasks.filter((t) => t.status === 'queued' || t.status === 'running');
+        if (active.length === 0) return;
+        chrome.runtime.sendMessage({ type: 'RESUME_EVALUATION_QUEUE' }).catch(() => {});
+        for (const t of active) armPendingTimeout(t.cacheKey, Math.max(0, t.notBefore - now) + PENDING_TIMEOUT_MS);
+        setProcessingJobs((prev) => {
+          const known = new Set(prev.map((x) => x.cacheKey));
+          const restored = active.filter((t) => !known.has(t.cacheKey)).map((t) => toProcessingJob(t, now));
+          return [...restored.reverse(), ...prev];
+        });
+      })
+      .catch(() => {});
+  }, [armPendingTimeout]);
+
+  // Background reschedules rate-limited evaluations instead of failing them
+  useEffect(() => {
+    const listener = (msg: {
+      type: string;
+      cacheKey?: string;
+      attempt?: number;
+      maxAttempts?: number;
+      retryAt?: number;
+      reason?: string;
+    }) => {
+      if (msg.type !== 'EVALUATION_RETRY_SCHEDULED' || msg.cacheKey == null || msg.retryAt == null) return;
+      const { cacheKey, retryAt } = msg;
+      log(`Retry ${msg.attempt}/${msg.maxAttempts} for ${cacheKey} in ${Math.ceil((retryAt - Date.now()) / 1000)}s: ${msg.reason ?? ''}`, 'warn');
+      armPendingTimeout(cacheKey, Math.max(0, retryAt - Date.now()) + PENDING_TIMEOUT_MS);
+      setProcessingJobs((prev) =>
+        prev.map((x) =>
+          x.cacheKey === cacheKey
+            ? { ...x, status: 'retrying' as const, retryAt, attempt: msg.attempt, maxAttempts: msg.maxAttempts, running: false }
+            : x
+        )
+      );
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, [log, armPendingTimeout]);
+
+  // Background holds jobs back while their provider's requests/tokens-per-minute budget refills
+  useEffect(() => {
+    const listener = (msg: { type: string; cacheKey?: string; earliestStartAt?: number; triage?: TriageOutcome }) => {
+      // A job passed triage; its full evaluation is now queued under the same cache key
+      if (msg.type === 'EVALUATION_TRIAGED' && msg.cacheKey != null && msg.triage) {
+        const { cacheKey, triage } = msg;
+        log(`Triage ${cacheKey}: ${triage.score}/100 (≥ ${triage.threshold}), full evaluation queued`);
+        armPendingTimeout(cacheKey, PENDING_TIMEOUT_MS);
+        setProcessingJobs((prev) =>
+          prev.map((x) =>
+            x.cacheKey === cacheKey
+              ? { ...x, status: 'pending' as const, stage: 'deep' as const, triageScore: triage.score, running: false }
+              : x
+          )
+        );
+        return;
+      }
+      if (msg.type === 'EVALUATION_STARTED' && msg.cacheKey != null) {
+        const { cacheKey } = msg;
+        armPendingTimeout(cacheKey, PENDING_TIMEOUT_MS);
+        setProcessingJobs((prev) =>
+          prev.map((x) =>
+            x.cacheKey === cacheKey && isAwaitingResult(x.status)
+              ? { ...x, status: 'pending' as const, startAt: undefined, retryAt: undefined, running: true }
+              : x
+          )
+        );
+        return;
+      }
+      if (msg.type !== 'EVALUATION_WAITING' || msg.cacheKey == null || msg.earliestStartAt == null) return;
+      const { cacheKey, earliestStartAt } = msg;
+      armPendingTimeout(cacheKey, Math.max(0, earliestStartAt - Date.now()) + PENDING_TIMEOUT_MS);
+      setProcessingJobs((prev) =>
+        prev.map((x) =>
+          x.cacheKey === cacheKey && (x.status === 'pending' || x.status === 'queued')
+            ? { ...x, status: 'queued' as const, startAt: earliestStartAt }
+            : x
+        )
+      );
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, [log, armPendingTimeout]);
+
   const refreshCachedScoresOnPage = useCallback(async (tabId?: number, tabUrl?: string) => {
     const tab = tabId != null
       ? await chrome.tabs.get(tabId).catch(() => null)
@@ -148,10 +332,28 @@ export function useEvaluation(
   // When evaluation runs in background (pending: true), background sends EVALUATION_COMPLETE when done
   useEffect(() => {
     const listener = (
-      msg: { type: string; cacheKey?: string; jobId?: string; result?: EvaluationResult; error?: string; raw?: string; senderTabId?: number }
+      msg: {
+        type: string;
+        cacheKey?: string;
+        jobId?: string;
+        result?: EvaluationResult;
+        error?: string;
+        raw?: string;
+        senderTabId?: number;
+        cancelled?: boolean;
+      }
     ) => {
       if (msg.type !== 'EVALUATION_COMPLETE' || msg.cacheKey == null) return;
       const cacheKey = msg.cacheKey;
+      if (msg.cancelled) {
+        const id = pendingTimeoutsRef.current.get(cacheKey);
+        if (id) clearTimeout(id);
+        pendingTimeoutsRef.current.delete(cacheKey);
+        log(`Evaluation cancelled: ${cacheKey}`);
+        setProcessingJobs((prev) => prev.filter((x) => x.cacheKey !== cacheKey));
+        setState((s) => (s.cacheKey === cacheKey && s.loading ? { ...s, loading: false, partial: null, error: msg.error ?? null } : s));
+        return;
+      }
       const isRateLimited = typeof msg.error === 'string' && msg.error.toLowerCase().includes('rate limit');
       const id = pendingTimeoutsRef.current.get(cacheKey);
       if (id) clearTimeout(id);
@@ -188,10 +390,10 @@ export function useEvaluation(
         if (s.cacheKey !== cacheKey) return s;
         if (msg.error) {
           log('Background eval error: ' + msg.error, 'error');
-          return { ...s, loading: false, error: msg.error, result: null };
+          return { ...s, loading: false, error: msg.error, result: null, partial: null };
         }
         if (msg.result) {
-          return { ...s, loading: false, result: msg.result, error: null };
+          return { ...s, loading: false, result: msg.result, error: null, partial: null };
         }
         return s;
       });
@@ -200,6 +402,16 @@ export function useEvaluation(
     return () => chrome.runtime.onMessage.removeListener(listener);
   }, [log, sendRateLimitedToTab]);
 
+  // While the background streams a response, it sends EVALUATION_PROGRESS with the fields parsed so far
+  useEffect(() => {
+    const listener = (msg: { type: string; cacheKey?: string; partial?: PartialEvaluation }) => {
+      if (msg.type !== 'EVALUATION_PROGRESS' || msg.cacheKey == null || !msg.partial) return;
+      setState((s) => (s.cacheKey === msg.cacheKey && s.loading ? { ...s, partial: msg.partial! } : s));
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, []);
+
   // When user switches to a LinkedIn job tab or navigates to one, clear "Open a LinkedIn page" error
   useEffect(() => {
     const clearErrorIfLinkedIn = (url: string | undefined) => {
@@ -222,7 +434,7 @@ export function useEvaluation(
   }, []);
 
   const runEvaluation = useCallback(async () => {
-    setState((s) => ({ ...s, loading: true, error: null }));
+    setState((s) => ({ ...s, loading: true, error: null, partial: null }));
     log('Run evaluation');
 
     const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
@@ -333,7 +545,9 @@ export function useEvaluation(
 
       if ((result as { pending?: boolean }).pending) {
         // Push evaluating badge immediately so fast jobs still show "Evaluating…".
-        const currentPendingIds = processingJobs.filter((j) => j.status === 'pending').map((j) => j.jobId);
+        const currentPendingIds = processingJobs
+          .filter((j) => isAwaitingResult(j.status))
+          .map((j) => j.jobId);
         const nextPendingIds = Array.from(new Set([...currentPendingIds, job.id]));
         sendEvaluatingIdsToTab(nextPendingIds, tab.id);
         setState((s) => ({
@@ -352,15 +566,7 @@ export function useEvaluation(
             title: shortenTitle(job.title || job.id),
             status: 'pending',
           };
-          const id = setTimeout(() => {
-            pendingTimeoutsRef.current.delete(cacheKey);
-            setProcessingJobs((p) => {
-              const next = p.map((x) => (x.cacheKey === cacheKey ? { ...x, status: 'done' as const } : x));
-              setTimeout(() => setProcessingJobs((n) => n.filter((x) => x.cacheKey !== cacheKey)), REMOVE_FAILED_MS);
-              return next;
-            });
-          }, PENDING_TIMEOUT_MS);
-          pendingTimeoutsRef.current.set(cacheKey, id);
+          armPendingTimeout(cacheKey, PENDING_TIMEOUT_MS);
           return [entry, ...filtered];
         });
         log('Evaluation queued (pending)');
@@ -407,12 +613,12 @@ export function useEvaluation(
       }));
       log('Exception: ' + err.message, 'error');
     }
-  }, [selectedResumeIds, log, sendRateLimitedToTab, processingJobs, sendEvaluatingIdsToTab]);
+  }, [selectedResumeIds, log, sendRateLimitedToTab, processingJobs, sendEvaluatingIdsToTab, armPendingTimeout]);
 
   const reRun = useCallback(async () => {
     const { pendingRerun } = state;
     if (!pendingRerun) return;
-    setState((s) => ({ ...s, loading: true, error: null }));
+    setState((s) => ({ ...s, loading: true, error: null, partial: null }));
 
     const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
     if (!tab?.id || !isLinkedInJobPage(tab.url)) {
@@ -457,9 +663,105 @@ export function useEvaluation(
     }
   }, [state.pendingRerun, selectedResumeIds]);
 
-  const markAsBad = useCallback(async (reason?: string) => {
+  /**
+   * Queue every job in the list page's left pane that has no result yet as a two-stage run: the background
+   * triages each one and goes on to the full evaluation for those that pass. Postings are fetched by id, so
+   * cards are not opened one by one; a card whose posting cannot be fetched is triaged on its title alone.
+   */
+  const triageListPage = useCallback(async () => {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id || !isJobListPage(tab.url)) {
+      setState((s) => ({ ...s, error: 'Open a LinkedIn job search or collection page first.' }));
+      return;
+    }
+    const tabId = tab.id;
+    await chrome.scripting.executeScript({ target: { tabId }, files: ['content.js'] }).catch(() => {});
+    const listResp = await chrome.tabs.sendMessage(tabId, { type: 'GET_LEFT_PANE_JOBS' }).catch(() => null);
+    if (!listResp?.ok || !Array.isArray(listResp.jobs) || listResp.jobs.length === 0) {
+      setState((s) => ({ ...s, error: 'No jobs found in the list on this page.' }));
+      return;
+    }
+    const resumeIds = selectedResumeIds.length > 0 ? selectedResumeIds : undefined;
+    const inProgress = new Set(processingJobs.filter((j) => isAwaitingResult(j.status)).map((j) => j.cacheKey));
+    let queued = 0;
+    for (const card of listResp.jobs as Array<{ id: string; title: string; company: string }>) {
+      const cacheKey = card.id;
+      if (inProgress.has(cacheKey) || (await getJobEvaluation(cacheKey).catch(() => null))) continue;
+      const details = await chrome.tabs.sendMessage(tabId, { type: 'GET_JOB_DETAILS', jobId: card.id }).catch(() => null);
+      const job: JobData = details?.ok && details.job
+        ? details.job
+        : { id: card.id, title: card.title, description: '', location: '', ...(card.company ? { company: card.company } : {}) };
+      await chrome.runtime.sendMessage({
+        type: 'EVALUATE_JOB',
+        job,
+        resumeIds,
+        cacheKey,
+        senderTabId: tabId,
+        tabUrl: tab.url,
+        twoStage: true,
+      });
+      armPendingTimeout(cacheKey, PENDING_TIMEOUT_MS);
+      const entry: ProcessingJob = {
+        cacheKey,
+        jobId: card.id,
+        title: shortenTitle(job.title || card.id),
+        status: 'pending',
+        stage: 'triage',
+      };
+      setProcessingJobs((prev) => [...prev.filter((x) => x.cacheKey !== cacheKey), entry]);
+      queued++;
+    }
+    log(queued > 0 ? `Triage queued for ${queued} job(s) on the list page` : 'Every job on the list page already has a result');
+  }, [selectedResumeIds, processingJobs, log, armPendingTimeout]);
+
+  /** Refit the score calibration on all feedback; it applies to evaluations from now on. */
+  const refitCalibration = useCallback(async () => {
+    const calibration = fitCalibration(await getAllFeedback());
+    await saveSettings({ calibration });
+    log(calibration ? `Score calibration refitted on ${calibration.sampleSize} feedback entries` : 'Not enough feedback to calibrate scores yet');
+  }, [log]);
+
+  const giveFeedback = useCallback(async (kind: FeedbackKind, comment?: string) => {
+    const { cacheKey, result, jobTitle, pendingRerun } = state;
+    if (!cacheKey || !result) return;
+    const job = pendingRerun?.cacheKey === cacheKey ? pendingRerun.job : null;
+    const record: FeedbackRecord = {
+      cacheKey,
+      kind,
+      ...(comment?.trim() ? { comment: comment.trim() } : {}),
+      job: {
+        title: job?.title?.trim() || jobTitle || '',
+        ...(job?.company ? { company: job.company } : {}),
+        location: job?.location ?? '',
+      },
+      rawScore: modelScoreOf(result),
+      verdict: result.verdict,
+      explanation: result.explanation,
+      createdAt: Date.now(),
+    };
+    await saveFeedback(record);
+    setFeedback(record);
+    await refitCalibration();
+  }, [state.cacheKey, state.result, state.jobTitle, state.pendingRerun, refitCalibration]);
+
+  const clearFeedback = useCallback(async () => {
     const { cacheKey } = state;
     if (!cacheKey) return;
+    await deleteFeedback(cacheKey);
+    setFeedback(null);
+    await refitCalibration();
+  }, [state.cacheKey, refitCalibration]);
+
+  /**
+   * Record the job as disliked, then replace its cached result with a zero score so its card badge shows it.
+   * The model's score stays on the replacement, so feedback given on it later is still calibrated on that score.
+   */
+  const markAsBad = useCallback(async (reason?: string) => {
+    const { cacheKey, result } = state;
+    if (!cacheKey) return;
+    const modelScore = result ? modelScoreOf(result) : null;
+    // Feedback keeps the model's score for calibration, so it is saved before the result is replaced
+    await giveFeedback('down', reason);
     const explanation = reason?.trim() || 'Marked as bad by user.';
     const badResult: EvaluationResult = {
       score: 0,
@@ -469,6 +771,8 @@ export function useEvaluation(
       riskBullets: [],
       bestResumeLabel: null,
       explanation,
+      markedBad: true,
+      ...(modelScore != null ? { rawScore: modelScore } : {}),
     };
     await saveJobEvaluation(cacheKey, badResult);
     setState((s) => ({
@@ -476,7 +780,8 @@ export function useEvaluation(
       result: badResult,
       error: null,
     }));
-  }, [state.cacheKey]);
+    refreshCachedScoresOnPage();
+  }, [state.cacheKey, state.result, giveFeedback, refreshCachedScoresOnPage]);
 
   const removeFromProcessingList = useCallback((cacheKey: string) => {
     const id = pendingTimeoutsRef.current.get(cacheKey);
@@ -485,14 +790,42 @@ export function useEvaluation(
     setProcessingJobs((prev) => prev.filter((j) => j.cacheKey !== cacheKey));
   }, []);
 
+  /** Stop a queued or running evaluation; the row disappears once the background confirms. */
+  const cancelEvaluation = useCallback(async (cacheKey: string) => {
+    const resp = await chrome.runtime.sendMessage({ type: 'CANCEL_EVALUATION', cacheKey }).catch(() => null);
+    // Nothing left to cancel in the background (already finished or lost); just drop the row
+    if (!resp?.ok) removeFromProcessingList(cacheKey);
+  }, [removeFromProcessingList]);
+
+  const cancelAllEvaluations = useCallback(async () => {
+    await chrome.runtime.sendMessage({ type: 'CANCEL_ALL' }).catch(() => {});
+  }, []);
+
+  /** Move a queued evaluation to the front of the background queue. */
+  const prioritizeEvaluation = useCallback(async (cacheKey: string) => {
+    const resp = await chrome.runtime.sendMessage({ type: 'PRIORITIZE_EVALUATION', cacheKey }).catch(() => null);
+    if (!resp?.ok) return;
+    setProcessingJobs((prev) => {
+      const j = prev.find((x) => x.cacheKey === cacheKey);
+      return j ? [j, ...prev.filter((x) => x.cacheKey !== cacheKey)] : prev;
+    });
+  }, []);
+
   return {
     resumes,
     ...state,
     runEvaluation,
     reRun,
+    triageListPage,
+    feedback,
+    giveFeedback,
+    clearFeedback,
     markAsBad,
     refetchResumes: () => getAllResumes().then(setResumes),
     processingJobs,
     removeFromProcessingList,
+    cancelEvaluation,
+    cancelAllEvaluations,
+    prioritizeEvaluation,
   };
 }
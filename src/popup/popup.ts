@@ -8,8 +8,10 @@ import {
   getJobEvaluation,
   saveJobEvaluation,
 } from '../lib/db';
-import { PROVIDER_MODELS } from '../lib/llm';
-import type { ResumeRecord, EvaluationResult, ApiProvider, JobData } from '../lib/types';
+import { getProviderAdapter, PROVIDER_ADAPTERS, PROVIDER_LABELS, PROVIDER_MODELS } from '../lib/providers';
+import { readResumeFile } from '../lib/resumefile';
+import { jobFactChips } from '../lib/jobfacts';
+import type { ResumeRecord, EvaluationResult, ApiProvider, JobData, StructuredResume } from '../lib/types';
 
 // --- Block chrome-extension://invalid requests (source of thousands of ERR_FAILED) ---
 const INVALID_EXTENSION_PREFIX = 'chrome-extension://invalid';
@@ -118,18 +120,20 @@ const saveSettingsBtn = document.getElementById('saveSettings')!;
 let apiKeys: Partial<Record<ApiProvider, string>> = {};
 let providerModels: Partial<Record<ApiProvider, string>> = {};
 
-const PROVIDER_LABELS: Record<ApiProvider, string> = {
-  ollama: 'Ollama',
-  groq: 'Groq',
-  google: 'Google',
-  openai: 'OpenAI',
-  anthropic: 'Anthropic',
-  openrouter: 'OpenRouter',
-};
+// Provider options come from the adapter registry so new backends show up without editing popup.html.
+// The custom endpoint is left out: this popup has no fields for its base URL and headers.
+apiProviderEl.replaceChildren(
+  ...PROVIDER_ADAPTERS.filter((a) => a.id !== 'custom').map((a) => {
+    const opt = document.createElement('option');
+    opt.value = a.id;
+    opt.textContent = a.label;
+    return opt;
+  })
+);
 
 function showProviderFields() {
   const provider = apiProviderEl.value as ApiProvider;
-  const needKey = provider !== 'ollama';
+  const needKey = getProviderAdapter(provider).requiresApiKey;
   apiKeyWrap.classList.toggle('hidden', !needKey);
   apiKeyEl.value = apiKeys[provider] ?? '';
   apiKeyLabelEl.textContent = `${PROVIDER_LABELS[provider]} API key`;
@@ -214,7 +218,7 @@ const resumeResultsWrap = document.getElementById('resumeResultsWrap')!;
 const resumeResultsMetaEl = document.getElementById('resumeResultsMeta')!;
 const resumeResultsPreviewEl = document.getElementById('resumeResultsPreview')!;
 const resumeSaveBtn = document.getElementById('resumeSaveBtn')!;
-let pendingResume: { label: string; text: string } | null = null;
+let pendingResume: { label: string; text: string; structured: StructuredResume } | null = null;
 
 async function renderResumes() {
   const list = await getAllResumes();
@@ -272,52 +276,6 @@ function escapeHtml(s: string): string {
   return div.innerHTML;
 }
 
-async function parsePdfToText(arrayBuffer: ArrayBuffer): Promise<string> {
-  // Resolve worker URL only when extension context is valid. When invalid (e.g. after
-  // reload), getURL returns chrome-extension://invalid/... and PDF.js would request it.
-  let workerUrl = '';
-  try {
-    if (typeof chrome !== 'undefined' && chrome.runtime?.getURL) {
-      workerUrl = chrome.runtime.getURL('pdf.worker.mjs');
-    }
-  } catch (e) {
-    debugLog('parsePdfToText: getURL threw ' + (e as Error).message, 'error');
-    workerUrl = '';
-  }
-  const contextValid = workerUrl.length > 0 && !workerUrl.includes('invalid');
-  debugLog(`parsePdfToText: workerUrl=${workerUrl.length > 60 ? workerUrl.slice(0, 60) + '...' : workerUrl} contextValid=${contextValid}`, 'info');
-  if (!contextValid) {
-    throw new Error(
-      'PDF parsing is unavailable (extension context invalid). Close the side panel and reopen it from the toolbar, or use a DOCX resume.'
-    );
-  }
-  const pdfjsLib = await import('pdfjs-dist');
-  pdfjsLib.GlobalWorkerOptions.workerSrc = workerUrl;
-  debugLog('parsePdfToText: set workerSrc, calling getDocument', 'info');
-  let pdf;
-  try {
-    pdf = await pdfjsLib.getDocument({ data: arrayBuffer, useSystemFonts: true }).promise;
-  } catch (e) {
-    debugLog('parsePdfToText: getDocument failed ' + (e as Error).message, 'error');
-    throw e;
-  }
-  const numPages = pdf.numPages;
-  const parts: string[] = [];
-  for (let i = 1; i <= numPages; i++) {
-    const page = await pdf.getPage(i);
-    const content = await page.getTextContent();
-    const text = content.items.map((it: { str?: string }) => it.str ?? '').join(' ');
-    parts.push(text);
-  }
-  return parts.join('\n').replace(/\s+/g, ' ').trim();
-}
-
-async function parseDocxToText(arrayBuffer: ArrayBuffer): Promise<string> {
-  const mammoth = await import('mammoth');
-  const result = await mammoth.extractRawText({ arrayBuffer });
-  return result.value.replace(/\s+/g, ' ').trim();
-}
-
 function wordCount(s: string): number {
   return s.trim().split(/\s+/).filter(Boolean).length;
 }
@@ -334,22 +292,15 @@ addResumeBtn.addEventListener('click', async () => {
     return;
   }
   if (!file) {
-    resumeErrorEl.textContent = 'Choose a PDF or DOCX file.';
+    resumeErrorEl.textContent = 'Choose a resume file.';
     resumeErrorEl.classList.remove('hidden');
     return;
   }
-  const ext = file.name.toLowerCase().slice(-4);
-  if (ext !== '.pdf' && file.name.toLowerCase().slice(-5) !== '.docx') {
-    resumeErrorEl.textContent = 'Only PDF and DOCX are supported.';
-    resumeErrorEl.classList.remove('hidden');
-    return;
-  }
-  resumeLoadingTextEl.textContent = ext === '.pdf' ? 'Parsing PDF…' : 'Parsing DOCX…';
+  resumeLoadingTextEl.textContent = `Parsing ${file.name}…`;
   resumeLoadingEl.classList.remove('hidden');
   addResumeBtn.disabled = true;
   try {
-    const buf = await file.arrayBuffer();
-    const text = ext === '.pdf' ? await parsePdfToText(buf) : await parseDocxToText(buf);
+    const { text, structured } = await readResumeFile(file);
     if (!text || text.length < 50) {
       resumeLoadingEl.classList.add('hidden');
       addResumeBtn.disabled = false;
@@ -365,7 +316,7 @@ addResumeBtn.addEventListener('click', async () => {
     const preview = text.trim().slice(0, previewLen) + (text.length > previewLen ? '…' : '');
     resumeResultsMetaEl.textContent = `"${label}" — ${chars.toLocaleString()} characters, ~${words.toLocaleString()} words extracted.`;
     resumeResultsPreviewEl.textContent = preview;
-    pendingResume = { label, text };
+    pendingResume = { label, text, structured };
     resumeResultsWrap.classList.remove('hidden');
     resumeSaveBtn.textContent = 'Save CV';
     resumeSaveBtn.disabled = false;
@@ -385,6 +336,7 @@ resumeSaveBtn.addEventListener('click', async () => {
       id: generateResumeId(),
       label: pendingResume.label,
       text: pendingResume.text,
+      structured: pendingResume.structured,
     });
     pendingResume = null;
     resumeLabelEl.value = '';
@@ -704,7 +656,7 @@ async function updateEvaluateHint() {
   const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
   const onJobPage = isLinkedInJobPage(tab?.url);
   const settings = await getSettings();
-  const needKey = settings.apiProvider !== 'ollama';
+  const needKey = getProviderAdapter(settings.apiProvider).requiresApiKey;
   const hasKey = !!settings.apiKeys?.[settings.apiProvider]?.trim();
   if (!onJobPage) {
     evalHint.textContent = 'Open a LinkedIn job page to evaluate.';
@@ -1035,9 +987,18 @@ function showResult(r: EvaluationResult) {
   if (r.riskBullets?.length) {
     html += '<p><strong>Risks / gaps:</strong></p><ul class="result-bullets">' + r.riskBullets.map((b) => `<li>${escapeHtml(b)}</li>`).join('') + '</ul>';
   }
-  if (r.bestResumeLabel) {
+  if (r.bestResume) {
+    html += `<div class="result-best-resume">Best resume: ${escapeHtml(r.bestResume.label)} (v${r.bestResume.version})</div>`;
+  } else if (r.bestResumeLabel) {
     html += `<div class="result-best-resume">Best resume: ${escapeHtml(r.bestResumeLabel)}</div>`;
   }
+  const factChips = jobFactChips(r.facts, r.factSources);
+  if (factChips.length > 0) {
+    html +=
+      '<ul class="result-facts">' +
+      factChips.map((c) => `<li class="${c.source === 'model' ? 'inferred' : ''}">${escapeHtml(c.label)}</li>`).join('') +
+      '</ul>';
+  }
   if (r.extraInfo && Object.keys(r.extraInfo).length > 0) {
     html += `<details class="result-raw"><summary>Extra info</summary><pre>${escapeHtml(JSON.stringify(r.extraInfo, null, 2))}</pre></details>`;
   }